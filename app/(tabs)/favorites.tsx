@@ -11,6 +11,7 @@ import {
   View,
 } from "react-native";
 
+import { SearchButton } from "@/components/ui/SearchButton";
 import { Colors } from "@/constants/theme";
 import {
   FavoriteItem,
@@ -146,6 +147,7 @@ export default function FavoritesScreen() {
         <Text style={[styles.title, { color: colors.text }]}>
           {t.favorites}
         </Text>
+        <SearchButton />
       </View>
 
       {/* Content */}
@@ -168,6 +170,9 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
     paddingHorizontal: 16,
     paddingTop: Platform.OS === "ios" ? 60 : 40,
     paddingBottom: 12,
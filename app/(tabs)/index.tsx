@@ -1,6 +1,7 @@
 import { Ionicons } from "@expo/vector-icons";
 import BottomSheet from "@gorhom/bottom-sheet";
 import * as Location from "expo-location";
+import { useLocalSearchParams } from "expo-router";
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Platform,
@@ -14,24 +15,42 @@ import { Colors } from "@/constants/theme";
 import { useCity } from "@/contexts/CityContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useTheme } from "@/contexts/ThemeContext";
-import { useBusLocations, useClosestStops, useStops } from "@/lib/queries";
+import {
+  useBusLocations,
+  useRouteDetails,
+  useRoutes,
+  useStops,
+  useVehicleFreshness,
+  useVehicleMotion,
+  useViewportStops,
+} from "@/lib/queries";
+import { vehicleFreshness } from "@/lib/vehicle-freshness";
 import { getTransitNetwork, type TransitStation } from "@/lib/transit-lines";
-import type { Stop } from "@/lib/types";
+import type { Stop, StopRoute } from "@/lib/types";
 
 import { ArrivalsSheet } from "@/components/arrivals/ArrivalsSheet";
 import { NearbyStopsCards } from "@/components/map/NearbyStopsCards";
 import {
   MapMarker,
+  MapRegion,
   OpenStreetMap,
   OpenStreetMapRef,
 } from "@/components/map/OpenStreetMap";
 import { SettingsModal } from "@/components/settings/SettingsModal";
+import { SearchButton } from "@/components/ui/SearchButton";
 
 export default function StopsScreen() {
   const { theme: colorScheme } = useTheme();
-  const { t } = useLanguage();
+  const { t, localize } = useLanguage();
   const { city, cityConfig, isAthens } = useCity(); // Added isAthens
   const colors = Colors[colorScheme];
+  // Set by the search screen when a street or a line is picked
+  const { focusLat, focusLng, lineCode, lineId } = useLocalSearchParams<{
+    focusLat?: string;
+    focusLng?: string;
+    lineCode?: string;
+    lineId?: string;
+  }>();
 
   const bottomSheetRef = useRef<BottomSheet>(null);
   const mapRef = useRef<OpenStreetMapRef>(null);
@@ -47,23 +66,38 @@ export default function StopsScreen() {
     longitude: number;
   }>({ latitude: cityConfig.center.lat, longitude: cityConfig.center.lng });
   const [selectedStop, setSelectedStop] = useState<Stop | null>(null);
-  const [selectedRouteCode] = useState<string | null>(null);
+  // Line drawn on the map; routeCode null means its first route
+  const [selectedLine, setSelectedLine] = useState<{
+    lineCode: string;
+    lineId: string;
+    routeCode: string | null;
+  } | null>(null);
   const [isMapReady, setIsMapReady] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [shouldFetchStops, setShouldFetchStops] = useState(true); // Only fetch when zoomed in
-
-  // Queries - use mapCenter for fetching stops (updates when map moves)
-  // Only fetch when shouldFetchStops is true (zoomed in enough)
-  const { data: nearbyStops } = useClosestStops(
-    mapCenter.latitude,
-    mapCenter.longitude,
-    { enabled: shouldFetchStops }
-  );
+  const [viewport, setViewport] = useState<MapRegion | null>(null);
+
+  // Queries - stops inside the visible area (updates when map moves)
+  const { stops: viewportStops } = useViewportStops(viewport);
+
+  // Selected line - its routes (directions), the chosen route's path, stops and buses
+  const { data: lineRoutes } = useRoutes(selectedLine?.lineCode ?? null);
+  const selectedRouteCode = selectedLine
+    ? selectedLine.routeCode ?? lineRoutes?.[0]?.code ?? null
+    : null;
+  const selectedRoute = lineRoutes?.find((route) => route.code === selectedRouteCode);
+  const { data: routePoints } = useRouteDetails(selectedRouteCode);
 
   const { data: busLocations } = useBusLocations(selectedRouteCode, {
     enabled: isMapReady,
   });
   const { data: routeStops } = useStops(selectedRouteCode);
+  // Buses that stopped reporting long ago are left off the map
+  const freshness = useVehicleFreshness();
+  const shownBuses = useMemo(
+    () => (busLocations ?? []).filter((bus) => vehicleFreshness(freshness, bus) !== "ghost"),
+    [busLocations, freshness]
+  );
+  const vehicles = useVehicleMotion(shownBuses, routePoints);
 
   // Get transit stations
   const transitNetwork = useMemo(() => getTransitNetwork(isAthens ? "athens" : "thessaloniki"), [isAthens]);
@@ -165,12 +199,67 @@ export default function StopsScreen() {
     const newCenter = { latitude: cityConfig.center.lat, longitude: cityConfig.center.lng };
     setMapCenter(newCenter);
     setSelectedStop(null);
+    setSelectedLine(null);
     // Fly to new city center
     if (mapRef.current) {
       mapRef.current.centerOnLocation(newCenter.latitude, newCenter.longitude);
     }
   }, [city, cityConfig.center.lat, cityConfig.center.lng]);
 
+  // Center on a location handed over by the search screen
+  useEffect(() => {
+    if (!focusLat || !focusLng) return;
+    const latitude = Number(focusLat);
+    const longitude = Number(focusLng);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+    setMapCenter({ latitude, longitude });
+    mapRef.current?.centerOnLocation(latitude, longitude);
+  }, [focusLat, focusLng]);
+
+  // Show a line picked in the search screen
+  useEffect(() => {
+    if (!lineCode) return;
+    setSelectedLine({ lineCode, lineId: lineId ?? "", routeCode: null });
+  }, [lineCode, lineId]);
+
+  // Show a route picked in the arrivals sheet
+  const handleShowRoute = useCallback((route: StopRoute) => {
+    setSelectedLine({
+      lineCode: route.lineCode,
+      lineId: route.lineId,
+      routeCode: route.routeCode,
+    });
+    bottomSheetRef.current?.close();
+  }, []);
+
+  // Cycle through the line's routes (outbound, inbound, variants)
+  const handleSwitchDirection = useCallback(() => {
+    if (!selectedLine || !lineRoutes || lineRoutes.length < 2) return;
+    const index = lineRoutes.findIndex((route) => route.code === selectedRouteCode);
+    const next = lineRoutes[(index + 1) % lineRoutes.length];
+    setSelectedLine({ ...selectedLine, routeCode: next.code });
+  }, [selectedLine, lineRoutes, selectedRouteCode]);
+
+  // Polyline of the selected route
+  const routePath = useMemo(
+    () =>
+      selectedRouteCode && routePoints
+        ? routePoints.map((point) => ({ latitude: point.lat, longitude: point.lng }))
+        : null,
+    [selectedRouteCode, routePoints]
+  );
+
+  // Fit the map to a newly drawn route
+  useEffect(() => {
+    if (!routePath || routePath.length < 2) return;
+    mapRef.current?.fitBounds({
+      north: Math.max(...routePath.map((p) => p.latitude)),
+      south: Math.min(...routePath.map((p) => p.latitude)),
+      east: Math.max(...routePath.map((p) => p.longitude)),
+      west: Math.min(...routePath.map((p) => p.longitude)),
+    });
+  }, [routePath, isMapReady]);
+
   // Handle stop press from nearby cards
   const handleStopPress = useCallback((stop: Stop) => {
     setSelectedStop(stop);
@@ -189,14 +278,14 @@ export default function StopsScreen() {
          return; 
       }
 
-      const stops = routeStops || nearbyStops || [];
-      const stop = stops.find((s) => s.StopCode === markerId);
+      const stops = routeStops || viewportStops;
+      const stop = stops.find((s) => s.code === markerId);
       if (stop) {
         setSelectedStop(stop);
         bottomSheetRef.current?.snapToIndex(0);
       }
     },
-    [routeStops, nearbyStops, transitNetwork]
+    [routeStops, viewportStops, transitNetwork]
   );
 
   // Handle sheet close
@@ -204,36 +293,45 @@ export default function StopsScreen() {
     setSelectedStop(null);
   }, []);
 
-  // Handle map region change - load stops for new area (only when zoomed in)
-  const handleRegionChange = useCallback(
-    (region: { latitude: number; longitude: number; zoom: number; shouldFetchStops: boolean }) => {
-      setMapCenter({ latitude: region.latitude, longitude: region.longitude });
-      setShouldFetchStops(region.shouldFetchStops);
-    },
-    [],
-  );
+  // Handle map region change - load stops for the new visible area
+  const handleRegionChange = useCallback((region: MapRegion) => {
+    setMapCenter({ latitude: region.latitude, longitude: region.longitude });
+    setViewport(region);
+  }, []);
 
-  // Get stops to display (nearby or route stops) - only when zoomed in
-  const stopsToDisplay = shouldFetchStops ? (routeStops || nearbyStops || []) : [];
+  // Get stops to display (route stops, or the visible area's stops)
+  const visibleStops = routeStops || viewportStops;
+  // Keep the selected stop drawn even when thinned out of the visible set
+  const stopsToDisplay =
+    selectedStop && !visibleStops.some((stop) => stop.code === selectedStop.code)
+      ? [...visibleStops, selectedStop]
+      : visibleStops;
 
   // Convert stops to map markers
-  const mapMarkers: MapMarker[] = stopsToDisplay.slice(0, 30).map((stop) => ({
-    id: stop.StopCode,
-    latitude: parseFloat(stop.StopLat),
-    longitude: parseFloat(stop.StopLng),
+  const mapMarkers: MapMarker[] = stopsToDisplay.map((stop) => ({
+    id: stop.code,
+    latitude: stop.lat,
+    longitude: stop.lng,
     type: "stop" as const,
-    label: stop.StopDescrEng || stop.StopDescr,
-    selected: selectedStop?.StopCode === stop.StopCode,
+    label: stop.nameEn || stop.name,
+    selected: selectedStop?.code === stop.code,
   }));
 
-  // Add bus markers
-  const busMarkers: MapMarker[] = (busLocations || []).map((bus) => ({
-    id: bus.VEH_NO,
-    latitude: parseFloat(bus.CS_LAT),
-    longitude: parseFloat(bus.CS_LNG),
-    type: "bus" as const,
-    label: bus.VEH_NO,
-  }));
+  // Add bus markers, moving along the route between polls
+  // Stale and stationary buses are faded
+  const busMarkers: MapMarker[] = vehicles.map((bus) => {
+    const location = shownBuses.find((shown) => shown.vehicleNo === bus.vehicleNo);
+    return {
+      id: bus.vehicleNo,
+      latitude: bus.lat,
+      longitude: bus.lng,
+      type: "bus" as const,
+      label: bus.vehicleNo,
+      heading: bus.heading,
+      path: bus.path,
+      faded: !!location && vehicleFreshness(freshness, location) !== "fresh",
+    };
+  });
 
   const allMarkers = [...stationMarkers, ...mapMarkers, ...busMarkers];
 
@@ -244,12 +342,15 @@ export default function StopsScreen() {
         <Text style={[styles.title, { color: colors.text }]}>
           {t.athensBuses}
         </Text>
-        <TouchableOpacity
-          style={styles.settingsButton}
-          onPress={() => setShowSettings(true)}
-        >
-          <Ionicons name="settings-outline" size={24} color={colors.text} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <SearchButton />
+          <TouchableOpacity
+            style={styles.settingsButton}
+            onPress={() => setShowSettings(true)}
+          >
+            <Ionicons name="settings-outline" size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* OpenStreetMap */}
@@ -262,9 +363,46 @@ export default function StopsScreen() {
         onMarkerPress={handleMarkerPress}
         onMapReady={() => setIsMapReady(true)}
         onRegionChange={handleRegionChange}
+        routePath={routePath}
         darkMode={colorScheme === "dark"}
       />
 
+      {/* Selected line chip */}
+      {selectedLine && (
+        <View
+          style={[
+            styles.routeChip,
+            { backgroundColor: colors.card, borderColor: colors.border },
+          ]}
+        >
+          <View style={[styles.routeBadge, { backgroundColor: colors.accent }]}>
+            <Text style={styles.routeBadgeText}>{selectedLine.lineId}</Text>
+          </View>
+          <Text
+            style={[styles.routeChipText, { color: colors.text }]}
+            numberOfLines={1}
+          >
+            {selectedRoute ? localize(selectedRoute.nameEn, selectedRoute.name) : t.loading}
+          </Text>
+          {lineRoutes && lineRoutes.length > 1 && (
+            <TouchableOpacity
+              style={styles.routeChipButton}
+              onPress={handleSwitchDirection}
+              accessibilityLabel={t.switchDirection}
+            >
+              <Ionicons name="swap-horizontal" size={20} color={colors.accent} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.routeChipButton}
+            onPress={() => setSelectedLine(null)}
+            accessibilityLabel={t.clearRoute}
+          >
+            <Ionicons name="close" size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Current location button */}
       <TouchableOpacity
         style={[
@@ -338,6 +476,7 @@ export default function StopsScreen() {
         ref={bottomSheetRef}
         stop={selectedStop}
         onClose={handleSheetClose}
+        onShowRoute={handleShowRoute}
       />
 
       <SettingsModal
@@ -369,10 +508,53 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: "700",
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
   settingsButton: {
     padding: 8,
     borderRadius: 20,
   },
+  routeChip: {
+    position: "absolute",
+    top: Platform.OS === "ios" ? 116 : 96,
+    left: 16,
+    right: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    paddingLeft: 6,
+    paddingRight: 4,
+    borderRadius: 24,
+    borderWidth: 1,
+    gap: 8,
+    zIndex: 10,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  routeBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+  },
+  routeBadgeText: {
+    color: "#fff",
+    fontWeight: "700",
+    fontSize: 13,
+  },
+  routeChipText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  routeChipButton: {
+    padding: 6,
+  },
   locationButton: {
     position: "absolute",
     right: 16,
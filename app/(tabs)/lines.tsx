@@ -11,11 +11,15 @@ import {
     View
 } from 'react-native';
 
+import { ErrorState } from '@/components/ui/ErrorState';
+import { SearchButton } from '@/components/ui/SearchButton';
 import { LineSkeleton } from '@/components/ui/SkeletonLoader';
 import { Colors } from '@/constants/theme';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useLines, useRoutes, useSchedule } from '@/lib/queries';
+import { getActiveDaySchedule } from '@/lib/schedule';
+import { matchesQuery } from '@/lib/text';
 import type { Line, Route } from '@/lib/types';
 
 export default function LinesScreen() {
@@ -28,9 +32,10 @@ export default function LinesScreen() {
   const [expandedLine, setExpandedLine] = useState<string | null>(null);
   const [selectedLineCode, setSelectedLineCode] = useState<string | null>(null);
 
-  const { data: lines, isLoading } = useLines();
+  const { data: lines, isLoading, error: linesError, refetch: refetchLines } = useLines();
   const { data: routes } = useRoutes(expandedLine);
-  const { data: schedule, isLoading: scheduleLoading } = useSchedule(selectedLineCode);
+  const { data: lineSchedule, isLoading: scheduleLoading, error: scheduleError } = useSchedule(selectedLineCode);
+  const schedule = getActiveDaySchedule(lineSchedule);
 
   // Get current time in HH:MM format for comparison
   const getCurrentTimeStr = (): string => {
@@ -40,27 +45,22 @@ export default function LinesScreen() {
 
   const currentTime = getCurrentTimeStr();
 
-  // Filter lines based on search query
+  // Filter lines based on search query (accent, Greeklish and typo tolerant)
   const filteredLines = useMemo(() => {
     if (!lines) return [];
     if (!searchQuery.trim()) return lines;
 
-    const query = searchQuery.toLowerCase();
-    return lines.filter(line => 
-      line.LineID.toLowerCase().includes(query) ||
-      line.LineDescr.toLowerCase().includes(query) ||
-      line.LineDescrEng.toLowerCase().includes(query)
-    );
+    return lines.filter(line => matchesQuery(searchQuery, line.lineId, line.name, line.nameEn));
   }, [lines, searchQuery]);
 
   // Group lines by LineID to avoid duplicates in display
   const groupedLines = useMemo(() => {
     const groups: { [key: string]: Line[] } = {};
     filteredLines.forEach(line => {
-      if (!groups[line.LineID]) {
-        groups[line.LineID] = [];
+      if (!groups[line.lineId]) {
+        groups[line.lineId] = [];
       }
-      groups[line.LineID].push(line);
+      groups[line.lineId].push(line);
     });
     return Object.entries(groups).map(([lineId, lineGroup]) => ({
       lineId,
@@ -70,12 +70,12 @@ export default function LinesScreen() {
   }, [filteredLines]);
 
   const handleLinePress = (line: Line) => {
-    if (expandedLine === line.LineCode) {
+    if (expandedLine === line.code) {
       setExpandedLine(null);
       setSelectedLineCode(null);
     } else {
-      setExpandedLine(line.LineCode);
-      setSelectedLineCode(line.LineCode);
+      setExpandedLine(line.code);
+      setSelectedLineCode(line.code);
     }
   };
 
@@ -88,7 +88,7 @@ export default function LinesScreen() {
   };
 
   const renderLine = ({ item }: { item: { lineId: string; lines: Line[]; primaryLine: Line } }) => {
-    const isExpanded = item.lines.some(l => l.LineCode === expandedLine);
+    const isExpanded = item.lines.some(l => l.code === expandedLine);
     const line = item.primaryLine;
 
     return (
@@ -99,11 +99,11 @@ export default function LinesScreen() {
           activeOpacity={0.7}
         >
           <View style={[styles.lineBadge, { backgroundColor: colors.accent }]}>
-            <Text style={styles.lineBadgeText}>{line.LineID}</Text>
+            <Text style={styles.lineBadgeText}>{line.lineId}</Text>
           </View>
           <View style={styles.lineInfo}>
             <Text style={[styles.lineName, { color: colors.text }]} numberOfLines={2}>
-              {localize(line.LineDescrEng, line.LineDescr)}
+              {localize(line.nameEn, line.name)}
             </Text>
           </View>
           <Ionicons 
@@ -125,9 +125,9 @@ export default function LinesScreen() {
                 router.push({
                   pathname: '/line/[lineCode]',
                   params: { 
-                    lineCode: line.LineCode, 
-                    lineId: line.LineID, 
-                    lineName: line.LineDescrEng || line.LineDescr 
+                    lineCode: line.code, 
+                    lineId: line.lineId, 
+                    lineName: line.nameEn || line.name 
                   }
                 });
               }}
@@ -146,18 +146,18 @@ export default function LinesScreen() {
                 </Text>
                 {routes.map((route) => (
                   <TouchableOpacity
-                    key={route.RouteCode}
+                    key={route.code}
                     style={[styles.routeItem, { backgroundColor: colors.backgroundSecondary, borderColor: colors.border }]}
                     onPress={() => handleRoutePress(route)}
                     activeOpacity={0.7}
                   >
                     <Ionicons name="git-branch-outline" size={16} color={colors.accent} />
                     <Text style={[styles.routeName, { color: colors.text }]} numberOfLines={1}>
-                      {localize(route.RouteDescrEng, route.RouteDescr)}
+                      {localize(route.nameEn, route.name)}
                     </Text>
-                    {route.RouteDistance && (
+                    {route.distanceMeters !== null && (
                       <Text style={[styles.routeDistance, { color: colors.textSecondary }]}>
-                        {(parseFloat(route.RouteDistance) / 1000).toFixed(1)} km
+                        {(route.distanceMeters / 1000).toFixed(1)} km
                       </Text>
                     )}
                   </TouchableOpacity>
@@ -171,6 +171,8 @@ export default function LinesScreen() {
                 <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
                   Loading schedule...
                 </Text>
+              ) : scheduleError ? (
+                <ErrorState error={scheduleError} compact />
               ) : schedule && (schedule.departure.length > 0 || schedule.return.length > 0) ? (
                 <>
                   {/* Departure schedule */}
@@ -262,12 +264,7 @@ export default function LinesScreen() {
       {/* Header */}
       <View style={[styles.header, { backgroundColor: colors.background }]}>
         <Text style={[styles.title, { color: colors.text }]}>{t.busLines}</Text>
-        <TouchableOpacity 
-          style={[styles.searchButton, { backgroundColor: colors.card }]}
-          onPress={() => {/* Focus search input */}}
-        >
-          <Ionicons name="search" size={20} color={colors.textSecondary} />
-        </TouchableOpacity>
+        <SearchButton />
       </View>
 
       {/* Search input */}
@@ -294,6 +291,8 @@ export default function LinesScreen() {
             <LineSkeleton key={i} colorScheme={colorScheme} />
           ))}
         </View>
+      ) : linesError ? (
+        <ErrorState error={linesError} onRetry={refetchLines} />
       ) : (
         <FlatList
           data={groupedLines}
@@ -323,10 +322,6 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: '700',
   },
-  searchButton: {
-    padding: 8,
-    borderRadius: 20,
-  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
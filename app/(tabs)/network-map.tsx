@@ -28,6 +28,7 @@ import {
 } from "react-native-gesture-handler";
 import { WebView } from "react-native-webview";
 
+import { SearchButton } from "@/components/ui/SearchButton";
 import { Colors } from "@/constants/theme";
 import { useCity } from "@/contexts/CityContext";
 import { useLanguage } from "@/contexts/LanguageContext";
@@ -108,6 +109,7 @@ export default function NetworkMapScreen() {
             </Text>
           </TouchableOpacity>
         </View>
+        <SearchButton style={styles.searchButton} />
       </View>
 
       {mapMode === "interactive" ? (
@@ -713,6 +715,9 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  searchButton: {
+    marginLeft: 8,
+  },
   modeToggle: {
     flexDirection: "row",
     borderRadius: 20,
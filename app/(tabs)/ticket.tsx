@@ -6,11 +6,12 @@
 
 import { useFocusEffect } from "expo-router";
 import React, { useCallback, useEffect, useState } from "react";
-import { AppState, Platform } from "react-native";
+import { AppState, Platform, StyleSheet, View } from "react-native";
 
 import { NfcDisabled, NfcLoading, NfcNotSupported } from "@/components/ticket/NfcStatus";
 import { ScanPrompt } from "@/components/ticket/ScanPrompt";
 import { TicketDisplay } from "@/components/ticket/TicketDisplay";
+import { SearchButton } from "@/components/ui/SearchButton";
 import { Colors } from "@/constants/theme";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useTheme } from "@/contexts/ThemeContext";
@@ -41,7 +42,7 @@ if (Platform.OS !== "web") {
   }
 }
 
-export default function TicketScreen() {
+function TicketContent() {
   const { theme: colorScheme } = useTheme();
   const { t } = useLanguage();
   const colors = Colors[colorScheme];
@@ -623,3 +624,24 @@ export default function TicketScreen() {
     />
   );
 }
+
+export default function TicketScreen() {
+  return (
+    <View style={styles.container}>
+      <TicketContent />
+      {/* The ticket states are full screen, so search floats above them */}
+      <SearchButton style={styles.searchButton} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchButton: {
+    position: "absolute",
+    top: Platform.OS === "ios" ? 60 : 40,
+    right: 16,
+  },
+});
@@ -6,25 +6,34 @@ import {
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { useEffect } from "react";
 import { StyleSheet } from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import "react-native-reanimated";
 
-import { CityProvider } from "@/contexts/CityContext";
+import { CityProvider, useCity } from "@/contexts/CityContext";
 import { FavoritesProvider } from "@/contexts/FavoritesContext";
 import { LanguageProvider } from "@/contexts/LanguageContext";
 import { ThemeProvider, useTheme } from "@/contexts/ThemeContext";
+import { isTransitApiError } from "@/lib/errors";
+import { restoreGtfsFeeds } from "@/lib/gtfs";
+import { ensureStopCatalog } from "@/lib/stop-catalog";
 
 // Create a client
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      retry: 2,
+      // Transit errors are already retried with backoff in lib/http.ts
+      retry: (failureCount, error) =>
+        !isTransitApiError(error) && failureCount < 2,
       staleTime: 1000 * 60 * 5, // 5 minutes default
     },
   },
 });
 
+// Put saved offline GTFS feeds back in front of the live providers
+restoreGtfsFeeds().catch((e) => console.warn("Failed to restore GTFS feeds:", e));
+
 export const unstable_settings = {
   anchor: "(tabs)",
 };
@@ -57,6 +66,12 @@ const OASALightTheme = {
 
 function RootLayoutNav() {
   const { theme } = useTheme();
+  const { city } = useCity();
+
+  // Build or refresh the city's stop catalog in the background
+  useEffect(() => {
+    ensureStopCatalog(city);
+  }, [city]);
 
   return (
     <NavigationThemeProvider
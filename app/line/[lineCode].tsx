@@ -1,7 +1,7 @@
 import { Ionicons } from "@expo/vector-icons";
 import * as Location from "expo-location";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   FlatList,
@@ -12,35 +12,29 @@ import {
   View,
 } from "react-native";
 
+import { ReportAge } from "@/components/ui/ReportAge";
 import { Colors } from "@/constants/theme";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useTheme } from "@/contexts/ThemeContext";
-import { useRoutes, useStops } from "@/lib/queries";
+import {
+  useBusLocations,
+  useRouteDetails,
+  useRoutes,
+  useStops,
+  useSupports,
+  useVehicleFreshness,
+} from "@/lib/queries";
+import { distanceMeters } from "@/lib/geo";
 import type { Stop } from "@/lib/types";
+import { vehicleFreshness, type Freshness } from "@/lib/vehicle-freshness";
+import {
+  buildRouteShape,
+  projectOntoStops,
+  type StopProgress,
+} from "@/lib/vehicle-motion";
 
-function getDistanceFromLatLonInKm(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-) {
-  let R = 6371; // Radius of the earth in km
-  let dLat = deg2rad(lat2 - lat1);
-  let dLon = deg2rad(lon2 - lon1);
-  let a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) *
-      Math.cos(deg2rad(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  let c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  let d = R * c; // Distance in km
-  return d;
-}
-
-function deg2rad(deg: number) {
-  return deg * (Math.PI / 180);
-}
+// Height of a vehicle chip, to center it on its position
+const VEHICLE_CHIP_HEIGHT = 30;
 
 export default function LineDetailsScreen() {
   const { lineCode, lineId, lineName } = useLocalSearchParams<{
@@ -64,11 +58,41 @@ export default function LineDetailsScreen() {
   const { data: routes, isLoading: routesLoading } = useRoutes(lineCode);
 
   // Get selected route code
-  const selectedRouteCode = routes?.[selectedRouteIndex]?.RouteCode ?? null;
+  const selectedRouteCode = routes?.[selectedRouteIndex]?.code ?? null;
 
   // Fetch stops for selected route
+  const supportsRouteStops = useSupports("routeStops");
   const { data: stops, isLoading: stopsLoading } = useStops(selectedRouteCode);
 
+  // Live buses placed between the stops (refreshed by the location polling)
+  const supportsVehicles = useSupports("vehicles");
+  const { data: routePoints } = useRouteDetails(selectedRouteCode);
+  const { data: busLocations } = useBusLocations(selectedRouteCode, {
+    enabled: supportsVehicles,
+  });
+  // Ghost buses are left out, stale and stationary ones are faded
+  const freshnessState = useVehicleFreshness();
+  const { vehiclesByStop, freshness, liveCount } = useMemo(() => {
+    const shape = routePoints ? buildRouteShape(routePoints) : null;
+    const byVehicle = new Map<string, Freshness>();
+    (busLocations ?? []).forEach((bus) => {
+      byVehicle.set(bus.vehicleNo, vehicleFreshness(freshnessState, bus));
+    });
+    const shown = (busLocations ?? []).filter(
+      (bus) => byVehicle.get(bus.vehicleNo) !== "ghost"
+    );
+
+    const byStop = new Map<number, StopProgress[]>();
+    projectOntoStops(shown, stops ?? [], shape).forEach((vehicle) => {
+      byStop.set(vehicle.stopIndex, [...(byStop.get(vehicle.stopIndex) ?? []), vehicle]);
+    });
+    return {
+      vehiclesByStop: byStop,
+      freshness: byVehicle,
+      liveCount: stops?.length ? shown.length : 0,
+    };
+  }, [busLocations, stops, routePoints, freshnessState]);
+
   useEffect(() => {
     (async () => {
       let { status } = await Location.requestForegroundPermissionsAsync();
@@ -79,33 +103,62 @@ export default function LineDetailsScreen() {
     })();
   }, []);
 
+  const renderVehicle = (vehicle: StopProgress) => (
+    <View
+      key={vehicle.vehicleNo}
+      style={[
+        styles.vehicleChip,
+        { top: `${vehicle.fraction * 100}%`, backgroundColor: colors.accent },
+        freshness.get(vehicle.vehicleNo) !== "fresh" && styles.vehicleChipFaded,
+      ]}
+    >
+      <View style={styles.vehicleChipRow}>
+        <Ionicons name="bus" size={10} color="#fff" />
+        <Text style={styles.vehicleNo} numberOfLines={1}>
+          {vehicle.vehicleNo}
+        </Text>
+      </View>
+      <ReportAge reportedAt={vehicle.reportedAt} style={styles.vehicleAge} />
+    </View>
+  );
+
   const renderStopItem = ({ item, index }: { item: Stop; index: number }) => {
-    let distance = null;
-    if (userLocation && item.StopLat && item.StopLng) {
-      distance = getDistanceFromLatLonInKm(
-        userLocation.latitude,
-        userLocation.longitude,
-        parseFloat(item.StopLat),
-        parseFloat(item.StopLng)
-      );
-    }
+    const distance = userLocation
+      ? distanceMeters(
+          userLocation.latitude,
+          userLocation.longitude,
+          item.lat,
+          item.lng
+        ) / 1000
+      : null;
 
     return (
       <TouchableOpacity
-        style={[styles.stopCard, { borderBottomColor: colors.border }]}
+        style={[
+          styles.stopCard,
+          { borderBottomColor: colors.border },
+          supportsVehicles && styles.stopCardWithVehicles,
+        ]}
         onPress={() => {
           router.push({
             pathname: "/stop/[stopCode]",
             params: {
-              stopCode: item.StopCode,
-              stopName: item.StopDescr,
-              stopLat: item.StopLat,
-              stopLng: item.StopLng,
+              stopCode: item.code,
+              stopName: item.name,
+              stopLat: String(item.lat),
+              stopLng: String(item.lng),
             },
           });
         }}
         activeOpacity={0.7}
       >
+        {/* Buses past this stop, toward the next one */}
+        {supportsVehicles && (
+          <View style={styles.vehicleLane} pointerEvents="none">
+            {vehiclesByStop.get(index)?.map(renderVehicle)}
+          </View>
+        )}
+
         <View style={styles.stopLeft}>
           <View style={styles.iconContainer}>
             <Ionicons name="bus" size={20} color={colors.accent} />
@@ -125,13 +178,13 @@ export default function LineDetailsScreen() {
               style={[styles.stopName, { color: colors.text }]}
               numberOfLines={1}
             >
-              {localize(item.StopDescrEng, item.StopDescr)}
+              {localize(item.nameEn, item.name)}
             </Text>
-            {item.StopStreet ? (
+            {item.street ? (
               <Text
                 style={[styles.stopSubtitle, { color: colors.textSecondary }]}
               >
-                {item.StopStreet}
+                {item.street}
               </Text>
             ) : null}
             {distance !== null && (
@@ -156,7 +209,7 @@ export default function LineDetailsScreen() {
   const getRouteDescription = () => {
     if (!routes || routes.length === 0) return "";
     const route = routes[selectedRouteIndex];
-    return localize(route.RouteDescrEng, route.RouteDescr);
+    return localize(route.nameEn, route.name);
   };
 
   return (
@@ -216,9 +269,16 @@ export default function LineDetailsScreen() {
             disabled={routes.length <= 1}
           >
             <View style={styles.routeInfo}>
-              <Text style={[styles.routeLabel, { color: colors.accent }]}>
-                DIRECTION
-              </Text>
+              <View style={styles.routeLabelRow}>
+                <Text style={[styles.routeLabel, { color: colors.accent }]}>
+                  DIRECTION
+                </Text>
+                {liveCount > 0 && (
+                  <Text style={[styles.liveCount, { color: colors.textSecondary }]}>
+                    {t.liveVehiclesFormat.replace("{count}", String(liveCount))}
+                  </Text>
+                )}
+              </View>
               <Text
                 style={[styles.routeText, { color: colors.text }]}
                 numberOfLines={1}
@@ -234,7 +294,7 @@ export default function LineDetailsScreen() {
       )}
 
       {/* Content */}
-      {routesLoading || stopsLoading ? (
+      {routesLoading || (supportsRouteStops && stopsLoading) ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.accent} />
         </View>
@@ -242,13 +302,14 @@ export default function LineDetailsScreen() {
         <FlatList
           data={stops}
           renderItem={renderStopItem}
-          keyExtractor={(item) => item.StopCode}
+          keyExtractor={(item) => item.code}
+          extraData={vehiclesByStop}
           contentContainerStyle={styles.listContent}
           style={styles.list}
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
               <Text style={{ color: colors.textSecondary }}>
-                No stops found.
+                {supportsRouteStops ? t.noStopsFound : t.routeStopsUnavailable}
               </Text>
             </View>
           }
@@ -305,10 +366,18 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  routeLabelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 4,
+  },
   routeLabel: {
     fontSize: 11,
     fontWeight: "700",
-    marginBottom: 4,
+  },
+  liveCount: {
+    fontSize: 11,
   },
   routeText: {
     fontSize: 15,
@@ -332,6 +401,46 @@ const styles = StyleSheet.create({
     padding: 16,
     borderBottomWidth: StyleSheet.hairlineWidth,
   },
+  stopCardWithVehicles: {
+    paddingLeft: 72,
+  },
+  vehicleLane: {
+    position: "absolute",
+    left: 8,
+    top: 0,
+    bottom: 0,
+    width: 56,
+    zIndex: 1,
+  },
+  vehicleChip: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: VEHICLE_CHIP_HEIGHT,
+    // Centered on the stop icon at 0, on the next stop's at 1
+    marginTop: 26 - VEHICLE_CHIP_HEIGHT / 2,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    justifyContent: "center",
+  },
+  vehicleChipFaded: {
+    opacity: 0.45,
+  },
+  vehicleChipRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  vehicleNo: {
+    color: "#fff",
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  vehicleAge: {
+    color: "#fff",
+    fontSize: 9,
+    opacity: 0.85,
+  },
   stopLeft: {
     flexDirection: "row",
     alignItems: "flex-start",
@@ -0,0 +1,286 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  FlatList,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { Colors } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useTheme } from "@/contexts/ThemeContext";
+import { useSearch } from "@/lib/queries";
+import type { Line, SearchResult, Stop } from "@/lib/types";
+
+const RESULT_ICONS: Record<SearchResult["type"], keyof typeof Ionicons.glyphMap> = {
+  line: "bus",
+  stop: "location",
+  street: "map",
+};
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const { theme: colorScheme } = useTheme();
+  const { t, localize } = useLanguage();
+  const colors = Colors[colorScheme];
+
+  const [query, setQuery] = useState("");
+  const { results, isIndexing } = useSearch(query);
+
+  const handleResultPress = (result: SearchResult) => {
+    if (result.type === "line") {
+      const line = result.data as Line;
+      router.push({
+        pathname: "/line/[lineCode]",
+        params: {
+          lineCode: line.code,
+          lineId: line.lineId,
+          lineName: line.nameEn || line.name,
+        },
+      });
+    } else if (result.type === "stop") {
+      const stop = result.data as Stop;
+      router.push({
+        pathname: "/stop/[stopCode]",
+        params: {
+          stopCode: stop.code,
+          stopName: stop.name,
+          stopNameEng: stop.nameEn,
+          stopLat: String(stop.lat),
+          stopLng: String(stop.lng),
+        },
+      });
+    } else {
+      // Streets open the map centered on the street
+      const stop = result.data as Stop;
+      router.navigate({
+        pathname: "/",
+        params: { focusLat: String(stop.lat), focusLng: String(stop.lng) },
+      });
+    }
+  };
+
+  // Draw a line's route and buses on the main map
+  const handleShowOnMap = (line: Line) => {
+    router.navigate({
+      pathname: "/",
+      params: { lineCode: line.code, lineId: line.lineId },
+    });
+  };
+
+  const getTitle = (result: SearchResult): string => {
+    if (result.type === "line") return (result.data as Line).lineId;
+    const stop = result.data as Stop;
+    return result.type === "stop"
+      ? localize(stop.nameEn, stop.name)
+      : localize(stop.streetEn ?? "", stop.street ?? result.title);
+  };
+
+  const getSubtitle = (result: SearchResult): string => {
+    if (result.type === "line") {
+      const line = result.data as Line;
+      return localize(line.nameEn, line.name);
+    }
+    const stop = result.data as Stop;
+    if (result.type === "stop") {
+      const street = localize(stop.streetEn ?? "", stop.street ?? "");
+      return street ? `${stop.code} · ${street}` : stop.code;
+    }
+    return t.street;
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => (
+    <TouchableOpacity
+      style={[
+        styles.resultItem,
+        { backgroundColor: colors.card, borderColor: colors.border },
+      ]}
+      onPress={() => handleResultPress(item)}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.resultIcon, { backgroundColor: colors.accent }]}>
+        <Ionicons name={RESULT_ICONS[item.type]} size={18} color="#fff" />
+      </View>
+      <View style={styles.resultInfo}>
+        <Text
+          style={[styles.resultTitle, { color: colors.text }]}
+          numberOfLines={1}
+        >
+          {getTitle(item)}
+        </Text>
+        <Text
+          style={[styles.resultSubtitle, { color: colors.textSecondary }]}
+          numberOfLines={1}
+        >
+          {getSubtitle(item)}
+        </Text>
+      </View>
+      {item.type === "line" && (
+        <TouchableOpacity
+          style={styles.mapButton}
+          onPress={() => handleShowOnMap(item.data as Line)}
+          accessibilityLabel={t.showOnMap}
+        >
+          <Ionicons name="map-outline" size={20} color={colors.accent} />
+        </TouchableOpacity>
+      )}
+      <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View
+          style={[
+            styles.searchContainer,
+            { backgroundColor: colors.card, borderColor: colors.border },
+          ]}
+        >
+          <Ionicons name="search" size={18} color={colors.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            placeholder={t.searchPlaceholder}
+            placeholderTextColor={colors.textSecondary}
+            value={query}
+            onChangeText={setQuery}
+            autoFocus
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery("")}>
+              <Ionicons
+                name="close-circle"
+                size={18}
+                color={colors.textSecondary}
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {isIndexing && query.trim().length > 0 && (
+        <Text style={[styles.notice, { color: colors.textSecondary }]}>
+          {t.searchIndexing}
+        </Text>
+      )}
+
+      {/* Results */}
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.id}
+        renderItem={renderResult}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          query.trim().length > 0 ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons
+                name="search-outline"
+                size={48}
+                color={colors.textSecondary}
+              />
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                {t.noSearchResults}
+              </Text>
+            </View>
+          ) : null
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingTop: Platform.OS === "ios" ? 60 : 40,
+    paddingBottom: 12,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  notice: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+  },
+  resultItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+    gap: 12,
+  },
+  resultIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  resultSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  mapButton: {
+    padding: 6,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingTop: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+  },
+});
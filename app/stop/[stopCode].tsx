@@ -15,23 +15,36 @@ import {
   View,
 } from "react-native";
 
+import { ErrorState } from "@/components/ui/ErrorState";
 import { Colors } from "@/constants/theme";
 import { useFavorites } from "@/contexts/FavoritesContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { StopRoute } from "@/lib/api";
-import { useRoutesForStop, useStopArrivals } from "@/lib/queries";
-import type { StopArrival } from "@/lib/types";
+import {
+  useCatalogStop,
+  useRoutesForStop,
+  useStopArrivals,
+  useVehicleFreshness,
+} from "@/lib/queries";
+import type { StopArrival, StopRoute } from "@/lib/types";
+import { arrivalReliability } from "@/lib/vehicle-freshness";
 
 export default function StopDetailsScreen() {
-  const { stopCode, stopName, stopNameEng, stopLat, stopLng } =
-    useLocalSearchParams<{
-      stopCode: string;
-      stopName: string;
-      stopNameEng?: string;
-      stopLat?: string;
-      stopLng?: string;
-    }>();
+  const params = useLocalSearchParams<{
+    stopCode: string;
+    stopName: string;
+    stopNameEng?: string;
+    stopLat?: string;
+    stopLng?: string;
+  }>();
+  const { stopCode } = params;
+
+  // Links that only carry the stop code get the details from the stop catalog
+  const catalogStop = useCatalogStop(stopCode);
+  const stopName = params.stopName || catalogStop?.name;
+  const stopNameEng = params.stopNameEng || catalogStop?.nameEn;
+  const stopLat = params.stopLat || (catalogStop ? String(catalogStop.lat) : undefined);
+  const stopLng = params.stopLng || (catalogStop ? String(catalogStop.lng) : undefined);
   const router = useRouter();
   const { theme: colorScheme } = useTheme();
   const { localize, t } = useLanguage();
@@ -113,23 +126,31 @@ export default function StopDetailsScreen() {
   }, [stopLat, stopLng, stopName, stopCode]);
 
   // Fetch data
-  const { data: arrivals } = useStopArrivals(stopCode);
-  const { data: routes, isLoading: routesLoading } = useRoutesForStop(stopCode);
+  const {
+    data: arrivals,
+    error: arrivalsError,
+    refetch: refetchArrivals,
+  } = useStopArrivals(stopCode);
+  const {
+    data: routes,
+    isLoading: routesLoading,
+    error: routesError,
+    refetch: refetchRoutes,
+  } = useRoutesForStop(stopCode);
 
   // Group arrivals by line
+  const freshness = useVehicleFreshness();
   const arrivalsByLine = useMemo(() => {
     const map = new Map<string, StopArrival[]>();
     if (arrivals) {
       arrivals.forEach((arr) => {
-        const existing = map.get(arr.route_code) || [];
+        const existing = map.get(arr.routeCode) || [];
         existing.push(arr);
-        map.set(arr.route_code, existing);
+        map.set(arr.routeCode, existing);
       });
       // Sort each group by time
       map.forEach((arrs) => {
-        arrs.sort(
-          (a, b) => (parseInt(a.btime2) || 999) - (parseInt(b.btime2) || 999)
-        );
+        arrs.sort((a, b) => a.minutes - b.minutes);
       });
     }
     return map;
@@ -139,23 +160,25 @@ export default function StopDetailsScreen() {
   const uniqueLines = useMemo(() => {
     if (!routes) return [];
 
-    // Filter duplicates based on LineCode
+    // Filter duplicates based on lineCode
     const seen = new Set();
     return routes.filter((route) => {
-      if (seen.has(route.LineCode)) return false;
-      seen.add(route.LineCode);
+      if (seen.has(route.lineCode)) return false;
+      seen.add(route.lineCode);
       return true;
     });
   }, [routes]);
 
   const renderLineItem = ({ item }: { item: StopRoute }) => {
-    const lineArrivals = arrivalsByLine.get(item.RouteCode) || [];
+    const lineArrivals = arrivalsByLine.get(item.routeCode) || [];
     const nextArrival = lineArrivals[0];
     const secondArrival = lineArrivals[1];
-    const nextMinutes = nextArrival ? parseInt(nextArrival.btime2) || 0 : null;
-    const secondMinutes = secondArrival
-      ? parseInt(secondArrival.btime2) || 0
-      : null;
+    const nextMinutes = nextArrival ? nextArrival.minutes : null;
+    const secondMinutes = secondArrival ? secondArrival.minutes : null;
+    // Buses that will likely never arrive are faded, not hidden
+    const nextReliability = nextArrival
+      ? arrivalReliability(freshness, nextArrival)
+      : "reliable";
 
     return (
       <TouchableOpacity
@@ -165,9 +188,9 @@ export default function StopDetailsScreen() {
           router.push({
             pathname: "/line/[lineCode]",
             params: {
-              lineCode: item.LineCode,
-              lineId: item.LineID,
-              lineName: item.RouteDescr,
+              lineCode: item.lineCode,
+              lineId: item.lineId,
+              lineName: item.routeName,
             },
           });
         }}
@@ -175,14 +198,14 @@ export default function StopDetailsScreen() {
       >
         <View style={styles.lineLeft}>
           <View style={[styles.lineBadge, { backgroundColor: colors.accent }]}>
-            <Text style={styles.lineBadgeText}>{item.LineID}</Text>
+            <Text style={styles.lineBadgeText}>{item.lineId}</Text>
           </View>
           <View style={styles.lineInfo}>
             <Text
               style={[styles.lineName, { color: colors.text }]}
               numberOfLines={1}
             >
-              {localize(item.RouteDescrEng, item.RouteDescr)}
+              {localize(item.routeNameEn, item.routeName)}
             </Text>
             {lineArrivals.length > 0 && (
               <Text
@@ -194,7 +217,16 @@ export default function StopDetailsScreen() {
           </View>
         </View>
 
-        <View style={styles.arrivalContainer}>
+        <View
+          style={[
+            styles.arrivalContainer,
+            nextReliability === "doubtful" && styles.arrivalDoubtful,
+            nextReliability === "unreliable" && styles.arrivalUnreliable,
+          ]}
+          accessibilityHint={
+            nextReliability === "unreliable" ? t.arrivalUnreliable : undefined
+          }
+        >
           {nextMinutes !== null ? (
             nextMinutes < 2 ? (
               <MotiView
@@ -209,7 +241,11 @@ export default function StopDetailsScreen() {
                 <Text style={[styles.arrivalTime, { color: colors.accent }]}>
                   {nextMinutes}&apos;
                   <Ionicons
-                    name="time-outline"
+                    name={
+                      nextReliability === "unreliable"
+                        ? "alert-circle-outline"
+                        : "time-outline"
+                    }
                     size={14}
                     color={colors.accent}
                     style={{ marginLeft: 2 }}
@@ -308,6 +344,8 @@ export default function StopDetailsScreen() {
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.accent} />
         </View>
+      ) : routesError ? (
+        <ErrorState error={routesError} onRetry={refetchRoutes} />
       ) : uniqueLines.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
@@ -318,9 +356,18 @@ export default function StopDetailsScreen() {
         <FlatList
           data={uniqueLines}
           renderItem={renderLineItem}
-          keyExtractor={(item) => item.RouteCode}
+          keyExtractor={(item) => item.routeCode}
           contentContainerStyle={styles.listContent}
           style={styles.list}
+          ListHeaderComponent={
+            arrivalsError ? (
+              <ErrorState
+                error={arrivalsError}
+                onRetry={refetchArrivals}
+                compact
+              />
+            ) : null
+          }
         />
       )}
     </View>
@@ -459,6 +506,12 @@ const styles = StyleSheet.create({
     alignItems: "flex-end",
     minWidth: 80,
   },
+  arrivalDoubtful: {
+    opacity: 0.6,
+  },
+  arrivalUnreliable: {
+    opacity: 0.35,
+  },
   arrivalTimes: {
     alignItems: "flex-end",
   },
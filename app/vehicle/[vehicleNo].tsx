@@ -0,0 +1,410 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import {
+  OpenStreetMap,
+  type MapMarker,
+  type OpenStreetMapRef,
+} from "@/components/map/OpenStreetMap";
+import { ReportAge } from "@/components/ui/ReportAge";
+import { Colors } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useTheme } from "@/contexts/ThemeContext";
+import { useFollowedVehicle } from "@/lib/queries";
+import type { TrackingStatus, UpcomingStop } from "@/lib/vehicle-tracking";
+
+const STATUS_ICONS: Record<TrackingStatus, keyof typeof Ionicons.glyphMap> = {
+  searching: "search",
+  live: "radio",
+  notReporting: "warning",
+  lost: "cloud-offline",
+};
+
+const STATUS_COLORS: Record<TrackingStatus, string> = {
+  searching: "#888",
+  live: "#22c55e",
+  notReporting: "#f59e0b",
+  lost: "#ef4444",
+};
+
+export default function VehicleTrackingScreen() {
+  const { vehicleNo, routeCode, lineId, stopCode, stopLat, stopLng } =
+    useLocalSearchParams<{
+      vehicleNo: string;
+      routeCode: string;
+      lineId: string;
+      stopCode: string;
+      stopLat: string;
+      stopLng: string;
+    }>();
+  const router = useRouter();
+  const { theme: colorScheme } = useTheme();
+  const { localize, t } = useLanguage();
+  const colors = Colors[colorScheme];
+
+  const mapRef = useRef<OpenStreetMapRef>(null);
+  const [isMapReady, setIsMapReady] = useState(false);
+  const [following, setFollowing] = useState(true);
+
+  const { status, location, motion, arrival, upcoming, routePoints } =
+    useFollowedVehicle(vehicleNo, routeCode ?? null, stopCode ?? null);
+
+  const statusText = {
+    searching: t.vehicleSearching,
+    live: t.vehicleLive,
+    notReporting: t.vehicleNotReporting,
+    lost: t.vehicleLost,
+  }[status];
+
+  // Keep the bus in view on every new position
+  useEffect(() => {
+    if (following && isMapReady && location) {
+      mapRef.current?.centerOnLocation(location.lat, location.lng);
+    }
+  }, [following, isMapReady, location]);
+
+  const routePath = useMemo(
+    () =>
+      routePoints
+        ? routePoints.map((point) => ({ latitude: point.lat, longitude: point.lng }))
+        : null,
+    [routePoints]
+  );
+
+  const center = useMemo(
+    () => ({
+      latitude: location?.lat ?? parseFloat(stopLat ?? "0"),
+      longitude: location?.lng ?? parseFloat(stopLng ?? "0"),
+    }),
+    // Only the first position matters; later ones move the map through the ref
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  const markers: MapMarker[] = [
+    ...upcoming.map((entry) => ({
+      id: entry.stop.code,
+      latitude: entry.stop.lat,
+      longitude: entry.stop.lng,
+      type: "stop" as const,
+      label: localize(entry.stop.nameEn, entry.stop.name),
+      selected: entry.isTarget,
+    })),
+    ...(location
+      ? [
+          {
+            id: location.vehicleNo,
+            latitude: motion?.lat ?? location.lat,
+            longitude: motion?.lng ?? location.lng,
+            type: "bus" as const,
+            label: location.vehicleNo,
+            heading: motion?.heading,
+            path: motion?.path,
+            faded: status !== "live",
+          },
+        ]
+      : []),
+  ];
+
+  // Without the stop list, the awaited stop is still shown from its arrival
+  const stopRows: UpcomingStop[] | null = upcoming.length > 0 ? upcoming : null;
+
+  const renderStop = ({ item, index }: { item: UpcomingStop; index: number }) => (
+    <View
+      style={[
+        styles.stopRow,
+        { borderBottomColor: colors.border },
+        item.isTarget && { backgroundColor: colors.accent + "15" },
+      ]}
+    >
+      <View style={styles.timeline}>
+        <View
+          style={[
+            styles.timelineDot,
+            {
+              backgroundColor: item.isTarget ? colors.accent : colors.card,
+              borderColor: item.isTarget ? colors.accent : colors.textSecondary,
+            },
+          ]}
+        />
+        {index < (stopRows?.length ?? 0) - 1 && (
+          <View style={[styles.timelineLine, { backgroundColor: colors.border }]} />
+        )}
+      </View>
+      <View style={styles.stopInfo}>
+        <Text
+          style={[
+            styles.stopName,
+            { color: colors.text },
+            item.isTarget && { color: colors.accent },
+          ]}
+          numberOfLines={1}
+        >
+          {localize(item.stop.nameEn, item.stop.name)}
+        </Text>
+        {item.isTarget && (
+          <Text style={[styles.yourStop, { color: colors.accent }]}>
+            {t.yourStop}
+          </Text>
+        )}
+      </View>
+      <Text
+        style={[
+          styles.eta,
+          { color: item.isTarget ? colors.accent : colors.textSecondary },
+        ]}
+      >
+        {item.minutes < 1 ? t.now : `${item.minutes}'`}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        {lineId ? (
+          <View style={[styles.lineBadge, { backgroundColor: colors.accent }]}>
+            <Text style={styles.lineBadgeText}>{lineId}</Text>
+          </View>
+        ) : null}
+        <View style={styles.headerTitleContainer}>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>
+            {t.busNumberFormat.replace("{number}", vehicleNo)}
+          </Text>
+          <Text style={[styles.headerSubtitle, { color: colors.textSecondary }]}>
+            {t.trackBus}
+          </Text>
+        </View>
+      </View>
+
+      {/* Tracking state */}
+      <View
+        style={[
+          styles.statusBar,
+          { backgroundColor: STATUS_COLORS[status] + "20" },
+        ]}
+      >
+        {status === "searching" ? (
+          <ActivityIndicator size="small" color={STATUS_COLORS[status]} />
+        ) : (
+          <Ionicons
+            name={STATUS_ICONS[status]}
+            size={16}
+            color={STATUS_COLORS[status]}
+          />
+        )}
+        <Text style={[styles.statusText, { color: STATUS_COLORS[status] }]}>
+          {statusText}
+        </Text>
+        {location && status !== "searching" && (
+          <ReportAge
+            reportedAt={location.reportedAt}
+            style={[styles.statusAge, { color: colors.textSecondary }]}
+          />
+        )}
+      </View>
+
+      {/* Map */}
+      <View style={styles.mapContainer}>
+        <OpenStreetMap
+          ref={mapRef}
+          center={center}
+          zoom={15}
+          markers={markers}
+          onMapReady={() => setIsMapReady(true)}
+          routePath={routePath}
+          darkMode={colorScheme === "dark"}
+        />
+        <TouchableOpacity
+          style={[
+            styles.followButton,
+            { backgroundColor: following ? colors.accent : colors.card },
+          ]}
+          onPress={() => setFollowing((prev) => !prev)}
+          accessibilityLabel={t.followBus}
+        >
+          <Ionicons
+            name={following ? "locate" : "locate-outline"}
+            size={22}
+            color={following ? "#fff" : colors.text}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {/* Remaining stops */}
+      <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>
+        {t.remainingStops}
+      </Text>
+      {stopRows ? (
+        <FlatList
+          data={stopRows}
+          renderItem={renderStop}
+          keyExtractor={(item) => `${item.index}-${item.stop.code}`}
+          style={styles.list}
+        />
+      ) : arrival ? (
+        <View
+          style={[
+            styles.stopRow,
+            { borderBottomColor: colors.border, backgroundColor: colors.accent + "15" },
+          ]}
+        >
+          <View style={styles.stopInfo}>
+            <Text style={[styles.stopName, { color: colors.accent }]}>
+              {t.yourStop}
+            </Text>
+          </View>
+          <Text style={[styles.eta, { color: colors.accent }]}>
+            {arrival.minutes < 1 ? t.now : `${arrival.minutes}'`}
+          </Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingTop: Platform.OS === "ios" ? 60 : 50,
+    paddingBottom: 16,
+    paddingHorizontal: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+  lineBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  lineBadgeText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  headerTitleContainer: {
+    flex: 1,
+    paddingHorizontal: 12,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  headerSubtitle: {
+    fontSize: 12,
+  },
+  statusBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  statusAge: {
+    fontSize: 12,
+  },
+  mapContainer: {
+    height: "40%",
+  },
+  followButton: {
+    position: "absolute",
+    right: 16,
+    bottom: 16,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  list: {
+    flex: 1,
+  },
+  stopRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  timeline: {
+    width: 16,
+    alignItems: "center",
+    alignSelf: "stretch",
+    marginRight: 12,
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+    marginTop: 4,
+  },
+  timelineLine: {
+    position: "absolute",
+    top: 18,
+    bottom: -16,
+    width: 2,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  yourStop: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  eta: {
+    fontSize: 15,
+    fontWeight: "700",
+    marginLeft: 12,
+  },
+});
@@ -1,12 +1,22 @@
 import { ScheduleModal } from "@/components/schedule/ScheduleModal";
+import { ErrorState } from "@/components/ui/ErrorState";
 import { ArrivalSkeleton } from "@/components/ui/SkeletonLoader";
 import { Colors } from "@/constants/theme";
 import { useFavorites } from "@/contexts/FavoritesContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { StopRoute } from "@/lib/api";
-import { useRoutesForStop, useSchedule, useStopArrivals } from "@/lib/queries";
-import type { Stop, StopArrival } from "@/lib/types";
+import {
+  useBusLocations,
+  useRoutesForStop,
+  useSchedule,
+  useStopArrivals,
+  useSupports,
+  useVehicleFreshness,
+} from "@/lib/queries";
+import { getServiceDay } from "@/lib/calendar";
+import { getActiveDaySchedule } from "@/lib/schedule";
+import type { Stop, StopArrival, StopRoute } from "@/lib/types";
+import { arrivalReliability } from "@/lib/vehicle-freshness";
 import { Ionicons } from "@expo/vector-icons";
 import BottomSheet, {
   BottomSheetBackdrop,
@@ -28,10 +38,12 @@ import {
 interface ArrivalsSheetProps {
   stop: Stop | null;
   onClose: () => void;
+  /** Draw a route of this stop on the map; hides the action when omitted */
+  onShowRoute?: (route: StopRoute) => void;
 }
 
 export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
-  function ArrivalsSheet({ stop, onClose }, ref) {
+  function ArrivalsSheet({ stop, onClose, onShowRoute }, ref) {
     const router = useRouter();
     const { theme: colorScheme } = useTheme();
     const { localize, t } = useLanguage();
@@ -48,16 +60,52 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
     const [scheduleLineId] = useState("");
     const [scheduleRouteName] = useState("");
 
+    const supportsVehicles = useSupports("vehicles");
+
     // Check if current stop is favorite
-    const isFavorite = stop ? checkIsFavorite("stop", stop.StopCode) : false;
+    const isFavorite = stop ? checkIsFavorite("stop", stop.code) : false;
 
     // Fetch data
-    const { data: arrivals } = useStopArrivals(stop?.StopCode ?? null);
-    const { data: routes, isLoading: routesLoading } = useRoutesForStop(
-      stop?.StopCode ?? null
-    );
-    const { data: schedule, isLoading: scheduleLoading } =
-      useSchedule(selectedLineCode);
+    const {
+      data: arrivals,
+      error: arrivalsError,
+      refetch: refetchArrivals,
+    } = useStopArrivals(stop?.code ?? null);
+    const {
+      data: routes,
+      isLoading: routesLoading,
+      error: routesError,
+      refetch: refetchRoutes,
+    } = useRoutesForStop(stop?.code ?? null);
+    const {
+      data: lineSchedule,
+      isLoading: scheduleLoading,
+      error: scheduleError,
+    } = useSchedule(selectedLineCode);
+    const schedule = getActiveDaySchedule(lineSchedule);
+
+    // The expanded line's buses are polled so its arrivals can be cross-checked
+    useBusLocations(selectedRoute, { enabled: supportsVehicles });
+    const freshness = useVehicleFreshness();
+
+    // Explain why today's timetable differs from the usual day of week
+    const serviceNote = useMemo(() => {
+      const serviceDay = getServiceDay(new Date());
+      if (serviceDay.override) {
+        return serviceDay.override.note
+          ? `${t.specialService}: ${serviceDay.override.note}`
+          : t.specialService;
+      }
+      if (serviceDay.holiday?.sundayService) {
+        return `${t.holidayService}: ${localize(
+          serviceDay.holiday.nameEn,
+          serviceDay.holiday.name
+        )}`;
+      }
+      return null;
+      // Re-evaluated with each fetched schedule so it follows the date
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [lineSchedule, t, localize]);
 
     const renderBackdrop = useCallback(
       (props: any) => (
@@ -77,16 +125,14 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
 
       const map = new Map<string, StopArrival[]>();
       arrivals.forEach((arr) => {
-        const existing = map.get(arr.route_code) || [];
+        const existing = map.get(arr.routeCode) || [];
         existing.push(arr);
-        map.set(arr.route_code, existing);
+        map.set(arr.routeCode, existing);
       });
 
       // Sort each group by time
       map.forEach((arrs) => {
-        arrs.sort(
-          (a, b) => (parseInt(a.btime2) || 999) - (parseInt(b.btime2) || 999)
-        );
+        arrs.sort((a, b) => a.minutes - b.minutes);
       });
 
       return map;
@@ -97,8 +143,8 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
       if (!routes) return [];
       const seen = new Set<string>();
       return routes.filter((r) => {
-        if (seen.has(r.LineID)) return false;
-        seen.add(r.LineID);
+        if (seen.has(r.lineId)) return false;
+        seen.add(r.lineId);
         return true;
       });
     }, [routes]);
@@ -107,20 +153,19 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
       if (!stop) return;
       toggleFavorite({
         type: "stop",
-        stopCode: stop.StopCode,
-        stopName: stop.StopDescr,
-        stopNameEng: stop.StopDescrEng,
-        stopLat: stop.StopLat,
-        stopLng: stop.StopLng,
+        stopCode: stop.code,
+        stopName: stop.name,
+        stopNameEng: stop.nameEn,
+        stopLat: String(stop.lat),
+        stopLng: String(stop.lng),
       });
     }, [stop, toggleFavorite]);
 
     // Open Google Maps for directions
     const openDirections = useCallback(() => {
-      if (!stop?.StopLat || !stop?.StopLng) return;
+      if (!stop) return;
 
-      const lat = parseFloat(stop.StopLat);
-      const lng = parseFloat(stop.StopLng);
+      const { lat, lng } = stop;
 
       const url = Platform.select({
         ios: `comgooglemaps://?daddr=${lat},${lng}&directionsmode=walking`,
@@ -144,12 +189,11 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
 
     // Share stop location
     const shareStop = useCallback(async () => {
-      if (!stop?.StopLat || !stop?.StopLng) return;
+      if (!stop) return;
 
-      const lat = parseFloat(stop.StopLat);
-      const lng = parseFloat(stop.StopLng);
+      const { lat, lng } = stop;
       const displayName =
-        localize(stop.StopDescrEng, stop.StopDescr) || `Stop ${stop.StopCode}`;
+        localize(stop.nameEn, stop.name) || `Stop ${stop.code}`;
       const mapsUrl = `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
 
       try {
@@ -180,20 +224,20 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
     };
 
     const renderLineCard = (route: StopRoute) => {
-      const lineArrivals = arrivalsByLine.get(route.RouteCode) || [];
+      const lineArrivals = arrivalsByLine.get(route.routeCode) || [];
       const nextArrival = lineArrivals[0];
       const secondArrival = lineArrivals[1];
-      const nextMinutes = nextArrival
-        ? parseInt(nextArrival.btime2) || 0
-        : null;
-      const secondMinutes = secondArrival
-        ? parseInt(secondArrival.btime2) || 0
-        : null;
-      const isSelected = selectedRoute === route.RouteCode;
+      const nextMinutes = nextArrival ? nextArrival.minutes : null;
+      const secondMinutes = secondArrival ? secondArrival.minutes : null;
+      // Buses that will likely never arrive are faded, not hidden
+      const nextReliability = nextArrival
+        ? arrivalReliability(freshness, nextArrival)
+        : "reliable";
+      const isSelected = selectedRoute === route.routeCode;
       const currentTime = getCurrentTimeStr();
 
       return (
-        <View key={route.RouteCode} style={styles.lineCardContainer}>
+        <View key={route.routeCode} style={styles.lineCardContainer}>
           <TouchableOpacity
             style={[
               styles.lineCard,
@@ -210,9 +254,9 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                 setSelectedMlCode(null);
                 setSelectedLineCode(null);
               } else {
-                setSelectedRoute(route.RouteCode);
-                setSelectedMlCode(route.MasterLineCode);
-                setSelectedLineCode(route.LineCode);
+                setSelectedRoute(route.routeCode);
+                setSelectedMlCode(route.masterLineCode);
+                setSelectedLineCode(route.lineCode);
               }
             }}
             activeOpacity={0.7}
@@ -221,7 +265,7 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
             <View
               style={[styles.lineBadge, { backgroundColor: colors.accent }]}
             >
-              <Text style={styles.lineBadgeText}>{route.LineID}</Text>
+              <Text style={styles.lineBadgeText}>{route.lineId}</Text>
             </View>
 
             {/* Line info */}
@@ -230,7 +274,7 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                 style={[styles.lineName, { color: colors.text }]}
                 numberOfLines={1}
               >
-                {localize(route.RouteDescrEng, route.RouteDescr)}
+                {localize(route.routeNameEn, route.routeName)}
               </Text>
               <Text
                 style={[styles.lineSubtitle, { color: colors.textSecondary }]}
@@ -245,7 +289,13 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
 
             {/* Next arrival with "also in X'" */}
             {nextMinutes !== null ? (
-              <View style={styles.arrivalContainer}>
+              <View
+                style={[
+                  styles.arrivalContainer,
+                  nextReliability === "doubtful" && styles.arrivalDoubtful,
+                  nextReliability === "unreliable" && styles.arrivalUnreliable,
+                ]}
+              >
                 {nextMinutes < 2 ? (
                   <MotiView
                     from={{ opacity: 0.5 }}
@@ -298,9 +348,9 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                   router.push({
                     pathname: "/line/[lineCode]",
                     params: {
-                      lineCode: route.LineCode,
-                      lineId: route.LineID,
-                      lineName: localize(route.RouteDescrEng, route.RouteDescr),
+                      lineCode: route.lineCode,
+                      lineId: route.lineId,
+                      lineName: localize(route.routeNameEn, route.routeName),
                     },
                   });
                 }}
@@ -313,6 +363,28 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                 </Text>
               </TouchableOpacity>
 
+              {/* Draw this route and its buses on the main map */}
+              {onShowRoute && (
+                <TouchableOpacity
+                  style={[
+                    styles.viewScheduleButton,
+                    { borderColor: colors.accent, marginBottom: 12 },
+                  ]}
+                  onPress={() => onShowRoute(route)}
+                >
+                  <Ionicons
+                    name="git-branch-outline"
+                    size={16}
+                    color={colors.accent}
+                  />
+                  <Text
+                    style={[styles.viewScheduleText, { color: colors.accent }]}
+                  >
+                    {t.showOnMap}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {/* Live arrivals for this line */}
               {lineArrivals.length > 0 && (
                 <View style={styles.arrivalsSection}>
@@ -325,11 +397,33 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                     Live Arrivals
                   </Text>
                   {lineArrivals.map((arr, i) => {
-                    const mins = parseInt(arr.btime2) || 0;
+                    const mins = arr.minutes;
+                    const canTrack = supportsVehicles && arr.vehicleCode !== "";
+                    const reliability = arrivalReliability(freshness, arr);
                     return (
-                      <View
-                        key={`${arr.veh_code}-${i}`}
-                        style={styles.arrivalRow}
+                      <TouchableOpacity
+                        key={`${arr.vehicleCode}-${i}`}
+                        style={[
+                          styles.arrivalRow,
+                          reliability === "doubtful" && styles.arrivalDoubtful,
+                          reliability === "unreliable" && styles.arrivalUnreliable,
+                        ]}
+                        disabled={!canTrack}
+                        accessibilityLabel={canTrack ? t.trackBus : undefined}
+                        onPress={() => {
+                          if (!stop) return;
+                          router.push({
+                            pathname: "/vehicle/[vehicleNo]",
+                            params: {
+                              vehicleNo: arr.vehicleCode,
+                              routeCode: route.routeCode,
+                              lineId: route.lineId,
+                              stopCode: stop.code,
+                              stopLat: String(stop.lat),
+                              stopLng: String(stop.lng),
+                            },
+                          });
+                        }}
                       >
                         <View style={styles.arrivalRowLeft}>
                           <View
@@ -350,8 +444,23 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                               { color: colors.textSecondary },
                             ]}
                           >
-                            Bus #{arr.veh_code}
+                            Bus #{arr.vehicleCode}
                           </Text>
+                          {reliability === "unreliable" && (
+                            <Ionicons
+                              name="alert-circle-outline"
+                              size={14}
+                              color={colors.textSecondary}
+                              accessibilityLabel={t.arrivalUnreliable}
+                            />
+                          )}
+                          {canTrack && (
+                            <Ionicons
+                              name="locate-outline"
+                              size={14}
+                              color={colors.accent}
+                            />
+                          )}
                         </View>
                         {mins < 2 ? (
                           <Text style={styles.arrivingNowSmall}>Arriving</Text>
@@ -359,7 +468,7 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                           <Text
                             style={[
                               styles.arrivalTimeSmall,
-                              i === 0 && {
+                              arr === nextArrival && {
                                 color: colors.accent,
                                 fontWeight: "700",
                               },
@@ -368,7 +477,7 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                             {formatTime(mins)}
                           </Text>
                         )}
-                      </View>
+                      </TouchableOpacity>
                     );
                   })}
                 </View>
@@ -398,6 +507,20 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                 (schedule.departure.length > 0 ||
                   schedule.return.length > 0) ? (
                 <View style={styles.scheduleSection}>
+                  {serviceNote && (
+                    <View style={styles.serviceNote}>
+                      <Ionicons
+                        name="calendar-outline"
+                        size={14}
+                        color={colors.accent}
+                      />
+                      <Text
+                        style={[styles.serviceNoteText, { color: colors.accent }]}
+                      >
+                        {serviceNote}
+                      </Text>
+                    </View>
+                  )}
                   {/* Departure schedule */}
                   {schedule.departure.length > 0 && (
                     <>
@@ -513,7 +636,12 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                 </View>
               ) : null}
 
+              {scheduleError && !scheduleLoading && (
+                <ErrorState error={scheduleError} compact />
+              )}
+
               {lineArrivals.length === 0 &&
+                !scheduleError &&
                 (!schedule ||
                   (schedule.departure.length === 0 &&
                     schedule.return.length === 0)) &&
@@ -561,10 +689,10 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                       router.push({
                         pathname: "/stop/[stopCode]",
                         params: {
-                          stopCode: stop.StopCode,
-                          stopName: localize(stop.StopDescrEng, stop.StopDescr),
-                          stopLat: stop.StopLat,
-                          stopLng: stop.StopLng,
+                          stopCode: stop.code,
+                          stopName: localize(stop.nameEn, stop.name),
+                          stopLat: String(stop.lat),
+                          stopLng: String(stop.lng),
                         },
                       });
                     }}
@@ -577,7 +705,7 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                       }}
                     >
                       <Text style={[styles.stopName, { color: colors.text }]}>
-                        {localize(stop.StopDescrEng, stop.StopDescr)}
+                        {localize(stop.nameEn, stop.name)}
                       </Text>
                       <Ionicons
                         name="chevron-forward-circle"
@@ -588,7 +716,7 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                     <Text
                       style={[styles.stopCode, { color: colors.textSecondary }]}
                     >
-                      {t.stops} #{stop.StopCode}
+                      {t.stops} #{stop.code}
                     </Text>
                   </TouchableOpacity>
 
@@ -660,6 +788,8 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                       <ArrivalSkeleton key={i} colorScheme={colorScheme} />
                     ))}
                   </View>
+                ) : routesError ? (
+                  <ErrorState error={routesError} onRetry={refetchRoutes} />
                 ) : uniqueLines.length === 0 ? (
                   <View style={styles.emptyContainer}>
                     <Ionicons
@@ -678,6 +808,14 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
                   </View>
                 ) : (
                   <View style={styles.linesList}>
+                    {/* Live data failed - distinct from "no buses right now" */}
+                    {arrivalsError && (
+                      <ErrorState
+                        error={arrivalsError}
+                        onRetry={refetchArrivals}
+                        compact
+                      />
+                    )}
                     {uniqueLines.map((route) => renderLineCard(route))}
                   </View>
                 )}
@@ -689,7 +827,7 @@ export const ArrivalsSheet = forwardRef<BottomSheet, ArrivalsSheetProps>(
         <ScheduleModal
           visible={showScheduleModal}
           onClose={() => setShowScheduleModal(false)}
-          schedule={schedule}
+          schedule={lineSchedule}
           lineId={scheduleLineId}
           routeName={scheduleRouteName}
           colorScheme={colorScheme}
@@ -845,6 +983,16 @@ const styles = StyleSheet.create({
   arrivalsSection: {
     marginBottom: 12,
   },
+  serviceNote: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 8,
+  },
+  serviceNoteText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
   sectionLabel: {
     fontSize: 12,
     fontWeight: "600",
@@ -857,6 +1005,12 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingVertical: 8,
   },
+  arrivalDoubtful: {
+    opacity: 0.6,
+  },
+  arrivalUnreliable: {
+    opacity: 0.35,
+  },
   arrivalRowLeft: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,23 +1,46 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { StyleSheet, View } from 'react-native';
 import { Marker } from 'react-native-maps';
 import Svg, { Circle, Path } from 'react-native-svg';
 
+import { positionOnPath, type MotionKeyframe } from '@/lib/vehicle-motion';
+
+const FRAME_MS = 250; // Marker updates while moving along a path
+
 interface BusMarkerProps {
   coordinate: {
     latitude: number;
     longitude: number;
   };
   rotation?: number;
+  /** Planned movement (from useVehicleMotion); overrides coordinate and rotation */
+  path?: MotionKeyframe[];
   vehicleNo?: string;
   onPress?: () => void;
 }
 
-export function BusMarker({ coordinate, rotation = 0, vehicleNo, onPress }: BusMarkerProps) {
+export function BusMarker({ coordinate, rotation = 0, path, vehicleNo, onPress }: BusMarkerProps) {
+  const [now, setNow] = useState(Date.now);
+
+  // Tick until the end of the path
+  useEffect(() => {
+    if (!path || path.length < 2) return;
+    const end = path[path.length - 1].t;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= end) clearInterval(timer);
+    }, FRAME_MS);
+    return () => clearInterval(timer);
+  }, [path]);
+
+  const position = path?.length ? positionOnPath(path, now) : null;
+
   return (
     <Marker
-      coordinate={coordinate}
-      rotation={rotation}
+      coordinate={position ? { latitude: position.lat, longitude: position.lng } : coordinate}
+      rotation={position?.heading ?? rotation}
+      flat
       anchor={{ x: 0.5, y: 0.5 }}
       onPress={onPress}
       tracksViewChanges={false}
@@ -60,7 +60,7 @@ export function NearbyStopsCards({
       >
         {nearbyStops.map((stop) => (
           <TouchableOpacity
-            key={stop.StopCode}
+            key={stop.code}
             style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}
             onPress={() => onStopPress(stop)}
             activeOpacity={0.7}
@@ -72,10 +72,10 @@ export function NearbyStopsCards({
                   style={[styles.stopName, { color: colors.text }]} 
                   numberOfLines={1}
                 >
-                  {localize(stop.StopDescrEng, stop.StopDescr)}
+                  {localize(stop.nameEn, stop.name)}
                 </Text>
                 <Text style={[styles.distance, { color: colors.textSecondary }]}>
-                  {formatDistance(stop.distance)}
+                  {formatDistance(stop.distanceMeters)}
                 </Text>
               </View>
             </View>
@@ -86,28 +86,13 @@ export function NearbyStopsCards({
   );
 }
 
-function formatDistance(distance?: string): string {
-  if (!distance) return '';
+function formatDistance(meters?: number): string {
+  if (meters === undefined) return '';
   
-  const value = parseFloat(distance);
-  if (isNaN(value)) return '';
-  
-  // OASA returns distance in meters, OASTH we calculate in km
-  // If value < 10, assume it's in km (OASTH), otherwise meters (OASA)
-  if (value < 10) {
-    // Likely in km (from OASTH calculation)
-    const meters = value * 1000;
-    if (meters < 1000) {
-      return `${Math.round(meters)}m`;
-    }
-    return `${value.toFixed(1)}km`;
-  }
-  
-  // OASA returns in meters
-  if (value < 1000) {
-    return `${Math.round(value)}m`;
+  if (meters < 1000) {
+    return `${Math.round(meters)}m`;
   }
-  return `${(value / 1000).toFixed(1)}km`;
+  return `${(meters / 1000).toFixed(1)}km`;
 }
 
 const styles = StyleSheet.create({
@@ -10,6 +10,9 @@ import React, {
 import { ActivityIndicator, StyleSheet, View } from "react-native";
 import { WebView } from "react-native-webview";
 
+import type { GeoBounds } from "@/lib/geo";
+import type { MotionKeyframe } from "@/lib/vehicle-motion";
+
 // MapTiler API Key from environment variable
 const MAPTILER_API_KEY = process.env.EXPO_PUBLIC_MAPTILER_API_KEY || "";
 
@@ -22,6 +25,19 @@ export interface MapMarker {
   selected?: boolean;
   color?: string;
   lines?: { code: string; color: string }[];
+  /** Buses: compass heading, drawn as an arrow around the icon */
+  heading?: number | null;
+  /** Buses: planned movement, animated inside the map between updates */
+  path?: MotionKeyframe[];
+  /** Buses: drawn faded when their position is stale or not changing */
+  faded?: boolean;
+}
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+  bounds: GeoBounds;
 }
 
 export interface OpenStreetMapProps {
@@ -31,12 +47,15 @@ export interface OpenStreetMapProps {
   userLocation?: { latitude: number; longitude: number } | null;
   onMarkerPress?: (markerId: string) => void;
   onMapReady?: () => void;
-  onRegionChange?: (region: { latitude: number; longitude: number; zoom: number; shouldFetchStops: boolean }) => void;
+  onRegionChange?: (region: MapRegion) => void;
+  /** Polyline of a selected route, drawn under the markers */
+  routePath?: { latitude: number; longitude: number }[] | null;
   darkMode?: boolean;
 }
 
 export interface OpenStreetMapRef {
   centerOnLocation: (lat: number, lng: number) => void;
+  fitBounds: (bounds: GeoBounds) => void;
 }
 
 function OpenStreetMapComponent(
@@ -48,6 +67,7 @@ function OpenStreetMapComponent(
     onMarkerPress,
     onMapReady,
     onRegionChange,
+    routePath,
     darkMode = true,
   }: OpenStreetMapProps,
   ref: React.Ref<OpenStreetMapRef>
@@ -72,6 +92,14 @@ function OpenStreetMapComponent(
         `);
         }
       },
+      fitBounds: (bounds: GeoBounds) => {
+        if (mapReady && webViewRef.current) {
+          webViewRef.current.injectJavaScript(`
+          map.fitBounds([[${bounds.west}, ${bounds.south}], [${bounds.east}, ${bounds.north}]], { padding: 60, maxZoom: 16 });
+          true;
+        `);
+        }
+      },
     }),
     [mapReady]
   );
@@ -101,10 +129,7 @@ function OpenStreetMapComponent(
     .maplibregl-ctrl-attrib { display: none !important; }
     .maplibregl-ctrl-logo { display: none !important; }
     
-    /* Custom marker styles */
-    .marker-stop { cursor: pointer; }
-    .marker-bus { cursor: pointer; }
-    .marker-station { cursor: pointer; box-shadow: 0 0 4px rgba(0,0,0,0.5); }
+    /* User location marker (stops, stations and buses are map layers) */
     .marker-user {
       width: 20px;
       height: 20px;
@@ -144,162 +169,310 @@ function OpenStreetMapComponent(
       logoPosition: 'bottom-left'
     });
     
-    var currentMarkers = [];
+    var userMarker = null;
+    var EMPTY = { type: 'FeatureCollection', features: [] };
+    var pendingData = null;
+    var pendingRoute = null;
     
-    // Create SVG for stop pin marker
-    function createStopPinSVG(color, selected) {
-      var size = selected ? 36 : 28;
-      return '<svg xmlns="http://www.w3.org/2000/svg" width="' + size + '" height="' + size + '" viewBox="0 0 24 24">' +
-        '<path fill="' + color + '" stroke="#fff" stroke-width="1.5" d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7z"/>' +
-        '<circle cx="12" cy="9" r="3" fill="#fff"/>' +
-        '</svg>';
-    }
+    // Stop pin and bus icons, drawn at 2x for sharp rendering
+    var STOP_PIN_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="56" height="56" viewBox="0 0 24 24">' +
+      '<path fill="#8B5CF6" stroke="#fff" stroke-width="1.5" d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7z"/>' +
+      '<circle cx="12" cy="9" r="3" fill="#fff"/>' +
+      '</svg>';
+    var BUS_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24">' +
+      '<circle cx="12" cy="12" r="11" fill="#22c55e" stroke="#fff" stroke-width="2"/>' +
+      '<path fill="#fff" d="M7 15.5c0 .66.29 1.25.75 1.66V18c0 .28.22.5.5.5h.75c.28 0 .5-.22.5-.5v-.5h5v.5c0 .28.22.5.5.5h.75c.28 0 .5-.22.5-.5v-.84c.46-.41.75-1 .75-1.66V9c0-2-2-2.5-5-2.5S7 7 7 9v6.5zm1.75.5a.75.75 0 1 1 0-1.5.75.75 0 0 1 0 1.5zm6.5 0a.75.75 0 1 1 0-1.5.75.75 0 0 1 0 1.5zM16 12H8V9h8v3z"/>' +
+      '</svg>';
+    // Arrow around the bus icon, pointing north before rotation
+    var BUS_ARROW_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="72" height="72" viewBox="0 0 36 36">' +
+      '<path fill="#22c55e" stroke="#fff" stroke-width="1.5" stroke-linejoin="round" d="M18 1l5 6h-10z"/>' +
+      '</svg>';
     
-    function clearMarkers() {
-      currentMarkers.forEach(function(marker) {
-        marker.remove();
-      });
-      currentMarkers = [];
+    function loadIcon(name, svg) {
+      var img = new Image();
+      img.onload = function() {
+        if (!map.hasImage(name)) map.addImage(name, img, { pixelRatio: 2 });
+      };
+      img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
     }
     
-    function updateMarkers(markersData, userLoc) {
-      clearMarkers();
+    // Stops and stations share one clustered source; buses are never clustered
+    function setupLayers() {
+      loadIcon('stop-pin', STOP_PIN_SVG);
+      loadIcon('bus', BUS_SVG);
+      loadIcon('bus-arrow', BUS_ARROW_SVG);
       
-      if (markersData && markersData.length > 0) {
-        markersData.forEach(function(m) {
-          var el = document.createElement('div');
-          var marker;
-          
-          if (m.type === 'stop') {
-            var color = '#8B5CF6';
-            el.className = 'marker-stop';
-            el.innerHTML = createStopPinSVG(color, m.selected);
-            marker = new maplibregl.Marker({ element: el, anchor: 'bottom' })
-              .setLngLat([m.longitude, m.latitude])
-              .addTo(map);
-          } else if (m.type === 'station') {
-            // Station marker - colored circle
-            el.className = 'marker-station';
-            el.style.width = '14px';
-            el.style.height = '14px';
-            el.style.background = m.color || '#333';
-            el.style.border = '2px solid #fff';
-            el.style.borderRadius = '50%';
-            
-            marker = new maplibregl.Marker({ element: el })
-              .setLngLat([m.longitude, m.latitude])
-              .addTo(map);
-          } else {
-            // Bus marker - circle style
-            el.className = 'marker-bus';
-            el.style.width = '24px';
-            el.style.height = '24px';
-            el.style.background = '#22c55e';
-            el.style.border = '2px solid #fff';
-            el.style.borderRadius = '50%';
-            el.style.boxShadow = '0 2px 6px rgba(0,0,0,0.3)';
-            
-            el.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24">' +
-              '<text x="12" y="16" text-anchor="middle" fill="#fff" font-size="10" font-weight="bold">🚌</text>' +
-              '</svg>';
-            
-            marker = new maplibregl.Marker({ element: el })
-              .setLngLat([m.longitude, m.latitude])
-              .addTo(map);
-          }
-          
-          
-          el.addEventListener('click', function(e) {
-            e.stopPropagation();
-            if (m.type === 'station') {
-               var badges = '';
-               if (m.lines && m.lines.length) {
-                 badges = m.lines.map(function(l) {
-                   return '<span class="line-badge" style="background:' + l.color + '">' + l.code + '</span>';
-                 }).join('');
-               }
-               new maplibregl.Popup({ closeButton: true, maxWidth: '220px' })
-                 .setLngLat([m.longitude, m.latitude])
-                 .setHTML('<div class="station-popup"><div class="name">' + (m.label || 'Station') + '</div><div class="lines">' + badges + '</div></div>')
-                 .addTo(map);
-            }
-            window.ReactNativeWebView.postMessage(JSON.stringify({type: 'markerPress', id: m.id}));
+      map.addSource('points', {
+        type: 'geojson',
+        data: EMPTY,
+        cluster: true,
+        clusterMaxZoom: 14,
+        clusterRadius: 40
+      });
+      map.addSource('buses', { type: 'geojson', data: EMPTY });
+      map.addSource('route', { type: 'geojson', data: EMPTY });
+      
+      // Added first, so the route is drawn under everything else
+      map.addLayer({
+        id: 'route-line',
+        type: 'line',
+        source: 'route',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#8B5CF6', 'line-width': 5, 'line-opacity': 0.8 }
+      });
+      map.addLayer({
+        id: 'clusters',
+        type: 'circle',
+        source: 'points',
+        filter: ['has', 'point_count'],
+        paint: {
+          'circle-color': '#8B5CF6',
+          'circle-opacity': 0.9,
+          'circle-stroke-color': '#fff',
+          'circle-stroke-width': 2,
+          'circle-radius': ['step', ['get', 'point_count'], 14, 10, 18, 50, 24]
+        }
+      });
+      map.addLayer({
+        id: 'cluster-count',
+        type: 'symbol',
+        source: 'points',
+        filter: ['has', 'point_count'],
+        layout: {
+          'text-field': ['get', 'point_count_abbreviated'],
+          'text-font': ['Noto Sans Bold'],
+          'text-size': 12,
+          'text-allow-overlap': true
+        },
+        paint: { 'text-color': '#fff' }
+      });
+      map.addLayer({
+        id: 'stations',
+        type: 'circle',
+        source: 'points',
+        filter: ['all', ['!', ['has', 'point_count']], ['==', ['get', 'type'], 'station']],
+        paint: {
+          'circle-color': ['coalesce', ['get', 'color'], '#333'],
+          'circle-radius': 7,
+          'circle-stroke-color': '#fff',
+          'circle-stroke-width': 2
+        }
+      });
+      map.addLayer({
+        id: 'stops',
+        type: 'symbol',
+        source: 'points',
+        filter: ['all', ['!', ['has', 'point_count']], ['==', ['get', 'type'], 'stop']],
+        layout: {
+          'icon-image': 'stop-pin',
+          'icon-anchor': 'bottom',
+          'icon-size': ['case', ['get', 'selected'], 1.3, 1],
+          'icon-allow-overlap': true,
+          'symbol-sort-key': ['case', ['get', 'selected'], 1, 0]
+        }
+      });
+      map.addLayer({
+        id: 'bus-arrows',
+        type: 'symbol',
+        source: 'buses',
+        filter: ['==', ['typeof', ['get', 'heading']], 'number'],
+        layout: {
+          'icon-image': 'bus-arrow',
+          'icon-rotate': ['get', 'heading'],
+          'icon-rotation-alignment': 'map',
+          'icon-allow-overlap': true,
+          'icon-ignore-placement': true
+        },
+        paint: { 'icon-opacity': ['case', ['get', 'faded'], 0.4, 1] }
+      });
+      map.addLayer({
+        id: 'buses',
+        type: 'symbol',
+        source: 'buses',
+        layout: {
+          'icon-image': 'bus',
+          'icon-allow-overlap': true,
+          'icon-ignore-placement': true
+        },
+        paint: { 'icon-opacity': ['case', ['get', 'faded'], 0.4, 1] }
+      });
+      
+      // Tapping a cluster zooms in until it splits
+      map.on('click', 'clusters', function(e) {
+        var feature = e.features[0];
+        map.getSource('points')
+          .getClusterExpansionZoom(feature.properties.cluster_id)
+          .then(function(zoom) {
+            map.easeTo({ center: feature.geometry.coordinates, zoom: zoom });
           });
-          
-          currentMarkers.push(marker);
-        });
-      }
+      });
       
-      // Add user location marker
-      if (userLoc) {
-        var userEl = document.createElement('div');
-        userEl.className = 'marker-user';
-        
-        var userMarker = new maplibregl.Marker({ element: userEl })
-          .setLngLat([userLoc.longitude, userLoc.latitude])
+      map.on('click', 'stations', function(e) {
+        var props = e.features[0].properties;
+        // Nested properties come back from the source as JSON strings
+        var lines = typeof props.lines === 'string' ? JSON.parse(props.lines) : props.lines;
+        var badges = '';
+        if (lines && lines.length) {
+          badges = lines.map(function(l) {
+            return '<span class="line-badge" style="background:' + l.color + '">' + l.code + '</span>';
+          }).join('');
+        }
+        new maplibregl.Popup({ closeButton: true, maxWidth: '220px' })
+          .setLngLat(e.features[0].geometry.coordinates)
+          .setHTML('<div class="station-popup"><div class="name">' + (props.label || 'Station') + '</div><div class="lines">' + badges + '</div></div>')
           .addTo(map);
-        
-        currentMarkers.push(userMarker);
+        postMarkerPress(props.id);
+      });
+      
+      map.on('click', 'stops', function(e) {
+        postMarkerPress(e.features[0].properties.id);
+      });
+      
+      map.on('click', 'buses', function(e) {
+        postMarkerPress(e.features[0].properties.id);
+      });
+    }
+    
+    function postMarkerPress(id) {
+      window.ReactNativeWebView.postMessage(JSON.stringify({type: 'markerPress', id: id}));
+    }
+    
+    function toFeatures(markersData) {
+      return {
+        type: 'FeatureCollection',
+        features: markersData.map(function(m) {
+          return {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [m.longitude, m.latitude] },
+            properties: {
+              id: m.id,
+              type: m.type,
+              label: m.label,
+              selected: !!m.selected,
+              color: m.color,
+              lines: m.lines,
+              heading: m.heading,
+              faded: !!m.faded
+            }
+          };
+        })
+      };
+    }
+    
+    function updateRoute(path) {
+      var source = map.getSource('route');
+      if (!source) {
+        pendingRoute = path;
+        return;
       }
+      source.setData(path && path.length > 1 ? {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: path.map(function(p) { return [p.longitude, p.latitude]; })
+        },
+        properties: {}
+      } : EMPTY);
     }
     
-    map.on('load', function() {
-      window.ReactNativeWebView.postMessage(JSON.stringify({type: 'mapReady'}));
-    });
+    // Buses glide along their planned paths between updates
+    var busMarkers = [];
+    var busFrame = null;
+    var lastBusRender = 0;
     
-    // Track last reported center to avoid unnecessary updates
-    var lastReportedCenter = { lat: ${initLat}, lng: ${initLng} };
-    var lastReportedZoom = ${initZoom};
-    var MIN_ZOOM_FOR_STOPS = 14; // Only fetch stops when zoom >= 14
+    function positionOnPath(path, now) {
+      if (now <= path[0].t || path.length === 1) return path[0];
+      var last = path[path.length - 1];
+      if (now >= last.t) return last;
+      var i = 1;
+      while (path[i].t < now) i++;
+      var a = path[i - 1];
+      var b = path[i];
+      var f = (now - a.t) / (b.t - a.t);
+      return { lat: a.lat + (b.lat - a.lat) * f, lng: a.lng + (b.lng - a.lng) * f, heading: a.heading };
+    }
     
-    // Calculate distance between two points in meters (Haversine formula)
-    function getDistance(lat1, lng1, lat2, lng2) {
-      var R = 6371000; // Earth's radius in meters
-      var dLat = (lat2 - lat1) * Math.PI / 180;
-      var dLng = (lng2 - lng1) * Math.PI / 180;
-      var a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng/2) * Math.sin(dLng/2);
-      var c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-      return R * c;
+    function renderBuses() {
+      var now = Date.now();
+      var moving = false;
+      map.getSource('buses').setData(toFeatures(busMarkers.map(function(m) {
+        if (!m.path || !m.path.length) return m;
+        if (now < m.path[m.path.length - 1].t) moving = true;
+        var p = positionOnPath(m.path, now);
+        return Object.assign({}, m, { latitude: p.lat, longitude: p.lng, heading: p.heading });
+      })));
+      return moving;
     }
     
-    // Notify on map move/zoom - only fetch stops when zoomed in enough
-    map.on('moveend', function() {
-      var center = map.getCenter();
-      var currentZoom = map.getZoom();
-      var distance = getDistance(lastReportedCenter.lat, lastReportedCenter.lng, center.lat, center.lng);
+    function animateBuses(time) {
+      busFrame = null;
+      // About 10 updates a second is smooth enough at street zoom
+      if (time - lastBusRender < 100) {
+        busFrame = requestAnimationFrame(animateBuses);
+        return;
+      }
+      lastBusRender = time;
+      if (renderBuses()) busFrame = requestAnimationFrame(animateBuses);
+    }
+    
+    function updateMarkers(markersData, userLoc) {
+      markersData = markersData || [];
+      var points = map.getSource('points');
+      var buses = map.getSource('buses');
+      if (!points || !buses) {
+        // Sources are added on load; apply once they exist
+        pendingData = [markersData, userLoc];
+        return;
+      }
       
-      // Check if we crossed the zoom threshold
-      var wasZoomedIn = lastReportedZoom >= MIN_ZOOM_FOR_STOPS;
-      var isZoomedIn = currentZoom >= MIN_ZOOM_FOR_STOPS;
-      var crossedZoomThreshold = wasZoomedIn !== isZoomedIn;
+      points.setData(toFeatures(markersData.filter(function(m) { return m.type !== 'bus'; })));
+      busMarkers = markersData.filter(function(m) { return m.type === 'bus'; });
+      if (busFrame !== null) cancelAnimationFrame(busFrame);
+      busFrame = renderBuses() ? requestAnimationFrame(animateBuses) : null;
       
-      // Trigger update if:
-      // 1. Zoomed in enough AND (moved more than 500m OR just zoomed in past threshold)
-      // 2. Just zoomed out past threshold (to clear markers)
-      if (isZoomedIn && (distance > 500 || crossedZoomThreshold)) {
-        lastReportedCenter = { lat: center.lat, lng: center.lng };
-        lastReportedZoom = currentZoom;
-        window.ReactNativeWebView.postMessage(JSON.stringify({
-          type: 'regionChange',
-          latitude: center.lat,
-          longitude: center.lng,
-          zoom: currentZoom,
-          shouldFetchStops: true
-        }));
-      } else if (crossedZoomThreshold && !isZoomedIn) {
-        // Zoomed out past threshold - notify to clear stops
-        lastReportedZoom = currentZoom;
-        window.ReactNativeWebView.postMessage(JSON.stringify({
-          type: 'regionChange',
-          latitude: center.lat,
-          longitude: center.lng,
-          zoom: currentZoom,
-          shouldFetchStops: false
-        }));
+      // User location stays a single DOM marker
+      if (userLoc) {
+        if (!userMarker) {
+          var userEl = document.createElement('div');
+          userEl.className = 'marker-user';
+          userMarker = new maplibregl.Marker({ element: userEl }).setLngLat([userLoc.longitude, userLoc.latitude]).addTo(map);
+        } else {
+          userMarker.setLngLat([userLoc.longitude, userLoc.latitude]);
+        }
+      } else if (userMarker) {
+        userMarker.remove();
+        userMarker = null;
       }
+    }
+    
+    // Report the visible area - which stops to load is decided by the app
+    function reportRegion() {
+      var center = map.getCenter();
+      var bounds = map.getBounds();
+      window.ReactNativeWebView.postMessage(JSON.stringify({
+        type: 'regionChange',
+        latitude: center.lat,
+        longitude: center.lng,
+        zoom: map.getZoom(),
+        bounds: {
+          north: bounds.getNorth(),
+          south: bounds.getSouth(),
+          east: bounds.getEast(),
+          west: bounds.getWest()
+        }
+      }));
+    }
+    
+    map.on('load', function() {
+      setupLayers();
+      if (pendingData) updateMarkers(pendingData[0], pendingData[1]);
+      if (pendingRoute) updateRoute(pendingRoute);
+      window.ReactNativeWebView.postMessage(JSON.stringify({type: 'mapReady'}));
+      reportRegion();
     });
+    
+    // Notify on every map move/zoom
+    map.on('moveend', reportRegion);
   </script>
 </body>
 </html>`;
@@ -319,6 +492,16 @@ function OpenStreetMapComponent(
     }
   }, [markers, userLocation, mapReady]);
 
+  // Update the route polyline when it changes
+  useEffect(() => {
+    if (mapReady && webViewRef.current) {
+      webViewRef.current.injectJavaScript(`
+        updateRoute(${JSON.stringify(routePath ?? null)});
+        true;
+      `);
+    }
+  }, [routePath, mapReady]);
+
   // Center map on user location when it first becomes available
   const hasInitialCentered = useRef(false);
   useEffect(() => {
@@ -351,7 +534,7 @@ function OpenStreetMapComponent(
             latitude: data.latitude,
             longitude: data.longitude,
             zoom: data.zoom || 15,
-            shouldFetchStops: data.shouldFetchStops ?? true,
+            bounds: data.bounds,
           });
         }
       } catch {
@@ -1,5 +1,5 @@
 import { Ionicons } from "@expo/vector-icons";
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Modal,
   ScrollView,
@@ -10,7 +10,9 @@ import {
 } from "react-native";
 
 import { Colors } from "@/constants/theme";
-import type { LineScheduleResult } from "@/lib/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getActiveDaySchedule } from "@/lib/schedule";
+import type { LineScheduleResult } from "@/lib/types";
 
 interface ScheduleModalProps {
   visible: boolean;
@@ -30,6 +32,13 @@ export function ScheduleModal({
   colorScheme,
 }: ScheduleModalProps) {
   const colors = Colors[colorScheme ?? "dark"];
+  const { localize } = useLanguage();
+  const [selectedDayCode, setSelectedDayCode] = useState<string | null>(null);
+
+  // Start on the timetable running today whenever a new schedule is shown
+  useEffect(() => {
+    setSelectedDayCode(schedule?.activeDayCode ?? null);
+  }, [schedule]);
 
   // Get current time in HH:MM format
   const currentTime = useMemo(() => {
@@ -44,12 +53,19 @@ export function ScheduleModal({
 
   if (!schedule) return null;
 
-  const departureTimes = schedule.departure;
-  const returnTimes = schedule.return;
+  const days = schedule.days;
+  const selectedDay =
+    days.find((day) => day.code === selectedDayCode) ??
+    getActiveDaySchedule(schedule);
+  const selectedIndex = selectedDay ? days.indexOf(selectedDay) : 0;
+  const departureTimes = selectedDay?.departure ?? [];
+  const returnTimes = selectedDay?.return ?? [];
   const maxRows = Math.max(departureTimes.length, returnTimes.length);
 
-  const nextDepartureIdx = findNextDepartureIndex(departureTimes);
-  const nextReturnIdx = findNextDepartureIndex(returnTimes);
+  // Only today's timetable has past and next departures
+  const isRunningToday = selectedDay?.code === schedule.activeDayCode;
+  const nextDepartureIdx = isRunningToday ? findNextDepartureIndex(departureTimes) : -1;
+  const nextReturnIdx = isRunningToday ? findNextDepartureIndex(returnTimes) : -1;
 
   return (
     <Modal
@@ -85,7 +101,7 @@ export function ScheduleModal({
               <Text
                 style={[styles.scheduleType, { color: colors.textSecondary }]}
               >
-                1 / 3
+                {days.length > 0 ? `${selectedIndex + 1} / ${days.length}` : ""}
               </Text>
             </View>
 
@@ -94,6 +110,40 @@ export function ScheduleModal({
             </TouchableOpacity>
           </View>
 
+          {/* Day type tabs */}
+          {days.length > 1 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.dayTabsScroll}
+              contentContainerStyle={styles.dayTabs}
+            >
+              {days.map((day) => {
+                const isSelected = day.code === selectedDay?.code;
+                return (
+                  <TouchableOpacity
+                    key={day.code}
+                    style={[
+                      styles.dayTab,
+                      { borderColor: isSelected ? colors.accent : colors.border },
+                      isSelected && { backgroundColor: colors.accent },
+                    ]}
+                    onPress={() => setSelectedDayCode(day.code)}
+                  >
+                    <Text
+                      style={[
+                        styles.dayTabText,
+                        { color: isSelected ? "#fff" : colors.textSecondary },
+                      ]}
+                    >
+                      {localize(day.nameEn, day.name)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
           {/* Table Header */}
           <View
             style={[styles.tableHeader, { borderBottomColor: colors.border }]}
@@ -120,8 +170,8 @@ export function ScheduleModal({
               const retTime = returnTimes[i];
               const isDepNext = i === nextDepartureIdx;
               const isRetNext = i === nextReturnIdx;
-              const isDepPast = depTime && depTime < currentTime;
-              const isRetPast = retTime && retTime < currentTime;
+              const isDepPast = isRunningToday && depTime && depTime < currentTime;
+              const isRetPast = isRunningToday && retTime && retTime < currentTime;
 
               return (
                 <View
@@ -209,6 +259,24 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  dayTabsScroll: {
+    flexGrow: 0,
+  },
+  dayTabs: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  dayTab: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  dayTabText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
   tableHeader: {
     flexDirection: "row",
     paddingVertical: 12,
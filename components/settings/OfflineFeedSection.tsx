@@ -0,0 +1,231 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { getErrorMessage } from "@/components/ui/ErrorState";
+import { Colors } from "@/constants/theme";
+import { useCity } from "@/contexts/CityContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useTheme } from "@/contexts/ThemeContext";
+import { isTransitApiError } from "@/lib/errors";
+import {
+  GtfsImportError,
+  importGtfsFeed,
+  listStoredGtfsFeeds,
+  removeGtfsFeed,
+} from "@/lib/gtfs";
+
+/**
+ * Import (from a zip URL) or remove the current city's offline GTFS feed,
+ * which the city's provider falls back to without connectivity
+ */
+export function OfflineFeedSection() {
+  const { theme } = useTheme();
+  const { t } = useLanguage();
+  const { city } = useCity();
+  const colors = Colors[theme];
+
+  const [installed, setInstalled] = useState(false);
+  const [url, setUrl] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<AbortController | null>(null);
+
+  // Leaving the settings cancels a running download
+  useEffect(() => () => importRef.current?.abort(), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    listStoredGtfsFeeds()
+      .then((cities) => {
+        if (!cancelled) setInstalled(cities.includes(city));
+      })
+      .catch((e) => console.warn("Failed to list GTFS feeds:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [city]);
+
+  const handleImport = async () => {
+    const controller = new AbortController();
+    importRef.current = controller;
+    setBusy(true);
+    setImporting(true);
+    setError(null);
+    try {
+      await importGtfsFeed(city, url.trim(), { signal: controller.signal });
+      setInstalled(true);
+      setUrl("");
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if (e instanceof GtfsImportError) {
+        setError(e.message);
+      } else {
+        setError(getErrorMessage(isTransitApiError(e) ? e.kind : null, t));
+      }
+    } finally {
+      if (importRef.current === controller) importRef.current = null;
+      setBusy(false);
+      setImporting(false);
+    }
+  };
+
+  const handleCancel = () => importRef.current?.abort();
+
+  const handleRemove = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await removeGtfsFeed(city);
+      setInstalled(false);
+    } catch (e) {
+      console.warn("Failed to remove GTFS feed:", e);
+      setError(t.error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canImport = !busy && /^https?:\/\/\S+$/.test(url.trim());
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.accent }]}>
+        {t.offlineTimetables.toUpperCase()}
+      </Text>
+
+      <View style={styles.status}>
+        <Ionicons
+          name={installed ? "cloud-done-outline" : "cloud-offline-outline"}
+          size={18}
+          color={installed ? colors.accent : colors.textSecondary}
+        />
+        <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+          {installed ? t.offlineFeedInstalled : t.offlineFeedDescription}
+        </Text>
+      </View>
+
+      <View style={styles.row}>
+        <TextInput
+          style={[
+            styles.input,
+            { color: colors.text, backgroundColor: colors.card, borderColor: colors.border },
+          ]}
+          placeholder={t.offlineFeedUrlPlaceholder}
+          placeholderTextColor={colors.textSecondary}
+          value={url}
+          onChangeText={setUrl}
+          editable={!busy}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.accent, opacity: canImport ? 1 : 0.5 }]}
+          onPress={handleImport}
+          disabled={!canImport}
+        >
+          {busy ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>{t.importFeed}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {importing && (
+        <TouchableOpacity style={styles.removeButton} onPress={handleCancel}>
+          <Ionicons name="close-circle-outline" size={16} color={colors.textSecondary} />
+          <Text style={[styles.removeText, { color: colors.textSecondary }]}>
+            {t.cancelImport}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {installed && (
+        <TouchableOpacity style={styles.removeButton} onPress={handleRemove} disabled={busy}>
+          <Ionicons name="trash-outline" size={16} color={colors.textSecondary} />
+          <Text style={[styles.removeText, { color: colors.textSecondary }]}>
+            {t.removeFeed}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {error && (
+        <Text style={styles.error} numberOfLines={3}>
+          {error}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    letterSpacing: 1,
+    marginBottom: 12,
+  },
+  status: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 10,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    fontSize: 14,
+  },
+  button: {
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    minWidth: 80,
+  },
+  buttonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  removeButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    paddingVertical: 10,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  error: {
+    color: "#EF4444",
+    fontSize: 13,
+    marginTop: 8,
+  },
+});
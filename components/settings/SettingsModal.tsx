@@ -10,10 +10,12 @@ import {
   View,
 } from "react-native";
 
+import { OfflineFeedSection } from "@/components/settings/OfflineFeedSection";
 import { Colors } from "@/constants/theme";
 import { useCity } from "@/contexts/CityContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useTheme } from "@/contexts/ThemeContext";
+import { listProviders } from "@/lib/providers";
 
 interface SettingsModalProps {
   visible: boolean;
@@ -22,7 +24,7 @@ interface SettingsModalProps {
 
 export function SettingsModal({ visible, onClose }: SettingsModalProps) {
   const { theme, themeMode, setThemeMode } = useTheme();
-  const { language, setLanguage, t } = useLanguage();
+  const { language, setLanguage, t, localize } = useLanguage();
   const { city, setCity } = useCity();
   const colors = Colors[theme];
 
@@ -224,58 +226,47 @@ export function SettingsModal({ visible, onClose }: SettingsModalProps) {
               </Text>
 
               <View style={styles.languageContainer}>
-                <TouchableOpacity
-                  style={[
-                    styles.langButton,
-                    {
-                      backgroundColor:
-                        city === "athens" ? colors.accent : "transparent",
-                      borderColor:
-                        city === "athens" ? colors.accent : colors.border,
-                    },
-                  ]}
-                  onPress={() => setCity("athens")}
-                >
-                  <Text
-                    style={[
-                      styles.langText,
-                      { color: city === "athens" ? "#fff" : colors.text },
-                    ]}
-                  >
-                    {t.athens}
-                  </Text>
-                  {city === "athens" && (
-                    <Ionicons name="checkmark-circle" size={18} color="#fff" />
-                  )}
-                </TouchableOpacity>
-
-                <TouchableOpacity
-                  style={[
-                    styles.langButton,
-                    {
-                      backgroundColor:
-                        city === "thessaloniki" ? colors.accent : "transparent",
-                      borderColor:
-                        city === "thessaloniki" ? colors.accent : colors.border,
-                    },
-                  ]}
-                  onPress={() => setCity("thessaloniki")}
-                >
-                  <Text
-                    style={[
-                      styles.langText,
-                      { color: city === "thessaloniki" ? "#fff" : colors.text },
-                    ]}
-                  >
-                    {t.thessaloniki}
-                  </Text>
-                  {city === "thessaloniki" && (
-                    <Ionicons name="checkmark-circle" size={18} color="#fff" />
-                  )}
-                </TouchableOpacity>
+                {listProviders().map((provider) => {
+                  const isSelected = city === provider.id;
+                  return (
+                    <TouchableOpacity
+                      key={provider.id}
+                      style={[
+                        styles.langButton,
+                        {
+                          backgroundColor: isSelected
+                            ? colors.accent
+                            : "transparent",
+                          borderColor: isSelected
+                            ? colors.accent
+                            : colors.border,
+                        },
+                      ]}
+                      onPress={() => setCity(provider.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.langText,
+                          { color: isSelected ? "#fff" : colors.text },
+                        ]}
+                      >
+                        {localize(provider.config.nameEn, provider.config.nameEl)}
+                      </Text>
+                      {isSelected && (
+                        <Ionicons
+                          name="checkmark-circle"
+                          size={18}
+                          color="#fff"
+                        />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
             </View>
 
+            <OfflineFeedSection />
+
             {/* About Section */}
             <View style={styles.section}>
               <Text style={[styles.sectionTitle, { color: colors.accent }]}>
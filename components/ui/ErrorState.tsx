@@ -0,0 +1,124 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { Colors } from "@/constants/theme";
+import { useLanguage, type Translations } from "@/contexts/LanguageContext";
+import { useTheme } from "@/contexts/ThemeContext";
+import { isTransitApiError, type TransitErrorKind } from "@/lib/errors";
+
+interface ErrorStateProps {
+  error: unknown;
+  onRetry?: () => void;
+  /** Smaller inline variant for use inside cards and sheets */
+  compact?: boolean;
+}
+
+const ERROR_ICONS: Record<TransitErrorKind, keyof typeof Ionicons.glyphMap> = {
+  network: "cloud-offline-outline",
+  timeout: "hourglass-outline",
+  http: "server-outline",
+  decode: "bug-outline",
+  empty: "file-tray-outline",
+  unsupported: "construct-outline",
+  circuitOpen: "pause-circle-outline",
+};
+
+/**
+ * Message for an error kind (null for errors that are not TransitApiErrors)
+ */
+export function getErrorMessage(kind: TransitErrorKind | null, t: Translations): string {
+  switch (kind) {
+    case "network":
+      return t.errorNetwork;
+    case "timeout":
+      return t.errorTimeout;
+    case "http":
+      return t.errorServer;
+    case "decode":
+      return t.errorDecode;
+    case "empty":
+      return t.errorEmpty;
+    case "unsupported":
+      return t.errorUnsupported;
+    case "circuitOpen":
+      return t.errorPaused;
+    default:
+      return t.error;
+  }
+}
+
+/**
+ * Renders a distinct message per TransitApiError kind, with an optional retry
+ */
+export function ErrorState({ error, onRetry, compact = false }: ErrorStateProps) {
+  const { theme: colorScheme } = useTheme();
+  const { t } = useLanguage();
+  const colors = Colors[colorScheme];
+
+  const kind = isTransitApiError(error) ? error.kind : null;
+  const icon = kind ? ERROR_ICONS[kind] : "alert-circle-outline";
+
+  return (
+    <View style={[styles.container, compact && styles.containerCompact]}>
+      <Ionicons
+        name={icon}
+        size={compact ? 24 : 48}
+        color={colors.textSecondary}
+      />
+      <Text
+        style={[
+          styles.message,
+          compact && styles.messageCompact,
+          { color: colors.textSecondary },
+        ]}
+      >
+        {getErrorMessage(kind, t)}
+      </Text>
+      {onRetry && kind !== "unsupported" && kind !== "circuitOpen" && (
+        <TouchableOpacity
+          style={[styles.retryButton, { borderColor: colors.accent }]}
+          onPress={onRetry}
+        >
+          <Ionicons name="refresh" size={16} color={colors.accent} />
+          <Text style={[styles.retryText, { color: colors.accent }]}>
+            {t.retry}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    paddingVertical: 40,
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  containerCompact: {
+    paddingVertical: 12,
+    gap: 8,
+  },
+  message: {
+    fontSize: 16,
+    textAlign: "center",
+  },
+  messageCompact: {
+    fontSize: 13,
+  },
+  retryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,35 @@
+import React from "react";
+import { Text, type StyleProp, type TextStyle } from "react-native";
+
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useVehicleFreshness } from "@/lib/queries";
+import { positionAgeMs } from "@/lib/vehicle-freshness";
+
+interface ReportAgeProps {
+  /** Time of the vehicle's last position report; renders nothing without one */
+  reportedAt: Date | null;
+  style?: StyleProp<TextStyle>;
+}
+
+/**
+ * How long ago a vehicle reported its position, e.g. "45s ago" or "3 min ago"
+ * Corrected for the feed's clock and computed on render, so it follows the
+ * location polling
+ */
+export function ReportAge({ reportedAt, style }: ReportAgeProps) {
+  const { t } = useLanguage();
+  const freshness = useVehicleFreshness();
+  const age = positionAgeMs(freshness, reportedAt);
+  if (age === null) return null;
+
+  const seconds = Math.round(age / 1000);
+  const text = seconds < 60
+    ? t.reportedSecondsAgo.replace("{count}", String(seconds))
+    : t.reportedMinutesAgo.replace("{count}", String(Math.floor(seconds / 60)));
+
+  return (
+    <Text style={style} numberOfLines={1}>
+      {text}
+    </Text>
+  );
+}
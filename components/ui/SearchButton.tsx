@@ -0,0 +1,39 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React from "react";
+import { StyleSheet, TouchableOpacity, type StyleProp, type ViewStyle } from "react-native";
+
+import { Colors } from "@/constants/theme";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useTheme } from "@/contexts/ThemeContext";
+
+interface SearchButtonProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Header button opening the universal search screen
+ */
+export function SearchButton({ style }: SearchButtonProps) {
+  const router = useRouter();
+  const { theme: colorScheme } = useTheme();
+  const { t } = useLanguage();
+  const colors = Colors[colorScheme];
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, { backgroundColor: colors.card }, style]}
+      onPress={() => router.push("/search")}
+      accessibilityLabel={t.search}
+    >
+      <Ionicons name="search" size={20} color={colors.text} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 8,
+    borderRadius: 20,
+  },
+});
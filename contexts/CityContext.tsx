@@ -1,32 +1,19 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import React, { createContext, useContext, useEffect, useState } from "react";
 
-export type City = "athens" | "thessaloniki";
+import {
+  hasProvider,
+  listProviders,
+  type City,
+  type CityConfig,
+} from "@/lib/providers";
 
-export interface CityConfig {
-  id: City;
-  nameEn: string;
-  nameEl: string;
-  center: { lat: number; lng: number };
-  hasTicketScanner: boolean;  // Only Athens has NFC ticket scanning
-}
+export type { City, CityConfig } from "@/lib/providers";
 
-export const CITY_CONFIGS: Record<City, CityConfig> = {
-  athens: {
-    id: "athens",
-    nameEn: "Athens",
-    nameEl: "Αθήνα",
-    center: { lat: 37.9838, lng: 23.7275 },
-    hasTicketScanner: true,
-  },
-  thessaloniki: {
-    id: "thessaloniki",
-    nameEn: "Thessaloniki",
-    nameEl: "Θεσσαλονίκη",
-    center: { lat: 40.6401, lng: 22.9444 },
-    hasTicketScanner: false,  // OASTH uses different ticket system
-  },
-};
+// City configs come from the registered transit providers
+export const CITY_CONFIGS: Record<City, CityConfig> = Object.fromEntries(
+  listProviders().map((provider) => [provider.id, provider.config]),
+);
 
 interface CityContextType {
   city: City;
@@ -48,8 +35,8 @@ export function CityProvider({ children }: { children: React.ReactNode }) {
     const loadCity = async () => {
       try {
         const saved = await AsyncStorage.getItem(CITY_STORAGE_KEY);
-        if (saved && ["athens", "thessaloniki"].includes(saved)) {
-          setCityState(saved as City);
+        if (saved && hasProvider(saved)) {
+          setCityState(saved);
         }
       } catch (e) {
         console.warn("Failed to load city preference:", e);
@@ -17,6 +17,13 @@ export interface Translations {
   noData: string;
   error: string;
   retry: string;
+  errorNetwork: string;
+  errorTimeout: string;
+  errorServer: string;
+  errorDecode: string;
+  errorEmpty: string;
+  errorUnsupported: string;
+  errorPaused: string;
   close: string;
   back: string;
   tapForSchedule: string;
@@ -30,6 +37,8 @@ export interface Translations {
   arriving: string;
   now: string;
   alsoIn: string;
+  holidayService: string;
+  specialService: string;
   busesComingFormat: string;
   kmAway: string;
   busLinesAtStop: string;
@@ -48,7 +57,33 @@ export interface Translations {
   viewFullSchedule: string;
   viewLineDetails: string;
   noStopsFound: string;
+  routeStopsUnavailable: string;
   loadingSchedule: string;
+  showOnMap: string;
+  switchDirection: string;
+  clearRoute: string;
+  liveVehiclesFormat: string;
+  reportedSecondsAgo: string;
+  reportedMinutesAgo: string;
+
+  // Search
+  search: string;
+  searchPlaceholder: string;
+  noSearchResults: string;
+  searchIndexing: string;
+  street: string;
+
+  // Vehicle tracking
+  trackBus: string;
+  busNumberFormat: string;
+  vehicleSearching: string;
+  vehicleLive: string;
+  vehicleNotReporting: string;
+  vehicleLost: string;
+  remainingStops: string;
+  yourStop: string;
+  followBus: string;
+  arrivalUnreliable: string;
 
   // Favorites
   noFavoritesYet: string;
@@ -69,6 +104,13 @@ export interface Translations {
   developedBy: string;
   version: string;
   viewOnGithub: string;
+  offlineTimetables: string;
+  offlineFeedDescription: string;
+  offlineFeedInstalled: string;
+  offlineFeedUrlPlaceholder: string;
+  importFeed: string;
+  cancelImport: string;
+  removeFeed: string;
 
   // Ticket Scanner
   scanTicket: string;
@@ -128,6 +170,13 @@ const translations: Record<Language, Translations> = {
     comingSoon: "Coming Soon",
     thessalonikiComingSoon: "Thessaloniki support is coming soon! Switch back to Athens for now.",
     retry: "Retry",
+    errorNetwork: "No connection. Check your internet and try again.",
+    errorTimeout: "The server is taking too long to respond.",
+    errorServer: "The transit server is having problems right now.",
+    errorDecode: "Received data we could not read.",
+    errorEmpty: "The transit server returned no data.",
+    errorUnsupported: "Not available for this city yet.",
+    errorPaused: "Live updates are paused after repeated failures. Retrying shortly.",
     close: "Close",
     back: "Back",
     tapForSchedule: "Tap for schedule",
@@ -141,6 +190,8 @@ const translations: Record<Language, Translations> = {
     arriving: "Arriving",
     now: "Now",
     alsoIn: "also in",
+    holidayService: "Holiday service",
+    specialService: "Special service",
     busesComingFormat: "{count} bus{plural} coming",
     kmAway: "km away",
     busLinesAtStop: "Bus lines at this stop",
@@ -159,7 +210,33 @@ const translations: Record<Language, Translations> = {
     viewFullSchedule: "View Full Schedule",
     viewLineDetails: "View Line Details",
     noStopsFound: "No stops found.",
+    routeStopsUnavailable: "Stop lists are not available for this city yet.",
     loadingSchedule: "Loading schedule...",
+    showOnMap: "Show on Map",
+    switchDirection: "Switch direction",
+    clearRoute: "Hide route",
+    liveVehiclesFormat: "{count} live",
+    reportedSecondsAgo: "{count}s ago",
+    reportedMinutesAgo: "{count} min ago",
+
+    // Search
+    search: "Search",
+    searchPlaceholder: "Lines, stops or streets...",
+    noSearchResults: "No results found",
+    searchIndexing: "Loading all stops, results may be incomplete...",
+    street: "Street",
+
+    // Vehicle tracking
+    trackBus: "Track this bus",
+    busNumberFormat: "Bus #{number}",
+    vehicleSearching: "Looking for this bus…",
+    vehicleLive: "Live position",
+    vehicleNotReporting: "Not reporting its position",
+    vehicleLost: "This bus is no longer in the live feed",
+    remainingStops: "Remaining stops",
+    yourStop: "Your stop",
+    followBus: "Follow bus",
+    arrivalUnreliable: "This bus may not arrive",
 
     // Favorites
     noFavoritesYet: "No favorites yet",
@@ -181,6 +258,13 @@ const translations: Record<Language, Translations> = {
     developedBy: "Developed by",
     version: "Version",
     viewOnGithub: "View on GitHub",
+    offlineTimetables: "Offline timetables",
+    offlineFeedDescription: "Import the operator's GTFS feed to keep lines, stops and timetables without a connection",
+    offlineFeedInstalled: "Offline feed installed - used when the live service is unreachable",
+    offlineFeedUrlPlaceholder: "GTFS zip URL",
+    importFeed: "Import",
+    cancelImport: "Cancel",
+    removeFeed: "Remove offline feed",
 
     // Ticket Scanner
     scanTicket: "Scan Your Ticket",
@@ -239,6 +323,13 @@ const translations: Record<Language, Translations> = {
     comingSoon: "Σύντομα Διαθέσιμο",
     thessalonikiComingSoon: "Η υποστήριξη της Θεσσαλονίκης έρχεται σύντομα! Επιλέξτε Αθήνα προς το παρόν.",
     retry: "Επανάληψη",
+    errorNetwork: "Δεν υπάρχει σύνδεση. Ελέγξτε το διαδίκτυο και δοκιμάστε ξανά.",
+    errorTimeout: "Ο διακομιστής αργεί να απαντήσει.",
+    errorServer: "Ο διακομιστής συγκοινωνιών αντιμετωπίζει πρόβλημα αυτή τη στιγμή.",
+    errorDecode: "Λάβαμε δεδομένα που δεν μπορούν να διαβαστούν.",
+    errorEmpty: "Ο διακομιστής συγκοινωνιών δεν επέστρεψε δεδομένα.",
+    errorUnsupported: "Δεν είναι ακόμα διαθέσιμο για αυτή την πόλη.",
+    errorPaused: "Οι ζωντανές ενημερώσεις διακόπηκαν λόγω επαναλαμβανόμενων σφαλμάτων. Νέα προσπάθεια σύντομα.",
     close: "Κλείσιμο",
     back: "Πίσω",
     tapForSchedule: "Πατήστε για πρόγραμμα",
@@ -252,6 +343,8 @@ const translations: Record<Language, Translations> = {
     arriving: "Έρχεται",
     now: "Τώρα",
     alsoIn: "επίσης σε",
+    holidayService: "Πρόγραμμα αργίας",
+    specialService: "Έκτακτο πρόγραμμα",
     busesComingFormat: "{count} λεωφορεί{plural} έρχ{plural2}",
     kmAway: "χλμ μακριά",
     busLinesAtStop: "Γραμμές σε αυτή τη στάση",
@@ -270,7 +363,33 @@ const translations: Record<Language, Translations> = {
     viewFullSchedule: "Δείτε το Πλήρες Πρόγραμμα",
     viewLineDetails: "Δείτε Λεπτομέρειες Γραμμής",
     noStopsFound: "Δεν βρέθηκαν στάσεις.",
+    routeStopsUnavailable: "Οι λίστες στάσεων δεν είναι ακόμα διαθέσιμες για αυτή την πόλη.",
     loadingSchedule: "Φόρτωση προγράμματος...",
+    showOnMap: "Εμφάνιση στον Χάρτη",
+    switchDirection: "Αλλαγή κατεύθυνσης",
+    clearRoute: "Απόκρυψη διαδρομής",
+    liveVehiclesFormat: "{count} σε κίνηση",
+    reportedSecondsAgo: "πριν {count}δ",
+    reportedMinutesAgo: "πριν {count} λεπ.",
+
+    // Search
+    search: "Αναζήτηση",
+    searchPlaceholder: "Γραμμές, στάσεις ή οδοί...",
+    noSearchResults: "Δεν βρέθηκαν αποτελέσματα",
+    searchIndexing: "Φόρτωση όλων των στάσεων, τα αποτελέσματα μπορεί να είναι ελλιπή...",
+    street: "Οδός",
+
+    // Vehicle tracking
+    trackBus: "Παρακολούθηση λεωφορείου",
+    busNumberFormat: "Λεωφορείο #{number}",
+    vehicleSearching: "Αναζήτηση λεωφορείου…",
+    vehicleLive: "Ζωντανή θέση",
+    vehicleNotReporting: "Δεν αναφέρει τη θέση του",
+    vehicleLost: "Το λεωφορείο δεν εμφανίζεται πλέον στα ζωντανά δεδομένα",
+    remainingStops: "Επόμενες στάσεις",
+    yourStop: "Η στάση σας",
+    followBus: "Ακολούθηση λεωφορείου",
+    arrivalUnreliable: "Αυτό το λεωφορείο ίσως δεν έρθει",
 
     // Favorites
     noFavoritesYet: "Δεν έχετε αγαπημένα ακόμα",
@@ -292,6 +411,13 @@ const translations: Record<Language, Translations> = {
     developedBy: "Ανάπτυξη από",
     version: "Έκδοση",
     viewOnGithub: "Δείτε στο GitHub",
+    offlineTimetables: "Δρομολόγια εκτός σύνδεσης",
+    offlineFeedDescription: "Εισάγετε το GTFS του φορέα για γραμμές, στάσεις και δρομολόγια χωρίς σύνδεση",
+    offlineFeedInstalled: "Τα δεδομένα εκτός σύνδεσης είναι εγκατεστημένα - χρησιμοποιούνται όταν η ζωντανή υπηρεσία δεν απαντά",
+    offlineFeedUrlPlaceholder: "URL αρχείου GTFS (zip)",
+    importFeed: "Εισαγωγή",
+    cancelImport: "Ακύρωση",
+    removeFeed: "Αφαίρεση δεδομένων εκτός σύνδεσης",
 
     // Ticket Scanner
     scanTicket: "Σαρώστε το Εισιτήριο",
@@ -0,0 +1,41 @@
+import { getServiceDay, setServiceDayOverrides, toGreekDate } from '../calendar';
+import { pickActiveDay } from '../schedule';
+import type { DaySchedule } from '../types';
+
+// A visitor's phone, hours behind Athens
+process.env.TZ = 'America/New_York';
+
+const day = (code: string, nameEn: string, dayType: DaySchedule['dayType']): DaySchedule =>
+  ({ code, name: '', nameEn, dayType, departure: [], return: [] });
+
+describe('service days', () => {
+  afterEach(() => setServiceDayOverrides([]));
+
+  it('follow the date in Athens rather than on the device', () => {
+    // Monday evening in New York, Independence Day in Athens
+    const instant = new Date('2025-03-24T22:30:00Z');
+    expect(instant.getDate()).toBe(24);
+
+    expect(toGreekDate(instant)).toEqual({ key: '2025-03-25', year: 2025, month: 3, day: 25, weekday: 2 });
+    const serviceDay = getServiceDay(instant);
+    expect(serviceDay.date).toBe('2025-03-25');
+    expect(serviceDay.holiday?.nameEn).toBe('Independence Day');
+    expect(serviceDay.dayType).toBe('sunday');
+  });
+
+  it('match overrides on the date in Athens', () => {
+    setServiceDayOverrides([{ date: '2025-06-06', dayType: 'saturday' }]);
+    expect(getServiceDay(new Date('2025-06-05T21:30:00Z')).dayType).toBe('saturday');
+  });
+
+  it('pick the timetable of the weekday in Athens', () => {
+    const days = [
+      day('54', 'MONDAY - THURSDAY', 'weekday'),
+      day('55', 'FRIDAY', 'weekday'),
+      day('56', 'SATURDAY', 'saturday'),
+      day('57', 'SUNDAY - HOLIDAYS', 'sunday'),
+    ];
+    // Thursday evening in New York, Friday in Athens
+    expect(pickActiveDay(days, new Date('2025-03-06T22:30:00Z'))).toBe('55');
+  });
+});
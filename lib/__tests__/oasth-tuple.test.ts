@@ -0,0 +1,112 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { TupleParseError, parseTupleRows, parseTupleValues } from '../oasth-tuple';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '../../fixtures/oasth', name), 'utf8');
+}
+
+function parseError(text: string): TupleParseError {
+  try {
+    parseTupleRows(text);
+  } catch (e) {
+    if (e instanceof TupleParseError) return e;
+    throw e;
+  }
+  throw new Error(`Expected ${JSON.stringify(text)} to fail`);
+}
+
+describe('fixtures', () => {
+  it('parses getStopsB', () => {
+    const rows = parseTupleRows(fixture('getStopsB.txt'));
+    expect(rows).toHaveLength(6);
+    expect(rows[0]).toEqual([1001, '01219', 'ΚΑΜΑΡΑ', 'KAMARA', 'ΕΓΝΑΤΙΑΣ', 'EGNATIAS', 1, 22.951565, 40.632507]);
+    expect(rows[2][4]).toBeNull();
+    expect(rows[3][2]).toBe('ΠΛΑΤΕΙΑ "ΑΡΙΣΤΟΤΕΛΟΥΣ"');
+    expect(rows[3][3]).toBe("Aristotelous 'Square'");
+    expect(rows[5][4]).toBe('');
+  });
+
+  it('parses getLines', () => {
+    const rows = parseTupleRows(fixture('getLines.txt'));
+    expect(rows.map(row => row[1])).toEqual(['01', '01X', '02K', '10']);
+    expect(rows[1][2]).toBe('ΣΙΔ. ΣΤΑΘΜΟΣ - ΑΕΡΟΔΡΟΜΙΟ (ΜΕΣΩ ΚΤΕΛ)');
+    expect(rows[2][3]).toBeNull();
+  });
+
+  it('parses getRoutes', () => {
+    const rows = parseTupleRows(fixture('getRoutes.txt'));
+    expect(rows).toHaveLength(7);
+    expect(rows.map(row => row[1])).toEqual([101, 102, 311, 312, 471, 881, 882]);
+    expect(rows[4][3]).toBe('');
+  });
+
+  it('parses getBusLocation', () => {
+    const rows = parseTupleRows(fixture('getBusLocation.txt'));
+    expect(rows).toEqual([
+      ['1532', '2024-03-25 20:36:21', 40.632801, 22.950127],
+      ['1718', '2024-03-25 20:36:05', 40.598214, 22.961409],
+      ['2044', null, 40.566012, 22.973896],
+    ]);
+  });
+
+  it('parses getRouteDetailPerRoute', () => {
+    const rows = parseTupleRows(fixture('getRouteDetailPerRoute.txt'));
+    expect(rows).toHaveLength(5);
+    expect(rows[0]).toEqual([22.930471, 40.644115]);
+  });
+});
+
+describe('parseTupleRows', () => {
+  it('returns no rows for empty payloads', () => {
+    expect(parseTupleRows('')).toEqual([]);
+    expect(parseTupleRows('[]')).toEqual([]);
+    expect(parseTupleRows(' [ ] ')).toEqual([]);
+  });
+
+  it('accepts bare tuples', () => {
+    expect(parseTupleRows('(1, "a"), (2, "b")')).toEqual([[1, 'a'], [2, 'b']]);
+  });
+
+  it('rejects values that are not tuples', () => {
+    expect(parseError('(1, 2), 3').position).toBe(8);
+  });
+});
+
+describe('strings', () => {
+  it('unescapes quotes', () => {
+    expect(parseTupleValues(String.raw`"Say \"hi\"", 'it\'s', "mixed 'quotes'"`))
+      .toEqual(['Say "hi"', "it's", "mixed 'quotes'"]);
+  });
+
+  it('decodes prefixes and hex escapes', () => {
+    expect(parseTupleValues(String.raw`u'Α', b'\x41'`)).toEqual(['Α', 'A']);
+  });
+});
+
+describe('errors', () => {
+  it('reports an unterminated string at its opening quote', () => {
+    const error = parseError('(1, "abc');
+    expect(error.message).toMatch(/^Unterminated string/);
+    expect(error.position).toBe(4);
+  });
+
+  it('does not end a string at an escaped quote', () => {
+    const error = parseError(String.raw`(1, "abc\")`);
+    expect(error.message).toMatch(/^Unterminated string/);
+    expect(error.position).toBe(4);
+  });
+
+  it('reports a stray closing parenthesis', () => {
+    const error = parseError('(1, 2))');
+    expect(error.message).toMatch(/^Unexpected character "\)"/);
+    expect(error.position).toBe(6);
+  });
+
+  it('reports line and column', () => {
+    const error = parseError('(1, 2),\n(3, 4))');
+    expect(error.line).toBe(2);
+    expect(error.column).toBe(7);
+  });
+});
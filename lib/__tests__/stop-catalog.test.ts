@@ -0,0 +1,82 @@
+import { NetworkError } from '../errors';
+import { getStopCatalogState, refreshStopCatalog, subscribeStopCatalog, type StopCatalog } from '../stop-catalog';
+
+const mockSaved = new Map<string, unknown>();
+jest.mock('../storage', () => ({
+  getLargeItem: async (key: string) => mockSaved.get(key) ?? null,
+  setLargeItem: async (key: string, value: unknown) => {
+    mockSaved.set(key, JSON.parse(JSON.stringify(value)));
+  },
+}));
+
+const mockFailing = new Set<string>();
+jest.mock('../unified-api', () => ({
+  getLines: async () => ['1', '2', '3'].map(code => ({ code, lineId: code, name: '', nameEn: '' })),
+  getRoutesForLine: async (_city: string, lineCode: string) => {
+    if (mockFailing.has(lineCode)) {
+      const { NetworkError: Failure } = jest.requireActual('../errors');
+      throw new Failure({ operator: 'OASA', endpoint: 'getRoutesForLine' });
+    }
+    return [{ code: `r${lineCode}`, lineCode, name: '', nameEn: '', direction: 'outbound', distanceMeters: null }];
+  },
+  getStops: async (_city: string, routeCode: string) => [
+    { code: `s${routeCode}`, name: '', nameEn: '', lat: 37.9, lng: 23.7 },
+  ],
+}));
+
+/**
+ * Catalog as saved by an earlier refresh of every line
+ */
+function savedCatalog(city: StopCatalog['city'], fetchedAt: number): StopCatalog {
+  const codes = ['1', '2', '3'];
+  return {
+    city,
+    updatedAt: fetchedAt,
+    complete: true,
+    stops: Object.fromEntries(codes.map(code => [`sr${code}`, {
+      code: `sr${code}`, id: `sr${code}`, name: '', nameEn: '', street: null, streetEn: null, heading: null,
+      lat: 37.9, lng: 23.7,
+      routes: [{ routeCode: `r${code}`, lineCode: code, lineId: code, direction: 'outbound' }],
+    }])),
+    lines: Object.fromEntries(codes.map(code => [code, { fetchedAt, stopCodes: [`sr${code}`] }])),
+  };
+}
+
+beforeEach(() => {
+  mockSaved.clear();
+  mockFailing.clear();
+});
+
+describe('refreshStopCatalog', () => {
+  it('publishes a new catalog only when saving', async () => {
+    // Catalogs seen alongside each progress tick
+    const duringProgress = new Set<StopCatalog>();
+    const unsubscribe = subscribeStopCatalog('athens', () => {
+      const state = getStopCatalogState('athens');
+      if (state.progress) duringProgress.add(state.catalog);
+    });
+
+    const catalog = await refreshStopCatalog('athens');
+    unsubscribe();
+
+    expect(catalog.complete).toBe(true);
+    expect(Object.keys(catalog.stops).sort()).toEqual(['sr1', 'sr2', 'sr3']);
+    // The catalog loaded from storage for every tick, then the final save
+    expect(duringProgress.size).toBe(2);
+    expect(duringProgress.has(catalog)).toBe(true);
+    expect(getStopCatalogState('athens').catalog).toBe(catalog);
+  });
+
+  it('stays complete when a line already in the catalog fails to refresh', async () => {
+    const saved = savedCatalog('thessaloniki', Date.now());
+    saved.lines['2'].fetchedAt = 0;
+    mockSaved.set('@stop_catalog:thessaloniki', saved);
+    mockFailing.add('2');
+
+    const catalog = await refreshStopCatalog('thessaloniki');
+
+    expect(getStopCatalogState('thessaloniki').error).toBeInstanceOf(NetworkError);
+    expect(catalog.complete).toBe(true);
+    expect(catalog.stops.sr2).toBeDefined();
+  });
+});
@@ -0,0 +1,17 @@
+import { DecodeError } from '../errors';
+import { mapRows, requireString } from '../validation';
+
+const CONTEXT = { operator: 'OASA', entity: 'line' };
+
+describe('mapRows', () => {
+  it('drops rows the mapper rejects', () => {
+    const rows = [{ code: '1' }, { code: '' }];
+    expect(mapRows(rows, row => requireString(row.code, 'code'), CONTEXT)).toEqual(['1']);
+  });
+
+  it('raises DecodeError for payloads that are not lists', () => {
+    const error = { error: 'Internal error' } as unknown as unknown[];
+    expect(() => mapRows(error, row => row, CONTEXT)).toThrow(DecodeError);
+    expect(() => mapRows(null as unknown as unknown[], row => row, CONTEXT)).toThrow(DecodeError);
+  });
+});
@@ -0,0 +1,64 @@
+import { arrivalReliability, getFreshnessState, observeVehicleLocations, vehicleFreshness } from '../vehicle-freshness';
+import type { BusLocation, StopArrival } from '../types';
+
+const T0 = Date.UTC(2025, 5, 2, 9, 0);
+const MINUTE = 60 * 1000;
+
+const bus = (vehicleNo: string, reportedAt: number, lat = 37.98): BusLocation =>
+  ({ vehicleNo, routeCode: 'r1', lat, lng: 23.72, reportedAt: new Date(reportedAt) });
+
+const arrival = (routeCode: string, vehicleCode: string): StopArrival =>
+  ({ routeCode, vehicleCode, minutes: 5, expectedAt: new Date(T0 + 5 * MINUTE) });
+
+describe('clock offset', () => {
+  it('leaves a route whose only bus went quiet as a ghost', () => {
+    const quiet = bus('100', T0 - 40 * MINUTE);
+    observeVehicleLocations('athens', 'r1', [quiet], T0);
+    observeVehicleLocations('athens', 'r1', [quiet], T0 + 10_000);
+
+    const state = getFreshnessState('athens');
+    expect(state.clockOffsetMs).toBe(0);
+    expect(vehicleFreshness(state, quiet, T0 + 10_000)).toBe('ghost');
+  });
+
+  it('corrects drift once several reporting vehicles agree', () => {
+    const behind = 5 * MINUTE;
+    const poll = (at: number, vehicleNos: string[]) =>
+      observeVehicleLocations('thessaloniki', 'r1', vehicleNos.map(no => bus(no, at - behind)), at);
+
+    poll(T0, ['1', '2']);
+    poll(T0 + 10_000, ['1', '2']);
+    expect(getFreshnessState('thessaloniki').clockOffsetMs).toBe(0);
+
+    poll(T0 + 20_000, ['1', '2', '3']);
+    poll(T0 + 30_000, ['1', '2', '3']);
+    expect(getFreshnessState('thessaloniki').clockOffsetMs).toBe(behind);
+  });
+});
+
+describe('arrivalReliability', () => {
+  const city = 'athens';
+
+  it('trusts a bus missing from a single poll', () => {
+    observeVehicleLocations(city, 'r2', [bus('200', T0)], T0);
+    observeVehicleLocations(city, 'r2', [], T0 + 10_000);
+
+    expect(arrivalReliability(getFreshnessState(city), arrival('r2', '200'), T0 + 15_000)).toBe('reliable');
+  });
+
+  it('trusts a bus seen on another route meanwhile', () => {
+    observeVehicleLocations(city, 'r3', [], T0);
+    observeVehicleLocations(city, 'r3', [], T0 + 2 * MINUTE);
+    observeVehicleLocations(city, 'r4', [bus('300', T0 + 3 * MINUTE)], T0 + 3 * MINUTE);
+    observeVehicleLocations(city, 'r3', [], T0 + 4 * MINUTE);
+
+    expect(arrivalReliability(getFreshnessState(city), arrival('r3', '300'), T0 + 4 * MINUTE)).toBe('reliable');
+  });
+
+  it('distrusts a bus missing across several polls', () => {
+    observeVehicleLocations(city, 'r5', [bus('500', T0)], T0);
+    [1, 2, 3].forEach(minute => observeVehicleLocations(city, 'r5', [], T0 + minute * MINUTE));
+
+    expect(arrivalReliability(getFreshnessState(city), arrival('r5', '500'), T0 + 3 * MINUTE)).toBe('unreliable');
+  });
+});
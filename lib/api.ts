@@ -1,16 +1,69 @@
 /**
  * OASA Telematics API Client
  * Handles all API calls with proper UTF-8 encoding for Greek text
+ * and maps raw payloads (lib/oasa-types.ts) into the normalized model
  */
 
-import type { BusLocation, Line, Route, RoutePoint, Stop, StopArrival } from './types';
+import { fromGreekTime } from './calendar';
+import { DecodeError, UpstreamEmptyError } from './errors';
+import { DEFAULT_POLICY, LIVE_POLICY, fetchBytes, resolveBaseUrl, type EndpointPolicy, type RequestOptions } from './http';
+import { distanceMeters } from './geo';
+import type {
+  OasaBusLocation,
+  OasaLine,
+  OasaRoute,
+  OasaRoutePoint,
+  OasaStop,
+  OasaStopArrival,
+  OasaStopRoute,
+  SchedLinesResponse,
+  ScheduleDay,
+} from './oasa-types';
+import { buildLineSchedule } from './schedule';
+import type {
+  BusLocation,
+  Direction,
+  Line,
+  LineScheduleResult,
+  Route,
+  RoutePoint,
+  Stop,
+  StopArrival,
+  StopRoute,
+} from './types';
+import {
+  mapRows,
+  optionalString,
+  parseNumber,
+  requireCoordinates,
+  requireNumber,
+  requireString,
+} from './validation';
 
-const BASE_URL = 'http://telematics.oasa.gr/api/';
+const BASE_URL = resolveBaseUrl('http://telematics.oasa.gr/api/', 'oasa');
+const OPERATOR = 'OASA';
+
+// Per-endpoint overrides of DEFAULT_POLICY
+const ENDPOINT_POLICIES: Record<string, EndpointPolicy> = {
+  webGetLines: { timeoutMs: 20000, retries: 2 },
+  getBusLocation: LIVE_POLICY,
+  getStopArrivals: LIVE_POLICY,
+};
+
+interface FetchOptions extends RequestOptions {
+  /** Throw UpstreamEmptyError instead of returning [] on an empty body */
+  required?: boolean;
+}
 
 /**
  * Fetch with UTF-8 decoding to handle Greek text properly
+ * Raises TransitApiError subclasses on failure
  */
-async function fetchAPI<T>(action: string, params: Record<string, string> = {}): Promise<T> {
+async function fetchAPI<T>(
+  action: string,
+  params: Record<string, string> = {},
+  options: FetchOptions = {}
+): Promise<T> {
   const url = new URL(BASE_URL);
   url.searchParams.set('act', action);
   
@@ -18,224 +71,268 @@ async function fetchAPI<T>(action: string, params: Record<string, string> = {}):
     url.searchParams.set(key, value);
   });
 
-  const response = await fetch(url.toString(), {
-    method: 'POST',
-    headers: {
-      'Accept': 'application/json',
-      'Accept-Charset': 'utf-8',
+  const errorContext = { operator: OPERATOR, endpoint: action };
+
+  const buffer = await fetchBytes({
+    url: url.toString(),
+    init: {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Accept-Charset': 'utf-8',
+      },
     },
+    ...errorContext,
+    policy: ENDPOINT_POLICIES[action] ?? DEFAULT_POLICY,
+    signal: options.signal,
   });
 
-  if (!response.ok) {
-    throw new Error(`API Error: ${response.status} ${response.statusText}`);
-  }
-
   // Ensure proper UTF-8 decoding
-  const text = await response.text();
+  const text = new TextDecoder('utf-8').decode(buffer);
   
-  // Handle empty responses
+  // Handle empty responses ("null" means no data, e.g. no buses right now)
   if (!text || text === 'null') {
+    if (options.required) {
+      throw new UpstreamEmptyError(errorContext);
+    }
     return [] as unknown as T;
   }
 
   try {
     return JSON.parse(text) as T;
   } catch (e) {
-    console.error('Failed to parse API response:', text);
-    throw new Error('Failed to parse API response');
+    throw new DecodeError(text, { ...errorContext, cause: e });
   }
 }
 
+// =============================================================================
+// Mappers: raw OASA payloads -> normalized model
+// =============================================================================
+
+const ENTITY = (entity: string) => ({ operator: OPERATOR, entity });
+
+/**
+ * "2" marks the return (come) direction, everything else is outbound
+ */
+function toDirection(routeType: string | undefined): Direction {
+  return routeType === '2' ? 'inbound' : 'outbound';
+}
+
+/**
+ * Parse OASA timestamps like "Mar 25 2024 08:36:21:000PM" (Athens local time,
+ * whatever the device's time zone)
+ */
+export function parseOasaDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const match = value.match(/^(\w{3})\s+(\d{1,2})\s+(\d{4})\s+(\d{1,2}):(\d{2}):(\d{2})(?::\d+)?\s*(AM|PM)?$/i);
+  if (!match) {
+    const fallback = new Date(value);
+    return isNaN(fallback.getTime()) ? null : fallback;
+  }
+  const [, monthName, day, year, hours, minutes, seconds, meridiem] = match;
+  const month = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+    .indexOf(monthName.toLowerCase());
+  if (month < 0) return null;
+
+  let hour = parseInt(hours, 10) % 12;
+  if (meridiem?.toUpperCase() === 'PM') hour += 12;
+  if (!meridiem) hour = parseInt(hours, 10);
+
+  return fromGreekTime(Number(year), month, Number(day), hour, Number(minutes), Number(seconds));
+}
+
+function toLine(raw: OasaLine): Line {
+  return {
+    code: requireString(raw.LineCode, 'LineCode'),
+    lineId: requireString(raw.LineID, 'LineID'),
+    name: raw.LineDescr ?? '',
+    nameEn: raw.LineDescrEng ?? '',
+  };
+}
+
+function toRoute(raw: OasaRoute): Route {
+  return {
+    code: requireString(raw.RouteCode, 'RouteCode'),
+    lineCode: requireString(raw.LineCode, 'LineCode'),
+    name: raw.RouteDescr ?? '',
+    nameEn: raw.RouteDescrEng ?? '',
+    direction: toDirection(raw.RouteType),
+    distanceMeters: parseNumber(raw.RouteDistance),
+  };
+}
+
+function toRoutePoint(raw: OasaRoutePoint, index: number): RoutePoint {
+  return {
+    ...requireCoordinates(raw.routed_y, raw.routed_x),
+    order: parseNumber(raw.routed_order) ?? index,
+  };
+}
+
+function toBusLocation(raw: OasaBusLocation): BusLocation {
+  return {
+    vehicleNo: requireString(raw.VEH_NO, 'VEH_NO'),
+    routeCode: requireString(raw.ROUTE_CODE, 'ROUTE_CODE'),
+    ...requireCoordinates(raw.CS_LAT, raw.CS_LNG),
+    reportedAt: parseOasaDate(raw.CS_DATE),
+  };
+}
+
+function toStopArrival(raw: OasaStopArrival, now: number): StopArrival {
+  const minutes = requireNumber(raw.btime2, 'btime2');
+  return {
+    routeCode: requireString(raw.route_code, 'route_code'),
+    vehicleCode: optionalString(raw.veh_code) ?? '',
+    minutes,
+    expectedAt: new Date(now + minutes * 60000),
+  };
+}
+
+function toStop(raw: OasaStop): Stop {
+  const order = parseNumber(raw.RouteStopOrder);
+  return {
+    code: requireString(raw.StopCode, 'StopCode'),
+    id: optionalString(raw.StopID) ?? raw.StopCode,
+    name: raw.StopDescr ?? '',
+    nameEn: raw.StopDescrEng ?? '',
+    street: optionalString(raw.StopStreet),
+    streetEn: optionalString(raw.StopStreetEng),
+    heading: parseNumber(raw.StopHeading),
+    ...requireCoordinates(raw.StopLat, raw.StopLng),
+    ...(order !== null && { order }),
+    ...(raw.StopAmea !== undefined && { accessible: raw.StopAmea === '1' }),
+  };
+}
+
+function toStopRoute(raw: OasaStopRoute): StopRoute {
+  return {
+    routeCode: requireString(raw.RouteCode, 'RouteCode'),
+    routeName: raw.RouteDescr ?? '',
+    routeNameEn: raw.RouteDescrEng ?? '',
+    direction: toDirection(raw.RouteType),
+    lineCode: requireString(raw.LineCode, 'LineCode'),
+    lineId: requireString(raw.LineID, 'LineID'),
+    lineName: raw.LineDescr ?? '',
+    lineNameEn: raw.LineDescrEng ?? '',
+    masterLineCode: optionalString(raw.MasterLineCode) ?? raw.LineCode,
+  };
+}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
 /**
  * Get all bus lines
  */
-export async function getLines(): Promise<Line[]> {
-  return fetchAPI<Line[]>('webGetLines');
+export async function getLines(options?: RequestOptions): Promise<Line[]> {
+  const rows = await fetchAPI<OasaLine[]>('webGetLines', {}, { ...options, required: true });
+  return mapRows(rows, toLine, ENTITY('line'));
 }
 
 /**
  * Get routes for a specific line
  */
-export async function getRoutesForLine(lineCode: string): Promise<Route[]> {
-  return fetchAPI<Route[]>('webGetRoutes', { p1: lineCode });
+export async function getRoutesForLine(lineCode: string, options?: RequestOptions): Promise<Route[]> {
+  const rows = await fetchAPI<OasaRoute[]>('webGetRoutes', { p1: lineCode }, { ...options, required: true });
+  return mapRows(rows, toRoute, ENTITY('route'));
 }
 
 /**
  * Get route details (polyline points)
  */
-export async function getRouteDetails(routeCode: string): Promise<RoutePoint[]> {
-  return fetchAPI<RoutePoint[]>('webRouteDetails', { p1: routeCode });
+export async function getRouteDetails(routeCode: string, options?: RequestOptions): Promise<RoutePoint[]> {
+  const rows = await fetchAPI<OasaRoutePoint[]>('webRouteDetails', { p1: routeCode }, options);
+  return mapRows(rows, toRoutePoint, ENTITY('route point')).sort((a, b) => a.order - b.order);
 }
 
 /**
  * Get live bus locations for a route
  */
-export async function getBusLocations(routeCode: string): Promise<BusLocation[]> {
-  return fetchAPI<BusLocation[]>('getBusLocation', { p1: routeCode });
+export async function getBusLocations(routeCode: string, options?: RequestOptions): Promise<BusLocation[]> {
+  const rows = await fetchAPI<OasaBusLocation[]>('getBusLocation', { p1: routeCode }, options);
+  return mapRows(rows, toBusLocation, ENTITY('bus location'));
 }
 
 /**
  * Get arrivals at a stop
  */
-export async function getStopArrivals(stopCode: string): Promise<StopArrival[]> {
+export async function getStopArrivals(stopCode: string, options?: RequestOptions): Promise<StopArrival[]> {
   // API works with numeric stop codes like "10001" 
-  return fetchAPI<StopArrival[]>('getStopArrivals', { p1: stopCode });
+  const rows = await fetchAPI<OasaStopArrival[]>('getStopArrivals', { p1: stopCode }, options);
+  const now = Date.now();
+  return mapRows(rows, raw => toStopArrival(raw, now), ENTITY('arrival'));
 }
 
 /**
  * Get stops for a route
  */
-export async function getStops(routeCode: string): Promise<Stop[]> {
-  return fetchAPI<Stop[]>('webGetStops', { p1: routeCode });
+export async function getStops(routeCode: string, options?: RequestOptions): Promise<Stop[]> {
+  const rows = await fetchAPI<OasaStop[]>('webGetStops', { p1: routeCode }, { ...options, required: true });
+  return mapRows(rows, toStop, ENTITY('stop'));
 }
 
 /**
  * Get closest stops to a location
  */
-export async function getClosestStops(lat: number, lng: number): Promise<Stop[]> {
-  return fetchAPI<Stop[]>('getClosestStops', { 
+export async function getClosestStops(lat: number, lng: number, options?: RequestOptions): Promise<Stop[]> {
+  const rows = await fetchAPI<OasaStop[]>('getClosestStops', { 
     p1: lat.toString(),
     p2: lng.toString()
-  });
+  }, options);
+  return mapRows(rows, toStop, ENTITY('stop')).map(stop => ({
+    ...stop,
+    distanceMeters: distanceMeters(lat, lng, stop.lat, stop.lng),
+  }));
 }
 
 /**
  * Get route name by code
  */
-export async function getRouteName(routeCode: string): Promise<{ route_descr: string; route_descr_eng: string }[]> {
-  return fetchAPI('getRouteName', { p1: routeCode });
+export async function getRouteName(routeCode: string, options?: RequestOptions): Promise<{ route_descr: string; route_descr_eng: string }[]> {
+  return fetchAPI('getRouteName', { p1: routeCode }, options);
 }
 
 /**
  * Get all routes that serve a stop
  */
-export interface StopRoute {
-  RouteCode: string;
-  RouteDescr: string;
-  RouteDescrEng: string;
-  RouteType: string;
-  LineCode: string;
-  LineID: string;
-  LineDescr: string;
-  LineDescrEng: string;
-  MasterLineCode: string;
-}
-
-export async function getRoutesForStop(stopCode: string): Promise<StopRoute[]> {
-  return fetchAPI<StopRoute[]>('webRoutesForStop', { p1: stopCode });
+export async function getRoutesForStop(stopCode: string, options?: RequestOptions): Promise<StopRoute[]> {
+  const rows = await fetchAPI<OasaStopRoute[]>('webRoutesForStop', { p1: stopCode }, options);
+  return mapRows(rows, toStopRoute, ENTITY('stop route'));
 }
 
 /**
  * Get schedule days/types for a masterline (step 1)
  */
-export interface ScheduleDay {
-  sdc_code: string;
-  sdc_descr: string;
-  sdc_descr_eng: string;
-}
-
-export async function getScheduleDaysMasterline(mlCode: string): Promise<ScheduleDay[]> {
-  return fetchAPI<ScheduleDay[]>('getScheduleDaysMasterline', { p1: mlCode });
+export async function getScheduleDaysMasterline(mlCode: string, options?: RequestOptions): Promise<ScheduleDay[]> {
+  return fetchAPI<ScheduleDay[]>('getScheduleDaysMasterline', { p1: mlCode }, options);
 }
 
 /**
  * Get schedule times (step 2 - requires sdc_code from step 1)
  */
-export interface ScheduleLine {
-  sde_start1: string | null; // Departure time direction 1
-  sde_start2: string | null; // Departure time direction 2
-  sde_line1: string | null;
-  sde_line2: string | null;
-}
-
-export interface SchedLinesResponse {
-  come: ScheduleLine[];
-  go: ScheduleLine[];
-}
-
-export async function getSchedLines(mlCode: string, sdcCode: string, lineCode: string): Promise<SchedLinesResponse | null> {
+export async function getSchedLines(mlCode: string, sdcCode: string, lineCode: string, options?: RequestOptions): Promise<SchedLinesResponse | null> {
   return fetchAPI<SchedLinesResponse>('getSchedLines', { 
     p1: mlCode,
     p2: sdcCode,
     p3: lineCode
-  });
-}
-
-/**
- * Schedule result with both directions
- */
-export interface LineScheduleResult {
-  departure: string[];  // "come" direction
-  return: string[];     // "go" direction
+  }, options);
 }
 
 /**
  * Combined function to get schedule for a line (handles 2-step process)
- * Returns separate schedules for departure and return directions
+ * Returns every schedule day type, with today's preselected
  */
-export async function getLineSchedule(mlCode: string, lineCode: string): Promise<LineScheduleResult> {
-  try {
-    // Step 1: Get available schedule days (uses lineCode)
-    const scheduleDays = await getScheduleDaysMasterline(lineCode);
-    
-    if (!scheduleDays || scheduleDays.length === 0) {
-      return { departure: [], return: [] };
-    }
-    
-    // Use the first schedule type (usually daily)
-    const sdcCode = scheduleDays[0].sdc_code;
-    
-    // Step 2: Get schedule times
-    const response = await getSchedLines(lineCode, sdcCode, lineCode);
-    
-    if (!response) {
-      return { departure: [], return: [] };
-    }
-    
-    // Helper to extract HH:MM from datetime string like "1900-01-01 05:30:00"
-    const extractTime = (datetime: string | null): string | null => {
-      if (!datetime) return null;
-      if (datetime.includes(' ')) {
-        const timePart = datetime.split(' ')[1];
-        if (timePart) {
-          return timePart.substring(0, 5);
-        }
-      }
-      if (datetime.length > 5) {
-        return datetime.substring(0, 5);
-      }
-      return datetime;
-    };
-    
-    // Process "come" direction (departure)
-    const departureTimes = new Set<string>();
-    if (response.come && Array.isArray(response.come)) {
-      response.come.forEach(line => {
-        const t1 = extractTime(line?.sde_start1);
-        const t2 = extractTime(line?.sde_start2);
-        if (t1) departureTimes.add(t1);
-        if (t2) departureTimes.add(t2);
-      });
-    }
-    
-    // Process "go" direction (return)
-    const returnTimes = new Set<string>();
-    if (response.go && Array.isArray(response.go)) {
-      response.go.forEach(line => {
-        const t1 = extractTime(line?.sde_start1);
-        const t2 = extractTime(line?.sde_start2);
-        if (t1) returnTimes.add(t1);
-        if (t2) returnTimes.add(t2);
-      });
-    }
-    
-    return {
-      departure: Array.from(departureTimes).sort(),
-      return: Array.from(returnTimes).sort()
-    };
-  } catch (e) {
-    return { departure: [], return: [] };
+export async function getLineSchedule(mlCode: string, lineCode: string, options?: RequestOptions): Promise<LineScheduleResult> {
+  // Step 1: Get available schedule days (uses lineCode)
+  const scheduleDays = await getScheduleDaysMasterline(lineCode, options);
+  if (scheduleDays && !Array.isArray(scheduleDays)) {
+    throw new DecodeError(JSON.stringify(scheduleDays), { operator: OPERATOR, endpoint: 'getScheduleDaysMasterline' });
   }
+  
+  // Step 2: Get schedule times for each day type
+  return buildLineSchedule(
+    scheduleDays ?? [],
+    (sdcCode, opts) => getSchedLines(lineCode, sdcCode, lineCode, opts),
+    options
+  );
 }
-
-
@@ -0,0 +1,263 @@
+/**
+ * Greek public holiday calendar
+ * Computes fixed and Easter-dependent holidays for any year and decides
+ * which timetable (weekday/Saturday/Sunday) runs on a given date, and reads
+ * Greek wall-clock times whatever the device's own time zone
+ */
+
+import type { ServiceDayType } from './types';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  nameEn: string;
+  sundayService: boolean; // Operators run the Sunday timetable
+}
+
+/**
+ * Operator-announced exception for a single date
+ */
+export interface ServiceDayOverride {
+  date: string; // YYYY-MM-DD
+  dayType: ServiceDayType;
+  note?: string;
+}
+
+/**
+ * Calendar date in Greece
+ */
+export interface GreekDate {
+  key: string; // YYYY-MM-DD
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday, like Date.getDay()
+}
+
+/**
+ * Service running on a date and why
+ */
+export interface ServiceDay {
+  date: string;
+  dayType: ServiceDayType;
+  holiday: Holiday | null;
+  override: ServiceDayOverride | null;
+}
+
+/**
+ * Local calendar date key, e.g. "2025-04-21"
+ */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export const GREEK_TIME_ZONE = 'Europe/Athens';
+
+let greekFormat: Intl.DateTimeFormat | null = null;
+
+/**
+ * How far Greek wall-clock time is ahead of UTC at an instant (2 or 3 hours)
+ */
+export function greekUtcOffsetMs(at: Date): number {
+  greekFormat ??= new Intl.DateTimeFormat('en-US', {
+    timeZone: GREEK_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+  const parts = greekFormat.formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'), part('second'));
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+let greekDateFormat: Intl.DateTimeFormat | null = null;
+
+/**
+ * Greek calendar date of an instant, which is what timetables follow
+ * (late evening in New York is already the next day in Athens)
+ */
+export function toGreekDate(at: Date): GreekDate {
+  greekDateFormat ??= new Intl.DateTimeFormat('en-CA', {
+    timeZone: GREEK_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+  const parts = greekDateFormat.formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const year = part('year');
+  const month = part('month');
+  const day = part('day');
+  return {
+    key: `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
+    year,
+    month,
+    day,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/**
+ * Instant of a Greek wall-clock time (month is 0-based, like Date)
+ */
+export function fromGreekTime(
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): Date {
+  const wallClock = Date.UTC(year, month, day, hours, minutes, seconds);
+  // The offset at the first guess is only off right around a DST switch
+  const guess = wallClock - greekUtcOffsetMs(new Date(wallClock));
+  return new Date(wallClock - greekUtcOffsetMs(new Date(guess)));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Orthodox Easter Sunday for a year (Meeus' Julian algorithm,
+ * shifted onto the Gregorian calendar)
+ */
+export function getOrthodoxEaster(year: number): Date {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+
+  // Julian-to-Gregorian offset: 13 days from 1900 to 2099
+  const offset = Math.floor(year / 100) - Math.floor(year / 400) - 2;
+  return new Date(year, month - 1, day + offset);
+}
+
+const FIXED_HOLIDAYS: { month: number; day: number; name: string; nameEn: string }[] = [
+  { month: 1, day: 1, name: 'Πρωτοχρονιά', nameEn: "New Year's Day" },
+  { month: 1, day: 6, name: 'Θεοφάνεια', nameEn: 'Epiphany' },
+  { month: 3, day: 25, name: 'Ευαγγελισμός της Θεοτόκου', nameEn: 'Independence Day' },
+  { month: 5, day: 1, name: 'Πρωτομαγιά', nameEn: 'Labour Day' },
+  { month: 8, day: 15, name: 'Κοίμηση της Θεοτόκου', nameEn: 'Assumption of Mary' },
+  { month: 10, day: 28, name: 'Επέτειος του Όχι', nameEn: 'Ohi Day' },
+  { month: 12, day: 25, name: 'Χριστούγεννα', nameEn: 'Christmas Day' },
+  { month: 12, day: 26, name: 'Σύναξη της Θεοτόκου', nameEn: 'Synaxis of the Mother of God' },
+];
+
+// Offsets from Orthodox Easter Sunday
+const EASTER_HOLIDAYS: { offset: number; name: string; nameEn: string; sundayService: boolean }[] = [
+  { offset: -48, name: 'Καθαρά Δευτέρα', nameEn: 'Clean Monday', sundayService: true },
+  // Holy Week runs special timetables that operators announce separately
+  { offset: -2, name: 'Μεγάλη Παρασκευή', nameEn: 'Good Friday', sundayService: false },
+  { offset: 0, name: 'Κυριακή του Πάσχα', nameEn: 'Easter Sunday', sundayService: true },
+  { offset: 1, name: 'Δευτέρα του Πάσχα', nameEn: 'Easter Monday', sundayService: true },
+  // Not a holiday for every sector, so buses keep the weekday timetable
+  { offset: 50, name: 'Αγίου Πνεύματος', nameEn: 'Whit Monday', sundayService: false },
+];
+
+const holidaysByYear = new Map<number, Holiday[]>();
+
+/**
+ * Greek public holidays of a year, sorted by date
+ */
+export function getGreekHolidays(year: number): Holiday[] {
+  const cached = holidaysByYear.get(year);
+  if (cached) return cached;
+
+  const easter = getOrthodoxEaster(year);
+  const holidays: Holiday[] = [
+    ...FIXED_HOLIDAYS.map(({ month, day, name, nameEn }) => ({
+      date: toDateKey(new Date(year, month - 1, day)),
+      name,
+      nameEn,
+      sundayService: true,
+    })),
+    ...EASTER_HOLIDAYS.map(({ offset, name, nameEn, sundayService }) => ({
+      date: toDateKey(addDays(easter, offset)),
+      name,
+      nameEn,
+      sundayService,
+    })),
+  ];
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date));
+  holidaysByYear.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * Holiday falling on the Greek date of an instant, if any
+ * When two coincide (e.g. Labour Day in Easter week) the Sunday-service one wins
+ */
+export function getHoliday(date: Date): Holiday | null {
+  const { key, year } = toGreekDate(date);
+  const matches = getGreekHolidays(year).filter(holiday => holiday.date === key);
+  return matches.find(holiday => holiday.sundayService) ?? matches[0] ?? null;
+}
+
+// =============================================================================
+// Overrides
+// =============================================================================
+
+const overrides = new Map<string, ServiceDayOverride>();
+
+/**
+ * Replace the operator-announced exceptions (e.g. a moved Labour Day,
+ * strike-day service or a local saint's day)
+ */
+export function setServiceDayOverrides(list: ServiceDayOverride[]): void {
+  overrides.clear();
+  list.forEach(override => overrides.set(override.date, override));
+}
+
+/**
+ * Active overrides, sorted by date
+ */
+export function getServiceDayOverrides(): ServiceDayOverride[] {
+  return Array.from(overrides.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// =============================================================================
+// Service days
+// =============================================================================
+
+/**
+ * Timetable running on the Greek date of an instant: override, then
+ * holiday, then day of week
+ */
+export function getServiceDay(date: Date): ServiceDay {
+  const { key, weekday } = toGreekDate(date);
+  const override = overrides.get(key) ?? null;
+  const holiday = getHoliday(date);
+
+  let dayType: ServiceDayType;
+  if (override) {
+    dayType = override.dayType;
+  } else if (holiday?.sundayService || weekday === 0) {
+    dayType = 'sunday';
+  } else if (weekday === 6) {
+    dayType = 'saturday';
+  } else {
+    dayType = 'weekday';
+  }
+
+  return { date: key, dayType, holiday, override };
+}
+
+/**
+ * Just the timetable kind running on a date
+ */
+export function getServiceDayType(date: Date): ServiceDayType {
+  return getServiceDay(date).dayType;
+}
+
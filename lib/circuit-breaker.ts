@@ -0,0 +1,112 @@
+/**
+ * Circuit Breaker
+ * Stops hitting an endpoint for a while after repeated failures,
+ * then lets a single trial request through to probe recovery
+ */
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial request */
+  cooldownMs?: number;
+}
+
+type Listener = (state: CircuitState) => void;
+
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private failures = 0;
+  private openedAt = 0;
+  private currentState: CircuitState = 'closed';
+  private trialInFlight = false;
+  private listeners = new Set<Listener>();
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name;
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 60000;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Whether a request may go out now. Moves an expired open circuit to half-open.
+   * While half-open only one trial request is let through; the caller that gets
+   * it must report its outcome (or releaseTrial if it is abandoned).
+   */
+  canRequest(): boolean {
+    if (this.currentState === 'open' && this.remainingCooldownMs() === 0) {
+      this.setState('halfOpen');
+    }
+    if (this.currentState === 'halfOpen') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+    return this.currentState !== 'open';
+  }
+
+  /**
+   * Milliseconds until the open circuit allows a trial request (0 if not open)
+   */
+  remainingCooldownMs(): number {
+    if (this.currentState !== 'open') return 0;
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.setState('closed');
+  }
+
+  recordFailure(): void {
+    this.failures += 1;
+    this.trialInFlight = false;
+    // A failed trial re-opens immediately
+    if (this.currentState === 'halfOpen' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.setState('open');
+    }
+  }
+
+  /**
+   * Give up a trial request without an outcome (e.g. the caller aborted),
+   * so the next request becomes the trial
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(state: CircuitState): void {
+    if (state === this.currentState) return;
+    this.currentState = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get (or lazily create) the shared breaker for a name like "OASA:getBusLocation"
+ */
+export function getCircuitBreaker(name: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, options);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
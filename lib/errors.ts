@@ -0,0 +1,131 @@
+/**
+ * Transit API error model
+ * Both telematics clients raise these so the UI can tell "no buses right now"
+ * apart from "the server is down" or "the response could not be read"
+ */
+
+export type TransitErrorKind =
+  | 'network'      // Request never reached the server / no connectivity
+  | 'timeout'      // Server did not answer in time
+  | 'http'         // Server answered with a non-2xx status
+  | 'decode'       // Response could not be decompressed or parsed
+  | 'empty'        // Server answered with nothing where data is required
+  | 'unsupported'  // Provider does not implement the operation
+  | 'circuitOpen'; // Endpoint paused after repeated failures
+
+interface TransitApiErrorOptions {
+  operator: string;
+  endpoint: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by the transit clients
+ */
+export class TransitApiError extends Error {
+  readonly kind: TransitErrorKind;
+  readonly operator: string;
+  readonly endpoint: string;
+  readonly cause?: unknown;
+
+  constructor(kind: TransitErrorKind, message: string, options: TransitApiErrorOptions) {
+    super(message);
+    this.name = 'TransitApiError';
+    this.kind = kind;
+    this.operator = options.operator;
+    this.endpoint = options.endpoint;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Whether repeating the same request may succeed
+   */
+  get isRetryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout';
+  }
+}
+
+export class NetworkError extends TransitApiError {
+  constructor(options: TransitApiErrorOptions) {
+    super('network', `${options.operator} ${options.endpoint}: network request failed`, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends TransitApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, options: TransitApiErrorOptions) {
+    super('timeout', `${options.operator} ${options.endpoint}: no response after ${timeoutMs}ms`, options);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class HttpStatusError extends TransitApiError {
+  readonly status: number;
+
+  constructor(status: number, statusText: string, options: TransitApiErrorOptions) {
+    super('http', `${options.operator} ${options.endpoint}: HTTP ${status} ${statusText}`.trim(), options);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+
+  /** 5xx and 429 are transient, other statuses will not change on retry */
+  get isRetryable(): boolean {
+    return this.status >= 500 || this.status === 429;
+  }
+}
+
+export class DecodeError extends TransitApiError {
+  /** Beginning of the offending payload, for diagnostics */
+  readonly snippet: string;
+
+  constructor(snippet: string, options: TransitApiErrorOptions) {
+    super('decode', `${options.operator} ${options.endpoint}: response could not be parsed`, options);
+    this.name = 'DecodeError';
+    this.snippet = snippet.slice(0, 200);
+  }
+}
+
+export class UpstreamEmptyError extends TransitApiError {
+  constructor(options: TransitApiErrorOptions) {
+    super('empty', `${options.operator} ${options.endpoint}: server returned no data`, options);
+    this.name = 'UpstreamEmptyError';
+  }
+}
+
+export class UnsupportedOperationError extends TransitApiError {
+  constructor(options: TransitApiErrorOptions) {
+    super('unsupported', `${options.operator} does not support "${options.endpoint}"`, options);
+    this.name = 'UnsupportedOperationError';
+  }
+}
+
+export class CircuitOpenError extends TransitApiError {
+  /** Epoch ms when the endpoint will be tried again */
+  readonly retryAt: number;
+
+  constructor(retryAt: number, options: TransitApiErrorOptions) {
+    super('circuitOpen', `${options.operator} ${options.endpoint}: paused after repeated failures`, options);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Type guard for transit errors
+ */
+export function isTransitApiError(error: unknown): error is TransitApiError {
+  return error instanceof TransitApiError;
+}
+
+/**
+ * Wrap an unknown failure from fetch() into a TransitApiError
+ */
+export function toTransitApiError(error: unknown, options: TransitApiErrorOptions): TransitApiError {
+  if (isTransitApiError(error)) {
+    return error;
+  }
+  return new NetworkError({ ...options, cause: error });
+}
@@ -0,0 +1,33 @@
+/**
+ * Geographic helpers shared by providers and screens
+ */
+
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Great-circle distance between two points in meters (Haversine formula)
+ */
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+}
+
+/**
+ * Latitude/longitude box, e.g. a map viewport
+ */
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
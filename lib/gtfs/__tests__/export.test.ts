@@ -0,0 +1,71 @@
+import { exportGtfs } from '../export';
+import type { DaySchedule } from '../../types';
+
+jest.mock('../../providers', () => ({
+  getProvider: () => ({ operator: 'OASA', capabilities: ['routeStops', 'schedules'] }),
+  supports: (provider: { capabilities: string[] }, capability: string) => provider.capabilities.includes(capability),
+}));
+
+const mockDay = (code: string, name: string, nameEn: string, dayType: DaySchedule['dayType'], departure: string[]): DaySchedule =>
+  ({ code, name, nameEn, dayType, departure, return: [] });
+
+jest.mock('../../unified-api', () => ({
+  getLines: async () => [{ code: '1', lineId: '040', name: 'ΠΕΙΡΑΙΑΣ - ΣΥΝΤΑΓΜΑ', nameEn: '' }],
+  getRoutesForLine: async () => [
+    { code: '100', lineCode: '1', name: 'ΣΥΝΤΑΓΜΑ', nameEn: '', direction: 'outbound', distanceMeters: null },
+  ],
+  getStops: async () => [
+    { code: 's1', name: 'A', lat: 37.94, lng: 23.64 },
+    { code: 's2', name: 'B', lat: 37.97, lng: 23.73 },
+  ],
+  getRouteDetails: async () => [],
+  getLineSchedule: async () => ({ activeDayCode: mockDays[0]?.code ?? null, days: mockDays }),
+}));
+
+const SCHEDULE_DAYS = [
+  mockDay('54', 'ΔΕΥΤΕΡΑ - ΠΕΜΠΤΗ', 'MONDAY - THURSDAY', 'weekday', ['06:00', '07:00']),
+  mockDay('55', 'ΠΑΡΑΣΚΕΥΗ', 'FRIDAY', 'weekday', ['06:00', '06:30']),
+  mockDay('56', 'ΚΥΡΙΑΚΗ - ΑΡΓΙΕΣ', 'SUNDAY - HOLIDAYS', 'sunday', ['08:00']),
+];
+let mockDays: DaySchedule[] = [];
+
+beforeEach(() => {
+  mockDays = SCHEDULE_DAYS;
+});
+
+describe('exportGtfs', () => {
+  it('keeps schedule days of the same day type apart', async () => {
+    // Clean Monday (03-03) and Independence Day (03-25, a Tuesday) run the Sunday timetable
+    const { tables } = await exportGtfs('athens', { startDate: new Date(2025, 2, 1), validDays: 31 });
+
+    const tripIds = tables['trips.txt'].records.map(trip => trip.trip_id);
+    expect(new Set(tripIds).size).toBe(tripIds.length);
+    expect(tables['trips.txt'].records.map(trip => trip.service_id)).toEqual(['54', '54', '55', '55', '56']);
+
+    const calendar = Object.fromEntries(tables['calendar.txt'].records.map(row => [
+      row.service_id,
+      ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map(column => row[column]).join(''),
+    ]));
+    expect(calendar).toEqual({ '54': '1111000', '55': '0000100', '56': '0000001' });
+
+    expect(tables['calendar_dates.txt'].records).toEqual([
+      { service_id: '54', date: '20250303', exception_type: '2' },
+      { service_id: '56', date: '20250303', exception_type: '1' },
+      { service_id: '54', date: '20250325', exception_type: '2' },
+      { service_id: '56', date: '20250325', exception_type: '1' },
+    ]);
+  });
+
+  it('warns when a line has no timetable', async () => {
+    mockDays = [];
+    const { tables, issues } = await exportGtfs('athens', { startDate: new Date(2025, 2, 1), validDays: 31 });
+
+    expect(tables['calendar.txt'].records).toEqual([]);
+    expect(tables['trips.txt'].records).toEqual([]);
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ severity: 'warning', file: 'calendar.txt', row: null }),
+      expect.objectContaining({ severity: 'warning', file: 'trips.txt', row: null }),
+      expect.objectContaining({ severity: 'warning', file: 'routes.txt', message: 'route "1" has no trips' }),
+    ]));
+  });
+});
@@ -0,0 +1,80 @@
+import { importGtfs } from '../import';
+import { keyByLiveCodes } from '../live-codes';
+import { createGtfsProvider, withOfflineFallback } from '../provider';
+import { createZip } from '../zip';
+import { NetworkError } from '../../errors';
+import type { TransitProvider } from '../../providers/types';
+import type { Route } from '../../types';
+
+const FEED = new Map([
+  ['routes.txt', 'route_id,route_short_name,route_long_name,route_type\nR40,040,ΠΕΙΡΑΙΑΣ - ΣΥΝΤΑΓΜΑ,3\n'],
+  ['trips.txt', 'route_id,service_id,trip_id,direction_id\nR40,WK,t1,0\nR40,WK,t2,1\n'],
+  ['stops.txt', 'stop_id,stop_code,stop_name,stop_lat,stop_lon\na,100,A,37.94,23.64\nb,200,B,37.97,23.73\n'],
+  // t1 listed out of order
+  ['stop_times.txt', [
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    't1,06:20:00,06:20:00,b,2',
+    't1,06:00:00,06:00:00,a,1',
+    't2,07:00:00,07:00:00,b,1',
+    't2,07:20:00,07:20:00,a,2',
+  ].join('\n')],
+  ['calendar.txt', 'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date\nWK,1,1,1,1,1,0,0,20250101,20251231\n'],
+]);
+
+const route = (code: string, direction: Route['direction']): Route =>
+  ({ code, lineCode: '1151', name: '', nameEn: '', direction, distanceMeters: null });
+
+function liveProvider(overrides: Partial<TransitProvider> = {}): TransitProvider {
+  const offline = () => Promise.reject(new NetworkError({ operator: 'OASA', endpoint: 'test' }));
+  return {
+    id: 'athens',
+    operator: 'OASA',
+    config: {} as TransitProvider['config'],
+    capabilities: ['lines', 'routes', 'routeStops'],
+    getLines: async () => [{ code: '1151', lineId: '40', name: '', nameEn: '' }],
+    getRoutesForLine: async () => [route('2045', 'outbound'), route('2046', 'inbound'), route('2047', 'outbound')],
+    getRouteDetails: offline,
+    getBusLocations: offline,
+    getStopArrivals: offline,
+    getClosestStops: offline,
+    getRoutesForStop: offline,
+    getLineSchedule: offline,
+    getStops: offline,
+    ...overrides,
+  };
+}
+
+describe('importGtfs', () => {
+  it('orders stop times by stop_sequence', () => {
+    const store = importGtfs(createZip(FEED), 'athens');
+    expect(store.routes.map(r => [r.code, r.stopCodes])).toEqual([
+      ['R40:0', ['100', '200']],
+      ['R40:1', ['200', '100']],
+    ]);
+    expect(store.departures['R40:0']).toEqual({ WK: ['06:00'] });
+  });
+});
+
+describe('keyByLiveCodes', () => {
+  it('answers the live codes once keyed', async () => {
+    const live = liveProvider();
+    const store = await keyByLiveCodes(importGtfs(createZip(FEED), 'athens'), live);
+
+    expect(store.lines.map(line => line.code)).toEqual(['1151']);
+    expect(store.routes.map(r => r.code)).toEqual(['2045', '2046']);
+    expect(store.departures['2045']).toEqual({ WK: ['06:00'] });
+
+    // Live calls fail from here on, as when offline
+    const failing = liveProvider({
+      getRoutesForLine: () => Promise.reject(new NetworkError({ operator: 'OASA', endpoint: 'test' })),
+    });
+    const provider = withOfflineFallback(failing, createGtfsProvider(store, live.config));
+    expect((await provider.getRoutesForLine('1151')).map(r => r.code)).toEqual(['2045', '2046']);
+    expect((await provider.getStops!('2047')).map(stop => stop.code)).toEqual(['100', '200']);
+  });
+
+  it('raises when the live lines cannot be fetched', async () => {
+    const live = liveProvider({ getLines: () => Promise.reject(new NetworkError({ operator: 'OASA', endpoint: 'test' })) });
+    await expect(keyByLiveCodes(importGtfs(createZip(FEED), 'athens'), live)).rejects.toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,55 @@
+import { exportGtfs } from '../export';
+import { collectRealtimeFeed } from '../realtime';
+
+jest.mock('../../providers', () => ({
+  getProvider: () => ({ operator: 'OASA', capabilities: ['routeStops', 'schedules'] }),
+  supports: (provider: { capabilities: string[] }, capability: string) => provider.capabilities.includes(capability),
+}));
+
+jest.mock('../../unified-api', () => ({
+  getLines: async () => [{ code: '1', lineId: '040', name: 'ΠΕΙΡΑΙΑΣ - ΣΥΝΤΑΓΜΑ', nameEn: '' }],
+  getRoutesForLine: async () => [
+    { code: '100', lineCode: '1', name: 'ΣΥΝΤΑΓΜΑ', nameEn: '', direction: 'outbound', distanceMeters: null },
+    { code: '101', lineCode: '1', name: 'ΠΕΙΡΑΙΑΣ', nameEn: '', direction: 'inbound', distanceMeters: null },
+  ],
+  getStops: async () => [
+    { code: 's1', name: 'A', lat: 37.94, lng: 23.64 },
+    { code: 's2', name: 'B', lat: 37.97, lng: 23.73 },
+  ],
+  getRouteDetails: async () => [],
+  getLineSchedule: async () => ({
+    activeDayCode: '54',
+    days: [{ code: '54', name: '', nameEn: 'WEEKDAYS', dayType: 'weekday', departure: ['06:00'], return: ['07:00'] }],
+  }),
+  getBusLocations: async (_city: string, routeCode: string) => [
+    { vehicleNo: '30100', routeCode, lat: 37.95, lng: 23.66, reportedAt: new Date(2025, 2, 3, 6, 5) },
+  ],
+  getStopArrivals: async () => [
+    { routeCode: '101', vehicleCode: '30101', minutes: 4, expectedAt: new Date(2025, 2, 3, 7, 4) },
+  ],
+  getRoutesForStop: async () => [{ routeCode: '101', lineCode: '1', direction: 'inbound' }],
+}));
+
+// Only the outbound route has been walked into the catalog so far
+jest.mock('../../stop-catalog', () => ({
+  loadStopCatalog: async () => ({
+    stops: { s1: { routes: [{ routeCode: '100', lineCode: '1', lineId: '040', direction: 'outbound' }] } },
+  }),
+}));
+
+describe('collectRealtimeFeed', () => {
+  it('identifies trips as the static export does', async () => {
+    const { tables } = await exportGtfs('athens', { startDate: new Date(2025, 2, 3), validDays: 7 });
+    const feed = await collectRealtimeFeed('athens', { routeCodes: ['100'], stopCodes: ['s2'] });
+
+    const routeIds = new Set(tables['routes.txt'].records.map(route => route.route_id));
+    const exportedTrips = new Set(tables['trips.txt'].records.map(trip => `${trip.route_id}/${trip.direction_id}`));
+    const trips = feed.entity.map(entity => entity.vehicle?.trip ?? entity.tripUpdate!.trip);
+
+    expect(trips).toEqual([{ routeId: '1', directionId: 0 }, { routeId: '1', directionId: 1 }]);
+    trips.forEach(trip => {
+      expect(routeIds.has(trip.routeId!)).toBe(true);
+      expect(exportedTrips.has(`${trip.routeId}/${trip.directionId}`)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * RFC 4180 CSV reader/writer for GTFS files
+ * Handles quoted fields, doubled quotes, CRLF line endings and a leading BOM
+ */
+
+import { GtfsImportError } from './errors';
+
+export type CsvRecord = Record<string, string>;
+
+/**
+ * Split CSV text into rows of raw fields
+ */
+function* readRows(text: string, file: string): Generator<string[]> {
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  const length = text.length;
+
+  while (pos < length) {
+    const row: string[] = [];
+
+    for (;;) {
+      let field = '';
+      if (text[pos] === '"') {
+        const start = pos++;
+        for (;;) {
+          const quote = text.indexOf('"', pos);
+          if (quote === -1) {
+            throw new GtfsImportError(`Unterminated quoted field at offset ${start}`, file);
+          }
+          field += text.slice(pos, quote);
+          pos = quote + 1;
+          if (text[pos] === '"') {
+            field += '"';
+            pos++;
+          } else {
+            break;
+          }
+        }
+      } else {
+        let end = pos;
+        while (end < length && text[end] !== ',' && text[end] !== '\n' && text[end] !== '\r') {
+          end++;
+        }
+        field = text.slice(pos, end);
+        pos = end;
+      }
+      row.push(field);
+
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] === '\r') pos++;
+      if (text[pos] === '\n') pos++;
+      break;
+    }
+
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') {
+      yield row;
+    }
+  }
+}
+
+/**
+ * Visit every record of a CSV file, keyed by its (trimmed) header names
+ * Records are streamed so large files like stop_times.txt are never held as objects
+ */
+export function forEachCsvRecord(
+  text: string,
+  file: string,
+  visit: (record: CsvRecord, rowNumber: number) => void
+): void {
+  const rows = readRows(text, file);
+  const first = rows.next();
+  if (first.done) return;
+
+  const header = first.value.map(name => name.trim());
+  let rowNumber = 1;
+  for (const row of rows) {
+    rowNumber++;
+    const record: CsvRecord = {};
+    header.forEach((name, index) => {
+      record[name] = (row[index] ?? '').trim();
+    });
+    visit(record, rowNumber);
+  }
+}
+
+/**
+ * All records of a CSV file
+ */
+export function parseCsv(text: string, file: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  forEachCsvRecord(text, file, record => records.push(record));
+  return records;
+}
+
+/**
+ * Quote a field when it contains a separator, quote or line break
+ */
+function formatField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write records as CSV with the given columns (missing values are left empty)
+ */
+export function formatCsv(columns: string[], records: CsvRecord[]): string {
+  const lines = [columns.map(formatField).join(',')];
+  records.forEach(record => {
+    lines.push(columns.map(column => formatField(record[column] ?? '')).join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
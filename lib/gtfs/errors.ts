@@ -0,0 +1,29 @@
+import type { GtfsIssue } from './types';
+
+/**
+ * Raised when a GTFS feed cannot be read
+ */
+export class GtfsImportError extends Error {
+  /** Feed file the problem was found in, e.g. "stop_times.txt" */
+  readonly file: string | null;
+
+  constructor(message: string, file: string | null = null) {
+    super(file ? `${file}: ${message}` : message);
+    this.name = 'GtfsImportError';
+    this.file = file;
+  }
+}
+
+/**
+ * Raised when an exported feed fails validation
+ */
+export class GtfsExportError extends Error {
+  readonly issues: GtfsIssue[];
+
+  constructor(issues: GtfsIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(`GTFS export failed validation with ${errors.length} error(s): ${errors[0]?.message ?? ''}`);
+    this.name = 'GtfsExportError';
+    this.issues = issues;
+  }
+}
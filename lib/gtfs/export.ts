@@ -0,0 +1,420 @@
+/**
+ * GTFS static feed exporter
+ * Walks a city's network through the provider API (lines, routes, stops,
+ * shapes and timetables) and writes it as a validated GTFS zip
+ *
+ * The APIs only publish first-stop departures, so the other stop times
+ * are estimated from the distance between stops and marked timepoint=0
+ */
+
+import { fromGreekTime, getGreekHolidays, getServiceDayType, toDateKey } from '../calendar';
+import { UnsupportedOperationError } from '../errors';
+import { distanceMeters } from '../geo';
+import type { RequestOptions } from '../http';
+import { getProvider, supports, type City } from '../providers';
+import { scheduleDayWeekdays } from '../schedule';
+import type { DaySchedule, Direction, Line, Route, RoutePoint, ServiceDayType, Stop } from '../types';
+import * as api from '../unified-api';
+import { formatCsv } from './csv';
+import { GtfsExportError } from './errors';
+import type { GtfsIssue, GtfsTables } from './types';
+import { hasGtfsErrors, validateGtfsFeed } from './validate';
+import { createZip } from './zip';
+
+export interface GtfsExportOptions extends RequestOptions {
+  /** Export only these lines (all lines by default) */
+  lineCodes?: string[];
+  /** agency_url - defaults to the operator's website */
+  agencyUrl?: string;
+  timezone?: string;
+  /** First day of the calendar (today by default) */
+  startDate?: Date;
+  /** Days the calendar covers */
+  validDays?: number;
+  /** Used to estimate intermediate stop times */
+  averageSpeedKmh?: number;
+  /** Lines fetched in parallel */
+  concurrency?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface GtfsExportResult {
+  zip: Uint8Array;
+  tables: GtfsTables;
+  /** Warnings, plus lines or routes that could not be fetched */
+  issues: GtfsIssue[];
+}
+
+const AGENCY_URLS: Record<string, string> = {
+  OASA: 'https://www.oasa.gr',
+  OASTH: 'https://oasth.gr',
+};
+
+const DEFAULTS = {
+  timezone: 'Europe/Athens',
+  validDays: 365,
+  averageSpeedKmh: 18,
+  concurrency: 4,
+};
+
+const ROUTE_TYPE_BUS = '3';
+
+// calendar.txt weekday columns, indexed by Date.getDay()
+const WEEKDAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const COLUMNS: Record<string, string[]> = {
+  'agency.txt': ['agency_id', 'agency_name', 'agency_url', 'agency_timezone', 'agency_lang'],
+  'feed_info.txt': ['feed_publisher_name', 'feed_publisher_url', 'feed_lang', 'feed_start_date', 'feed_end_date', 'feed_version'],
+  'routes.txt': ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_type'],
+  'stops.txt': ['stop_id', 'stop_code', 'stop_name', 'stop_desc', 'stop_lat', 'stop_lon', 'wheelchair_boarding'],
+  'shapes.txt': ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence'],
+  'calendar.txt': ['service_id', ...WEEKDAY_COLUMNS.slice(1), WEEKDAY_COLUMNS[0], 'start_date', 'end_date'],
+  'calendar_dates.txt': ['service_id', 'date', 'exception_type'],
+  'trips.txt': ['route_id', 'service_id', 'trip_id', 'trip_headsign', 'direction_id', 'shape_id'],
+  'stop_times.txt': ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence', 'timepoint'],
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * "2025-04-21" -> "20250421"
+ */
+function toGtfsDate(date: Date): string {
+  return toDateKey(date).replace(/-/g, '');
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * direction_id of a route's trips (GTFS-Realtime trips must use the same)
+ */
+export function gtfsDirectionId(direction: Direction): number {
+  return direction === 'inbound' ? 1 : 0;
+}
+
+/**
+ * Seconds since midnight -> "HH:MM:SS" (hours may pass 24)
+ */
+function formatGtfsTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return [hours, minutes, secs].map(n => n.toString().padStart(2, '0')).join(':');
+}
+
+/**
+ * Run a task for every item with at most `limit` running at once
+ */
+async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Cumulative straight-line distance (meters) at each stop along a route
+ */
+function cumulativeDistances(stops: Stop[]): number[] {
+  let total = 0;
+  return stops.map((stop, index) => {
+    if (index > 0) {
+      const previous = stops[index - 1];
+      total += distanceMeters(previous.lat, previous.lng, stop.lat, stop.lng);
+    }
+    return total;
+  });
+}
+
+// =============================================================================
+// Network walk
+// =============================================================================
+
+interface ExportedRoute {
+  route: Route;
+  stops: Stop[];
+  shape: RoutePoint[];
+}
+
+interface ExportedLine {
+  line: Line;
+  routes: ExportedRoute[];
+  schedule: DaySchedule[];
+}
+
+/**
+ * Fetch one line with its routes, stops, shapes and timetables
+ * Partial failures are reported as warnings so one broken line does not
+ * abort the whole export
+ */
+async function fetchLine(
+  city: City,
+  line: Line,
+  withSchedules: boolean,
+  options: RequestOptions,
+  issues: GtfsIssue[]
+): Promise<ExportedLine | null> {
+  const skip = (what: string, e: unknown) => {
+    if (options.signal?.aborted) throw e;
+    issues.push({
+      severity: 'warning',
+      file: 'routes.txt',
+      row: null,
+      message: `${what} skipped: ${e instanceof Error ? e.message : String(e)}`,
+    });
+  };
+
+  let routes: Route[];
+  try {
+    routes = await api.getRoutesForLine(city, line.code, options);
+  } catch (e) {
+    skip(`Line ${line.lineId}`, e);
+    return null;
+  }
+
+  const exported: ExportedRoute[] = [];
+  for (const route of routes) {
+    try {
+      const [stops, shape] = await Promise.all([
+        api.getStops(city, route.code, options),
+        api.getRouteDetails(city, route.code, options).catch((e: unknown) => {
+          skip(`Shape of route ${route.code}`, e);
+          return [] as RoutePoint[];
+        }),
+      ]);
+      exported.push({ route, stops, shape });
+    } catch (e) {
+      skip(`Route ${route.code} of line ${line.lineId}`, e);
+    }
+  }
+
+  let schedule: DaySchedule[] = [];
+  if (withSchedules) {
+    try {
+      schedule = (await api.getLineSchedule(city, '', line.code, options)).days;
+    } catch (e) {
+      skip(`Timetable of line ${line.lineId}`, e);
+    }
+  }
+
+  return { line, routes: exported, schedule };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Build the feed tables from the fetched network
+ */
+function buildTables(
+  operator: string,
+  lines: ExportedLine[],
+  options: Required<Pick<GtfsExportOptions, 'agencyUrl' | 'timezone' | 'startDate' | 'validDays' | 'averageSpeedKmh'>>
+): GtfsTables {
+  const tables: GtfsTables = Object.fromEntries(
+    Object.entries(COLUMNS).map(([file, columns]) => [file, { columns, records: [] }])
+  );
+  const push = (file: string, record: Record<string, string>) => tables[file].records.push(record);
+
+  const startDate = options.startDate;
+  const endDate = addDays(startDate, options.validDays - 1);
+  const metersPerSecond = (options.averageSpeedKmh * 1000) / 3600;
+
+  push('agency.txt', {
+    agency_id: operator,
+    agency_name: operator,
+    agency_url: options.agencyUrl,
+    agency_timezone: options.timezone,
+    agency_lang: 'el',
+  });
+  push('feed_info.txt', {
+    feed_publisher_name: operator,
+    feed_publisher_url: options.agencyUrl,
+    feed_lang: 'el',
+    feed_start_date: toGtfsDate(startDate),
+    feed_end_date: toGtfsDate(endDate),
+    feed_version: toDateKey(new Date()),
+  });
+
+  const stopIds = new Set<string>();
+  // One service per operator schedule day (sdc_code), e.g. Mon-Thu and Friday
+  const usedServices = new Map<string, { dayType: ServiceDayType; weekdays: number[] }>();
+
+  lines.forEach(({ line, routes, schedule }) => {
+    push('routes.txt', {
+      route_id: line.code,
+      agency_id: operator,
+      route_short_name: line.lineId,
+      route_long_name: line.name,
+      route_type: ROUTE_TYPE_BUS,
+    });
+
+    routes.forEach(({ route, stops, shape }) => {
+      stops.forEach(stop => {
+        if (stopIds.has(stop.code)) return;
+        stopIds.add(stop.code);
+        push('stops.txt', {
+          stop_id: stop.code,
+          stop_code: stop.code,
+          stop_name: stop.name,
+          stop_desc: stop.street ?? '',
+          stop_lat: stop.lat.toFixed(6),
+          stop_lon: stop.lng.toFixed(6),
+          wheelchair_boarding: stop.accessible === undefined ? '' : stop.accessible ? '1' : '2',
+        });
+      });
+
+      const shapeId = shape.length >= 2 ? route.code : '';
+      if (shapeId) {
+        shape.forEach((point, index) => push('shapes.txt', {
+          shape_id: shapeId,
+          shape_pt_lat: point.lat.toFixed(6),
+          shape_pt_lon: point.lng.toFixed(6),
+          shape_pt_sequence: String(index + 1),
+        }));
+      }
+
+      if (stops.length < 2) return;
+      const distances = cumulativeDistances(stops);
+
+      // Outbound routes run the "departure" times, inbound the "return" times
+      schedule.forEach(day => {
+        if (!day.dayType) return;
+        const times = route.direction === 'outbound' ? day.departure : day.return;
+
+        times.forEach(time => {
+          const [hours, minutes] = time.split(':').map(Number);
+          if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return;
+          const start = hours * 3600 + minutes * 60;
+          const tripId = `${route.code}_${day.code}_${time.replace(':', '')}`;
+
+          if (!usedServices.has(day.code)) {
+            usedServices.set(day.code, { dayType: day.dayType!, weekdays: scheduleDayWeekdays(day) });
+          }
+          push('trips.txt', {
+            route_id: line.code,
+            service_id: day.code,
+            trip_id: tripId,
+            trip_headsign: route.name,
+            direction_id: String(gtfsDirectionId(route.direction)),
+            shape_id: shapeId,
+          });
+
+          stops.forEach((stop, index) => {
+            // Rounded to the minute, like printed timetables
+            const seconds = start + Math.round(distances[index] / metersPerSecond / 60) * 60;
+            const gtfsTime = formatGtfsTime(seconds);
+            push('stop_times.txt', {
+              trip_id: tripId,
+              arrival_time: gtfsTime,
+              departure_time: gtfsTime,
+              stop_id: stop.code,
+              stop_sequence: String(index + 1),
+              timepoint: index === 0 ? '1' : '0',
+            });
+          });
+        });
+      });
+    });
+  });
+
+  // A service per schedule day on the weekdays it names, with Sunday service on holidays
+  usedServices.forEach(({ weekdays }, serviceId) => {
+    push('calendar.txt', {
+      service_id: serviceId,
+      ...Object.fromEntries(WEEKDAY_COLUMNS.map((column, day) => [column, weekdays.includes(day) ? '1' : '0'])),
+      start_date: toGtfsDate(startDate),
+      end_date: toGtfsDate(endDate),
+    });
+  });
+
+  const startKey = toDateKey(startDate);
+  const endKey = toDateKey(endDate);
+  for (let year = startDate.getFullYear(); year <= endDate.getFullYear(); year++) {
+    getGreekHolidays(year)
+      .filter(holiday => holiday.sundayService && holiday.date >= startKey && holiday.date <= endKey)
+      .forEach(holiday => {
+        const [y, m, d] = holiday.date.split('-').map(Number);
+        const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+        // Judged at noon in Athens, where the holiday is
+        if (weekday === 0 || getServiceDayType(fromGreekTime(y, m - 1, d, 12)) !== 'sunday') return;
+
+        const date = holiday.date.replace(/-/g, '');
+        usedServices.forEach(({ dayType, weekdays }, serviceId) => {
+          const regular = weekdays.includes(weekday);
+          if (dayType !== 'sunday' && regular) {
+            push('calendar_dates.txt', { service_id: serviceId, date, exception_type: '2' });
+          }
+          if (dayType === 'sunday' && !regular) {
+            push('calendar_dates.txt', { service_id: serviceId, date, exception_type: '1' });
+          }
+        });
+      });
+  }
+
+  if (tables['calendar_dates.txt'].records.length === 0) {
+    delete tables['calendar_dates.txt'];
+  }
+  if (tables['shapes.txt'].records.length === 0) {
+    delete tables['shapes.txt'];
+  }
+  return tables;
+}
+
+/**
+ * Export a city's network as a GTFS zip
+ * Throws GtfsExportError if the resulting feed fails validation
+ */
+export async function exportGtfs(city: City, options: GtfsExportOptions = {}): Promise<GtfsExportResult> {
+  const provider = getProvider(city);
+  if (!supports(provider, 'routeStops')) {
+    throw new UnsupportedOperationError({ operator: provider.operator, endpoint: 'routeStops' });
+  }
+  const requestOptions: RequestOptions = { signal: options.signal };
+  const issues: GtfsIssue[] = [];
+
+  let lines = await api.getLines(city, requestOptions);
+  if (options.lineCodes) {
+    const wanted = new Set(options.lineCodes);
+    lines = lines.filter(line => wanted.has(line.code));
+  }
+
+  const withSchedules = supports(provider, 'schedules');
+  const exported: ExportedLine[] = [];
+  let done = 0;
+  await forEachLimited(lines, options.concurrency ?? DEFAULTS.concurrency, async line => {
+    const result = await fetchLine(city, line, withSchedules, requestOptions, issues);
+    if (result) exported.push(result);
+    options.onProgress?.(++done, lines.length);
+  });
+
+  // Keep the operator's line order regardless of which fetch finished first
+  const order = new Map(lines.map((line, index) => [line.code, index]));
+  exported.sort((a, b) => order.get(a.line.code)! - order.get(b.line.code)!);
+
+  const tables = buildTables(provider.operator, exported, {
+    agencyUrl: options.agencyUrl ?? AGENCY_URLS[provider.operator] ?? '',
+    timezone: options.timezone ?? DEFAULTS.timezone,
+    startDate: options.startDate ?? new Date(),
+    validDays: options.validDays ?? DEFAULTS.validDays,
+    averageSpeedKmh: options.averageSpeedKmh ?? DEFAULTS.averageSpeedKmh,
+  });
+
+  issues.push(...validateGtfsFeed(tables));
+  if (hasGtfsErrors(issues)) {
+    throw new GtfsExportError(issues);
+  }
+
+  const files = new Map(
+    Object.entries(tables).map(([file, table]) => [file, formatCsv(table.columns, table.records)])
+  );
+  return { zip: createZip(files), tables, issues };
+}
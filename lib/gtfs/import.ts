@@ -0,0 +1,356 @@
+/**
+ * GTFS static feed importer
+ * Reads agency, routes, trips, stops, stop_times, shapes, calendar and
+ * calendar_dates from a feed zip into a GtfsStore
+ *
+ * Mapping onto the domain model:
+ * - Line: one per route_id (lineId = route_short_name)
+ * - Route: one per route_id + direction_id, code "<route_id>:<direction_id>"
+ * - Stop: code = stop_code, falling back to stop_id
+ */
+
+import { distanceMeters } from '../geo';
+import type { City } from '../providers/types';
+import type { Direction, Line, RoutePoint, Stop } from '../types';
+import { forEachCsvRecord, parseCsv, type CsvRecord } from './csv';
+import { GtfsImportError } from './errors';
+import type { GtfsRoutePattern, GtfsService, GtfsStore } from './types';
+import { unzipTextFiles } from './zip';
+
+const REQUIRED_FILES = ['routes.txt', 'trips.txt', 'stops.txt', 'stop_times.txt'];
+
+// Stop-like location types to skip (stations, entrances, generic nodes, boarding areas)
+const NON_STOP_LOCATION_TYPES = new Set(['1', '2', '3', '4']);
+
+/**
+ * Route code of one direction of a GTFS route
+ */
+export function toRouteCode(routeId: string, directionId: string): string {
+  return `${routeId}:${directionId || '0'}`;
+}
+
+// =============================================================================
+// Field helpers
+// =============================================================================
+
+function requireField(record: CsvRecord, field: string, file: string, rowNumber: number): string {
+  const value = record[field];
+  if (!value) {
+    throw new GtfsImportError(`missing ${field} on row ${rowNumber}`, file);
+  }
+  return value;
+}
+
+function requireCoordinate(record: CsvRecord, field: string, file: string, rowNumber: number): number {
+  const value = Number(requireField(record, field, file, rowNumber));
+  if (!Number.isFinite(value)) {
+    throw new GtfsImportError(`invalid ${field} "${record[field]}" on row ${rowNumber}`, file);
+  }
+  return value;
+}
+
+/**
+ * "20250421" -> "2025-04-21"
+ */
+function toIsoDate(value: string | undefined): string | null {
+  if (!value || !/^\d{8}$/.test(value)) return null;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+/**
+ * GTFS times may run past midnight ("25:10:00") - wrap them onto the clock
+ */
+function toClockTime(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const hours = (Number(match[1]) % 24).toString().padStart(2, '0');
+  return `${hours}:${match[2]}`;
+}
+
+function mostFrequent<T>(values: T[], key: (value: T) => string): T | undefined {
+  const counts = new Map<string, { value: T; count: number }>();
+  values.forEach(value => {
+    const k = key(value);
+    const entry = counts.get(k);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(k, { value, count: 1 });
+    }
+  });
+
+  let best: { value: T; count: number } | undefined;
+  counts.forEach(entry => {
+    if (!best || entry.count > best.count) best = entry;
+  });
+  return best?.value;
+}
+
+// =============================================================================
+// Files
+// =============================================================================
+
+function readStops(text: string): { stops: Stop[]; codeById: Map<string, string> } {
+  const file = 'stops.txt';
+  const stops: Stop[] = [];
+  const codeById = new Map<string, string>();
+
+  forEachCsvRecord(text, file, (record, rowNumber) => {
+    if (NON_STOP_LOCATION_TYPES.has(record.location_type)) return;
+
+    const id = requireField(record, 'stop_id', file, rowNumber);
+    const code = record.stop_code || id;
+    const name = record.stop_name || code;
+    codeById.set(id, code);
+
+    stops.push({
+      code,
+      id,
+      name,
+      nameEn: name,
+      street: record.stop_desc || null,
+      streetEn: record.stop_desc || null,
+      heading: null,
+      lat: requireCoordinate(record, 'stop_lat', file, rowNumber),
+      lng: requireCoordinate(record, 'stop_lon', file, rowNumber),
+      accessible: record.wheelchair_boarding === '1' ? true : record.wheelchair_boarding === '2' ? false : undefined,
+    });
+  });
+
+  return { stops, codeById };
+}
+
+function readShapes(text: string | undefined): Record<string, RoutePoint[]> {
+  const file = 'shapes.txt';
+  const shapes: Record<string, RoutePoint[]> = {};
+  if (!text) return shapes;
+
+  forEachCsvRecord(text, file, (record, rowNumber) => {
+    const shapeId = requireField(record, 'shape_id', file, rowNumber);
+    (shapes[shapeId] ??= []).push({
+      lat: requireCoordinate(record, 'shape_pt_lat', file, rowNumber),
+      lng: requireCoordinate(record, 'shape_pt_lon', file, rowNumber),
+      order: Number(record.shape_pt_sequence) || 0,
+    });
+  });
+
+  Object.values(shapes).forEach(points => points.sort((a, b) => a.order - b.order));
+  return shapes;
+}
+
+function readServices(calendar: string | undefined, calendarDates: string | undefined): Record<string, GtfsService> {
+  const services: Record<string, GtfsService> = {};
+  const serviceFor = (id: string) =>
+    (services[id] ??= {
+      weekdays: [false, false, false, false, false, false, false],
+      startDate: null,
+      endDate: null,
+      added: [],
+      removed: [],
+    });
+
+  if (calendar) {
+    const dayFields = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+    forEachCsvRecord(calendar, 'calendar.txt', (record, rowNumber) => {
+      const service = serviceFor(requireField(record, 'service_id', 'calendar.txt', rowNumber));
+      service.weekdays = dayFields.map(day => record[day] === '1');
+      service.startDate = toIsoDate(record.start_date);
+      service.endDate = toIsoDate(record.end_date);
+    });
+  }
+
+  if (calendarDates) {
+    forEachCsvRecord(calendarDates, 'calendar_dates.txt', (record, rowNumber) => {
+      const service = serviceFor(requireField(record, 'service_id', 'calendar_dates.txt', rowNumber));
+      const date = toIsoDate(record.date);
+      if (!date) {
+        throw new GtfsImportError(`invalid date "${record.date}" on row ${rowNumber}`, 'calendar_dates.txt');
+      }
+      (record.exception_type === '2' ? service.removed : service.added).push(date);
+    });
+  }
+
+  return services;
+}
+
+/**
+ * One trip's stops as parallel arrays (no object per stop_times row)
+ */
+interface TripStopTimes {
+  sequences: number[];
+  stopIds: string[];
+  /** Departure time at the first stop (lowest stop_sequence) */
+  departure: string | null;
+  firstSequence: number;
+}
+
+/**
+ * Group stop_times by trip (the largest file - rows are streamed straight
+ * into per-trip arrays, only the first departure of each trip is kept)
+ */
+function readStopTimes(text: string): Map<string, TripStopTimes> {
+  const file = 'stop_times.txt';
+  const byTrip = new Map<string, TripStopTimes>();
+
+  forEachCsvRecord(text, file, (record, rowNumber) => {
+    const tripId = requireField(record, 'trip_id', file, rowNumber);
+    let trip = byTrip.get(tripId);
+    if (!trip) {
+      trip = { sequences: [], stopIds: [], departure: null, firstSequence: Infinity };
+      byTrip.set(tripId, trip);
+    }
+    const sequence = Number(record.stop_sequence) || 0;
+    if (sequence < trip.firstSequence) {
+      trip.firstSequence = sequence;
+      trip.departure = toClockTime(record.departure_time || record.arrival_time);
+    }
+    trip.sequences.push(sequence);
+    trip.stopIds.push(requireField(record, 'stop_id', file, rowNumber));
+  });
+
+  // Feeds normally list a trip's stops in order; reorder the ones that don't
+  byTrip.forEach(trip => {
+    const inOrder = trip.sequences.every((sequence, i) => i === 0 || trip.sequences[i - 1] <= sequence);
+    if (inOrder) return;
+    const order = trip.sequences.map((_, i) => i).sort((a, b) => trip.sequences[a] - trip.sequences[b]);
+    trip.stopIds = order.map(i => trip.stopIds[i]);
+    trip.sequences = order.map(i => trip.sequences[i]);
+  });
+  return byTrip;
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+function shapeLength(points: RoutePoint[]): number | null {
+  if (points.length < 2) return null;
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceMeters(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng);
+  }
+  return Math.round(total);
+}
+
+/**
+ * Read a GTFS static feed zip into a store for a city
+ * Throws GtfsImportError naming the offending file
+ */
+export function importGtfs(zip: Uint8Array, city: City, now: Date = new Date()): GtfsStore {
+  const files = unzipTextFiles(zip);
+  REQUIRED_FILES.forEach(name => {
+    if (!files.has(name)) throw new GtfsImportError('missing from feed', name);
+  });
+
+  const agency = files.has('agency.txt') ? parseCsv(files.get('agency.txt')!, 'agency.txt')[0] : undefined;
+  const feedInfo = files.has('feed_info.txt') ? parseCsv(files.get('feed_info.txt')!, 'feed_info.txt')[0] : undefined;
+
+  // Lines
+  const lines: Line[] = [];
+  const lineById = new Map<string, Line>();
+  forEachCsvRecord(files.get('routes.txt')!, 'routes.txt', (record, rowNumber) => {
+    const code = requireField(record, 'route_id', 'routes.txt', rowNumber);
+    const name = record.route_long_name || record.route_short_name || code;
+    const line: Line = {
+      code,
+      lineId: record.route_short_name || code,
+      name,
+      nameEn: name,
+    };
+    lines.push(line);
+    lineById.set(code, line);
+  });
+
+  const { stops, codeById } = readStops(files.get('stops.txt')!);
+  const shapes = readShapes(files.get('shapes.txt'));
+  const services = readServices(files.get('calendar.txt'), files.get('calendar_dates.txt'));
+  const stopTimes = readStopTimes(files.get('stop_times.txt')!);
+
+  // Trips grouped by line direction
+  interface PatternTrip {
+    headsign: string;
+    shapeId: string | null;
+    serviceId: string;
+    stopCodes: string[];
+    departure: string | null;
+  }
+  const tripsByRoute = new Map<string, { lineCode: string; directionId: string; trips: PatternTrip[] }>();
+
+  forEachCsvRecord(files.get('trips.txt')!, 'trips.txt', (record, rowNumber) => {
+    const lineCode = requireField(record, 'route_id', 'trips.txt', rowNumber);
+    const tripId = requireField(record, 'trip_id', 'trips.txt', rowNumber);
+    if (!lineById.has(lineCode)) {
+      throw new GtfsImportError(`unknown route_id "${lineCode}" on row ${rowNumber}`, 'trips.txt');
+    }
+
+    const times = stopTimes.get(tripId);
+    if (!times || times.stopIds.length === 0) return;
+
+    const directionId = record.direction_id || '0';
+    const code = toRouteCode(lineCode, directionId);
+    let group = tripsByRoute.get(code);
+    if (!group) {
+      group = { lineCode, directionId, trips: [] };
+      tripsByRoute.set(code, group);
+    }
+    group.trips.push({
+      headsign: record.trip_headsign,
+      shapeId: record.shape_id || null,
+      serviceId: requireField(record, 'service_id', 'trips.txt', rowNumber),
+      stopCodes: times.stopIds.map(stopId => codeById.get(stopId) ?? stopId),
+      departure: times.departure,
+    });
+  });
+
+  // One pattern per line direction, using the most common stop sequence
+  const routes: GtfsRoutePattern[] = [];
+  const departures: GtfsStore['departures'] = {};
+
+  tripsByRoute.forEach(({ lineCode, directionId, trips }, code) => {
+    const line = lineById.get(lineCode)!;
+    const typical = mostFrequent(trips, trip => trip.stopCodes.join('|'))!;
+    const headsign = mostFrequent(trips.filter(trip => trip.headsign), trip => trip.headsign)?.headsign;
+    const shapeId = typical.shapeId && shapes[typical.shapeId] ? typical.shapeId : null;
+    const direction: Direction = directionId === '1' ? 'inbound' : 'outbound';
+
+    routes.push({
+      code,
+      lineCode,
+      name: headsign || line.name,
+      nameEn: headsign || line.nameEn,
+      direction,
+      distanceMeters: shapeId ? shapeLength(shapes[shapeId]) : null,
+      shapeId,
+      stopCodes: typical.stopCodes,
+    });
+
+    const byService: Record<string, string[]> = {};
+    trips.forEach(trip => {
+      if (trip.departure) (byService[trip.serviceId] ??= []).push(trip.departure);
+    });
+    Object.values(byService).forEach(times => times.sort());
+    departures[code] = byService;
+  });
+
+  // Outbound before inbound within each line, like the live providers
+  const lineOrder = new Map(lines.map((line, index) => [line.code, index]));
+  routes.sort((a, b) =>
+    a.lineCode === b.lineCode
+      ? a.code.localeCompare(b.code)
+      : lineOrder.get(a.lineCode)! - lineOrder.get(b.lineCode)!
+  );
+  const servedLines = new Set(routes.map(route => route.lineCode));
+
+  return {
+    city,
+    importedAt: now.getTime(),
+    feedVersion: feedInfo?.feed_version || null,
+    agencyName: agency?.agency_name || null,
+    lines: lines.filter(line => servedLines.has(line.code)),
+    routes,
+    stops,
+    shapes,
+    services,
+    departures,
+  };
+}
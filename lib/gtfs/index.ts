@@ -0,0 +1,165 @@
+/**
+ * GTFS Module Index
+ * Imports static GTFS feeds as an offline data source for a city,
+ * exports a city's network as a GTFS feed and encodes live data as GTFS-Realtime
+ *
+ * An imported feed is saved on the device and its provider is registered
+ * in front of the city's live provider (see withOfflineFallback), so lines,
+ * stop sequences and timetables keep working without connectivity. Feeds
+ * are re-keyed by the live codes (see live-codes.ts) so the fallback
+ * answers the codes the app already uses.
+ */
+
+import { fetchBytes, type EndpointPolicy, type RequestOptions } from '../http';
+import { getProvider, hasProvider, registerProvider, type City, type TransitProvider } from '../providers';
+import { GtfsImportError } from './errors';
+import { importGtfs } from './import';
+import { keyByLiveCodes } from './live-codes';
+import { createGtfsProvider, withOfflineFallback } from './provider';
+import { deleteGtfsStore, listStoredGtfsFeeds, loadGtfsStore, saveGtfsStore } from './store';
+import type { GtfsStore } from './types';
+
+// Types
+export type { GtfsIssue, GtfsRoutePattern, GtfsService, GtfsStore, GtfsTable, GtfsTables } from './types';
+export type { GtfsExportOptions, GtfsExportResult } from './export';
+export type {
+  FeedEntity,
+  FeedHeader,
+  FeedMessage,
+  Position,
+  RealtimeFeedOptions,
+  RealtimeRoute,
+  StopArrivals,
+  StopTimeEvent,
+  StopTimeUpdate,
+  TripDescriptor,
+  TripUpdate,
+  VehicleDescriptor,
+  VehiclePosition,
+} from './realtime';
+
+// Errors
+export { GtfsExportError, GtfsImportError } from './errors';
+
+// Importer and provider
+export { importGtfs, toRouteCode } from './import';
+export { keyByLiveCodes } from './live-codes';
+export { createGtfsProvider, withOfflineFallback } from './provider';
+export { deleteGtfsStore, listStoredGtfsFeeds, loadGtfsStore, saveGtfsStore } from './store';
+
+// Exporter
+export { exportGtfs } from './export';
+export { hasGtfsErrors, validateGtfsFeed } from './validate';
+
+// Realtime
+export { buildRealtimeFeed, collectRealtimeFeed, encodeFeedMessage, feedToDebugJson } from './realtime';
+
+// Whole-network feeds run to tens of megabytes
+const FEED_DOWNLOAD_POLICY: EndpointPolicy = {
+  timeoutMs: 5 * 60 * 1000,
+  retries: 1,
+};
+
+// Live providers replaced by a fallback wrapper, so re-imports never wrap twice
+const liveProviders = new Map<City, TransitProvider>();
+
+/**
+ * The city's live provider, even once a fallback wrapper is registered
+ */
+function liveProvider(city: City): TransitProvider {
+  return liveProviders.get(city) ?? getProvider(city);
+}
+
+/**
+ * Register a store's provider in front of the city's live provider
+ */
+function installStore(store: GtfsStore): void {
+  const live = liveProvider(store.city);
+  liveProviders.set(store.city, live);
+  registerProvider(withOfflineFallback(live, createGtfsProvider(store, live.config)));
+}
+
+/**
+ * Key a store by live codes, or keep its feed codes while the live
+ * provider cannot be reached (restoreGtfsFeeds tries again)
+ */
+async function keyStore(store: GtfsStore, options: RequestOptions = {}): Promise<GtfsStore> {
+  try {
+    return await keyByLiveCodes(store, liveProvider(store.city), options);
+  } catch (e) {
+    if (options.signal?.aborted) throw e;
+    console.warn('GTFS feed kept its own codes:', e);
+    return store;
+  }
+}
+
+/**
+ * Import a feed zip (URL or bytes) for a city, save it and start using it
+ * Raises GtfsImportError for unreadable feeds and TransitApiError subclasses
+ * when the download fails
+ */
+export async function importGtfsFeed(
+  city: City,
+  source: string | ArrayBuffer | Uint8Array,
+  options: RequestOptions = {}
+): Promise<GtfsStore> {
+  if (!hasProvider(city)) {
+    throw new GtfsImportError(`No transit provider registered for city "${city}"`);
+  }
+
+  let bytes: Uint8Array;
+  if (typeof source === 'string') {
+    const body = await fetchBytes({
+      url: source,
+      init: {},
+      operator: liveProvider(city).operator,
+      endpoint: 'gtfsFeed',
+      policy: FEED_DOWNLOAD_POLICY,
+      signal: options.signal,
+    });
+    bytes = new Uint8Array(body);
+  } else {
+    bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+  }
+
+  const store = await keyStore(importGtfs(bytes, city), options);
+  // Nothing is saved once the caller gave up
+  if (options.signal?.aborted) throw options.signal.reason;
+  await saveGtfsStore(store);
+  installStore(store);
+  return store;
+}
+
+/**
+ * Remove a city's feed and go back to its live provider only
+ */
+export async function removeGtfsFeed(city: City): Promise<void> {
+  await deleteGtfsStore(city);
+  const live = liveProviders.get(city);
+  if (live) {
+    registerProvider(live);
+    liveProviders.delete(city);
+  }
+}
+
+/**
+ * Re-install the feeds saved on the device (called at startup)
+ */
+export async function restoreGtfsFeeds(): Promise<void> {
+  const cities = await listStoredGtfsFeeds();
+  await Promise.all(
+    cities.filter(hasProvider).map(async city => {
+      const store = await loadGtfsStore(city);
+      if (!store) return;
+      installStore(store);
+      // Feeds imported while offline are keyed once the live provider answers
+      if (!store.liveRouteAliases) {
+        const keyed = await keyStore(store);
+        if (keyed !== store) {
+          await saveGtfsStore(keyed);
+          installStore(keyed);
+        }
+      }
+    })
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Live codes for imported feeds
+ * A feed names lines by route_id and routes "<route_id>:<direction_id>",
+ * while the app (and everything it has cached) uses the live operator's
+ * codes. Re-keying a store by the live codes lets withOfflineFallback
+ * answer the same lookups the live provider failed.
+ *
+ * Lines are matched by their public number (route_short_name / LineID),
+ * routes by line and direction. Anything unmatched keeps its feed code.
+ */
+
+import { isTransitApiError } from '../errors';
+import type { RequestOptions } from '../http';
+import type { TransitProvider } from '../providers/types';
+import type { Line } from '../types';
+import type { GtfsStore } from './types';
+
+const CONCURRENCY = 4; // Lines whose routes are fetched in parallel
+
+/**
+ * "040" and "40 " are the same line number
+ */
+function normalizeLineNumber(lineId: string): string {
+  return lineId.trim().toUpperCase().replace(/^0+(?=.)/, '');
+}
+
+/**
+ * Re-key a store's lines and routes by the live provider's codes
+ * Raises the live provider's error if its lines cannot be fetched
+ */
+export async function keyByLiveCodes(
+  store: GtfsStore,
+  live: TransitProvider,
+  options: RequestOptions = {}
+): Promise<GtfsStore> {
+  const liveLines = await live.getLines(options);
+  const liveByNumber = new Map<string, Line>();
+  liveLines.forEach(line => {
+    const key = normalizeLineNumber(line.lineId);
+    if (!liveByNumber.has(key)) liveByNumber.set(key, line);
+  });
+
+  // Feed line code -> live line code
+  const lineCodes = new Map<string, string>();
+  const claimed = new Set<string>();
+  store.lines.forEach(line => {
+    const match = liveByNumber.get(normalizeLineNumber(line.lineId));
+    if (!match || claimed.has(match.code)) return;
+    lineCodes.set(line.code, match.code);
+    claimed.add(match.code);
+  });
+
+  // Feed route code -> live route code; the feed keeps one pattern per
+  // direction, so further live variants of a direction become aliases
+  const routeCodes = new Map<string, string>();
+  const aliases: Record<string, string> = {};
+  const pending = Array.from(lineCodes);
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const [feedLineCode, liveLineCode] = pending[next++];
+      let liveRoutes;
+      try {
+        liveRoutes = await live.getRoutesForLine(liveLineCode, options);
+      } catch (e) {
+        if (options.signal?.aborted || !isTransitApiError(e)) throw e;
+        continue;
+      }
+      store.routes
+        .filter(route => route.lineCode === feedLineCode)
+        .forEach(route => {
+          const [first, ...variants] = liveRoutes.filter(liveRoute => liveRoute.direction === route.direction);
+          if (!first) return;
+          routeCodes.set(route.code, first.code);
+          variants.forEach(variant => {
+            aliases[variant.code] = first.code;
+          });
+        });
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  const lineCode = (code: string) => lineCodes.get(code) ?? code;
+  const routeCode = (code: string) => routeCodes.get(code) ?? code;
+  return {
+    ...store,
+    lines: store.lines.map(line => ({ ...line, code: lineCode(line.code) })),
+    routes: store.routes.map(route => ({ ...route, code: routeCode(route.code), lineCode: lineCode(route.lineCode) })),
+    departures: Object.fromEntries(
+      Object.entries(store.departures).map(([code, byService]) => [routeCode(code), byService])
+    ),
+    liveRouteAliases: aliases,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Minimal protobuf wire-format writer
+ * Enough of the encoding for GTFS-Realtime: varints (including negative
+ * int32/int64), fixed32 floats, doubles, strings and nested messages
+ */
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+const TWO_POW_32 = 0x100000000;
+
+export class ProtoWriter {
+  private bytes: number[] = [];
+  private readonly scratch = new DataView(new ArrayBuffer(8));
+
+  private tag(field: number, wireType: number): void {
+    this.rawVarint(field * 8 + wireType, 0);
+  }
+
+  /**
+   * Varint from the low and high 32 bits of a 64-bit value
+   */
+  private rawVarint(low: number, high: number): void {
+    let lo = low >>> 0;
+    let hi = high >>> 0;
+    while (hi > 0 || lo > 0x7f) {
+      this.bytes.push((lo & 0x7f) | 0x80);
+      lo = ((lo >>> 7) | (hi << 25)) >>> 0;
+      hi = hi >>> 7;
+    }
+    this.bytes.push(lo);
+  }
+
+  /**
+   * Integer as a varint - negative values use 64-bit two's complement,
+   * as protobuf does for int32 and int64
+   */
+  private integer(value: number): void {
+    const n = Math.trunc(value);
+    if (n >= 0) {
+      this.rawVarint(n % TWO_POW_32, Math.floor(n / TWO_POW_32));
+    } else {
+      // Two's complement of |n| across 64 bits
+      const magnitude = -n;
+      let lo = (~(magnitude % TWO_POW_32) + 1) >>> 0;
+      let hi = ~Math.floor(magnitude / TWO_POW_32) >>> 0;
+      if (lo === 0) hi = (hi + 1) >>> 0;
+      this.rawVarint(lo, hi);
+    }
+  }
+
+  /** uint32, uint64, int32, int64 and enums (skipped when undefined) */
+  varint(field: number, value: number | undefined): this {
+    if (value === undefined) return this;
+    this.tag(field, WIRE_VARINT);
+    this.integer(value);
+    return this;
+  }
+
+  bool(field: number, value: boolean | undefined): this {
+    if (value === undefined) return this;
+    this.tag(field, WIRE_VARINT);
+    this.bytes.push(value ? 1 : 0);
+    return this;
+  }
+
+  float(field: number, value: number | undefined): this {
+    if (value === undefined) return this;
+    this.tag(field, WIRE_FIXED32);
+    this.scratch.setFloat32(0, value, true);
+    for (let i = 0; i < 4; i++) this.bytes.push(this.scratch.getUint8(i));
+    return this;
+  }
+
+  double(field: number, value: number | undefined): this {
+    if (value === undefined) return this;
+    this.tag(field, WIRE_FIXED64);
+    this.scratch.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) this.bytes.push(this.scratch.getUint8(i));
+    return this;
+  }
+
+  string(field: number, value: string | undefined): this {
+    if (value === undefined) return this;
+    return this.lengthDelimited(field, new TextEncoder().encode(value));
+  }
+
+  /**
+   * Nested message written by `write` (skipped when value is undefined)
+   */
+  message<T>(field: number, value: T | undefined, write: (writer: ProtoWriter, value: T) => void): this {
+    if (value === undefined) return this;
+    const nested = new ProtoWriter();
+    write(nested, value);
+    return this.lengthDelimited(field, nested.finish());
+  }
+
+  /**
+   * Repeated nested messages
+   */
+  messages<T>(field: number, values: T[] | undefined, write: (writer: ProtoWriter, value: T) => void): this {
+    values?.forEach(value => this.message(field, value, write));
+    return this;
+  }
+
+  private lengthDelimited(field: number, data: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.integer(data.length);
+    for (let i = 0; i < data.length; i++) this.bytes.push(data[i]);
+    return this;
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
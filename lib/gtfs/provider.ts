@@ -0,0 +1,295 @@
+/**
+ * GTFS provider
+ * Serves an imported feed through the TransitProvider contract, and wraps
+ * a live provider so it falls back to the feed when offline or when the
+ * operator's API lacks an endpoint
+ */
+
+import { fromGreekTime, getServiceDayType, toGreekDate } from '../calendar';
+import { isTransitApiError, UnsupportedOperationError, UpstreamEmptyError } from '../errors';
+import type { RequestOptions } from '../http';
+import { supports } from '../providers/registry';
+import type { CityConfig, TransitCapability, TransitProvider } from '../providers/types';
+import { pickActiveDay } from '../schedule';
+import { SpatialIndex } from '../spatial-index';
+import type { DaySchedule, Line, LineScheduleResult, ServiceDayType, Stop } from '../types';
+import type { GtfsRoutePattern, GtfsService, GtfsStore } from './types';
+
+const CLOSEST_STOPS_LIMIT = 20;
+
+const GTFS_CAPABILITIES: readonly TransitCapability[] = [
+  'lines',
+  'routes',
+  'routeDetails',
+  'routeStops',
+  'closestStops',
+  'routesForStop',
+  'schedules',
+  'routeNames',
+];
+
+// Timetables built from the feed's calendars, in display order
+const DAY_TYPES: { dayType: ServiceDayType; name: string; nameEn: string }[] = [
+  { dayType: 'weekday', name: 'ΚΑΘΗΜΕΡΙΝΕΣ', nameEn: 'WEEKDAYS' },
+  { dayType: 'saturday', name: 'ΣΑΒΒΑΤΟ', nameEn: 'SATURDAY' },
+  { dayType: 'sunday', name: 'ΚΥΡΙΑΚΗ - ΑΡΓΙΕΣ', nameEn: 'SUNDAY - HOLIDAYS' },
+];
+
+// =============================================================================
+// Calendar
+// =============================================================================
+
+/**
+ * Whether a service runs on a date (calendar_dates exceptions first)
+ */
+function runsOn(service: GtfsService, date: Date): boolean {
+  const { key, weekday } = toGreekDate(date);
+  if (service.removed.includes(key)) return false;
+  if (service.added.includes(key)) return true;
+  if (!service.startDate || !service.endDate) return false;
+  return key >= service.startDate && key <= service.endDate && service.weekdays[weekday];
+}
+
+/**
+ * Next date (from `from`, within two weeks) running a day type
+ */
+function nextDateOfType(dayType: ServiceDayType, from: Date): Date {
+  const { year, month, day } = toGreekDate(from);
+  for (let i = 0; i < 14; i++) {
+    // Noon in Athens, so the date stays put whatever the device's time zone
+    const date = fromGreekTime(year, month - 1, day + i, 12);
+    if (getServiceDayType(date) === dayType) return date;
+  }
+  return from;
+}
+
+/**
+ * Service ids running on the next date of a day type
+ * If the feed has expired, falls back to every service running on that weekday
+ */
+function servicesForDayType(services: Record<string, GtfsService>, dayType: ServiceDayType, from: Date): Set<string> {
+  const date = nextDateOfType(dayType, from);
+  const entries = Object.entries(services);
+
+  const active = entries.filter(([, service]) => runsOn(service, date));
+  const matching = active.length > 0
+    ? active
+    : entries.filter(([, service]) => service.weekdays[toGreekDate(date).weekday]);
+  return new Set(matching.map(([id]) => id));
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+/**
+ * Create a provider answering from an imported feed
+ * Live-only operations (arrivals, vehicles) raise UnsupportedOperationError,
+ * unknown codes raise UpstreamEmptyError
+ */
+export function createGtfsProvider(store: GtfsStore, config: CityConfig): TransitProvider {
+  const operator = store.agencyName ?? 'GTFS';
+
+  const lineByCode = new Map(store.lines.map(line => [line.code, line]));
+  const routeByCode = new Map(store.routes.map(route => [route.code, route]));
+  Object.entries(store.liveRouteAliases ?? {}).forEach(([alias, code]) => {
+    const route = routeByCode.get(code);
+    if (route && !routeByCode.has(alias)) routeByCode.set(alias, route);
+  });
+  const stopByCode = new Map(store.stops.map(stop => [stop.code, stop]));
+  const stopIndex = new SpatialIndex(store.stops);
+  const routesByLine = new Map<string, GtfsRoutePattern[]>();
+  store.routes.forEach(route => {
+    const routes = routesByLine.get(route.lineCode) ?? [];
+    routes.push(route);
+    routesByLine.set(route.lineCode, routes);
+  });
+
+  const notFound = (endpoint: string) => new UpstreamEmptyError({ operator, endpoint });
+  const unsupported = (endpoint: string) => new UnsupportedOperationError({ operator, endpoint });
+
+  const requireRoute = (routeCode: string, endpoint: string): GtfsRoutePattern => {
+    const route = routeByCode.get(routeCode);
+    if (!route) throw notFound(endpoint);
+    return route;
+  };
+
+  const routeStops = (route: GtfsRoutePattern): Stop[] =>
+    route.stopCodes.flatMap((code, index) => {
+      const stop = stopByCode.get(code);
+      return stop ? [{ ...stop, order: index + 1 }] : [];
+    });
+
+  return {
+    id: config.id,
+    operator,
+    config,
+    capabilities: GTFS_CAPABILITIES,
+
+    async getLines(): Promise<Line[]> {
+      return store.lines;
+    },
+
+    async getRoutesForLine(lineCode) {
+      const routes = routesByLine.get(lineCode);
+      if (!routes) throw notFound('getRoutesForLine');
+      return routes;
+    },
+
+    async getRouteDetails(routeCode) {
+      const route = requireRoute(routeCode, 'getRouteDetails');
+      const shape = route.shapeId ? store.shapes[route.shapeId] : undefined;
+      if (shape) return shape;
+      // No shape in the feed - draw the route through its stops
+      return routeStops(route).map(stop => ({ lat: stop.lat, lng: stop.lng, order: stop.order! }));
+    },
+
+    async getBusLocations() {
+      throw unsupported('getBusLocations');
+    },
+
+    async getStopArrivals() {
+      throw unsupported('getStopArrivals');
+    },
+
+    async getClosestStops(lat, lng) {
+      return stopIndex
+        .nearest(lat, lng, CLOSEST_STOPS_LIMIT)
+        .map(({ item, distanceMeters }) => ({ ...item, distanceMeters }));
+    },
+
+    async getRoutesForStop(stopCode) {
+      if (!stopByCode.has(stopCode)) throw notFound('getRoutesForStop');
+      return store.routes
+        .filter(route => route.stopCodes.includes(stopCode))
+        .map(route => {
+          const line = lineByCode.get(route.lineCode)!;
+          return {
+            routeCode: route.code,
+            routeName: route.name,
+            routeNameEn: route.nameEn,
+            direction: route.direction,
+            lineCode: line.code,
+            lineId: line.lineId,
+            lineName: line.name,
+            lineNameEn: line.nameEn,
+            masterLineCode: line.code,
+          };
+        });
+    },
+
+    async getLineSchedule(_mlCode, lineCode, _options?: RequestOptions, date: Date = new Date()): Promise<LineScheduleResult> {
+      const routes = routesByLine.get(lineCode);
+      if (!routes) throw notFound('getLineSchedule');
+
+      const timesFor = (direction: GtfsRoutePattern['direction'], serviceIds: Set<string>) => {
+        const times = new Set<string>();
+        routes
+          .filter(route => route.direction === direction)
+          .forEach(route => {
+            Object.entries(store.departures[route.code] ?? {}).forEach(([serviceId, departures]) => {
+              if (serviceIds.has(serviceId)) departures.forEach(time => times.add(time));
+            });
+          });
+        return Array.from(times).sort();
+      };
+
+      const days: DaySchedule[] = DAY_TYPES.map(({ dayType, name, nameEn }) => {
+        const serviceIds = servicesForDayType(store.services, dayType, date);
+        return {
+          code: dayType,
+          name,
+          nameEn,
+          dayType,
+          departure: timesFor('outbound', serviceIds),
+          return: timesFor('inbound', serviceIds),
+        };
+      }).filter(day => day.departure.length > 0 || day.return.length > 0);
+
+      return { days, activeDayCode: pickActiveDay(days, date) };
+    },
+
+    async getStops(routeCode) {
+      return routeStops(requireRoute(routeCode, 'getStops'));
+    },
+
+    async getRouteName(routeCode) {
+      const route = requireRoute(routeCode, 'getRouteName');
+      return [{ route_descr: route.name, route_descr_eng: route.nameEn }];
+    },
+  };
+}
+
+// =============================================================================
+// Fallback
+// =============================================================================
+
+/**
+ * Wrap a live provider so every operation falls back to the offline one
+ * - operations the live provider lacks are answered offline directly
+ * - live transit failures (network, timeout, HTTP, decode, ...) are retried
+ *   offline; if the feed cannot answer either, the live error is raised
+ */
+export function withOfflineFallback(live: TransitProvider, offline: TransitProvider): TransitProvider {
+  const capabilities = Array.from(new Set([...live.capabilities, ...offline.capabilities]));
+
+  async function run<T>(
+    capability: TransitCapability,
+    fromLive: (() => Promise<T>) | undefined,
+    fromOffline: (() => Promise<T>) | undefined
+  ): Promise<T> {
+    const liveCall = supports(live, capability) ? fromLive : undefined;
+    const offlineCall = supports(offline, capability) ? fromOffline : undefined;
+
+    if (!liveCall) {
+      if (!offlineCall) throw new UnsupportedOperationError({ operator: live.operator, endpoint: capability });
+      return offlineCall();
+    }
+    try {
+      return await liveCall();
+    } catch (e) {
+      if (!offlineCall || !isTransitApiError(e)) throw e;
+      try {
+        return await offlineCall();
+      } catch {
+        throw e;
+      }
+    }
+  }
+
+  return {
+    id: live.id,
+    operator: live.operator,
+    config: live.config,
+    capabilities,
+
+    getLines: options =>
+      run('lines', () => live.getLines(options), () => offline.getLines(options)),
+    getRoutesForLine: (lineCode, options) =>
+      run('routes', () => live.getRoutesForLine(lineCode, options), () => offline.getRoutesForLine(lineCode, options)),
+    getRouteDetails: (routeCode, options) =>
+      run('routeDetails', () => live.getRouteDetails(routeCode, options), () => offline.getRouteDetails(routeCode, options)),
+    getBusLocations: (routeCode, options) =>
+      run('vehicles', () => live.getBusLocations(routeCode, options), () => offline.getBusLocations(routeCode, options)),
+    getStopArrivals: (stopCode, options) =>
+      run('arrivals', () => live.getStopArrivals(stopCode, options), () => offline.getStopArrivals(stopCode, options)),
+    getClosestStops: (lat, lng, options) =>
+      run('closestStops', () => live.getClosestStops(lat, lng, options), () => offline.getClosestStops(lat, lng, options)),
+    getRoutesForStop: (stopCode, options) =>
+      run('routesForStop', () => live.getRoutesForStop(stopCode, options), () => offline.getRoutesForStop(stopCode, options)),
+    getLineSchedule: (mlCode, lineCode, options) =>
+      run('schedules', () => live.getLineSchedule(mlCode, lineCode, options), () => offline.getLineSchedule(mlCode, lineCode, options)),
+    getStops: (routeCode, options) =>
+      run(
+        'routeStops',
+        live.getStops && (() => live.getStops!(routeCode, options)),
+        offline.getStops && (() => offline.getStops!(routeCode, options))
+      ),
+    getRouteName: (routeCode, options) =>
+      run(
+        'routeNames',
+        live.getRouteName && (() => live.getRouteName!(routeCode, options)),
+        offline.getRouteName && (() => offline.getRouteName!(routeCode, options))
+      ),
+  };
+}
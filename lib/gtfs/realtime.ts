@@ -0,0 +1,350 @@
+/**
+ * GTFS-Realtime encoder
+ * Converts polled BusLocation and StopArrival data into a FeedMessage with
+ * VehiclePosition and TripUpdate entities, as protobuf bytes or as the
+ * proto3 JSON form for debugging
+ *
+ * Field numbers follow gtfs-realtime.proto (version 2.0). The telematics APIs
+ * publish no trip ids, so trips are identified by route_id and direction_id,
+ * which match the static export: a line is a GTFS route, its provider routes
+ * are directions of it.
+ */
+
+import type { RequestOptions } from '../http';
+import type { City } from '../providers';
+import { loadStopCatalog } from '../stop-catalog';
+import type { BusLocation, Route, StopArrival } from '../types';
+import * as api from '../unified-api';
+import { gtfsDirectionId } from './export';
+import { ProtoWriter } from './protobuf';
+
+// =============================================================================
+// Messages (proto3 JSON field names)
+// =============================================================================
+
+export type Incrementality = 'FULL_DATASET' | 'DIFFERENTIAL';
+export type TripScheduleRelationship = 'SCHEDULED' | 'ADDED' | 'UNSCHEDULED' | 'CANCELED';
+export type StopTimeScheduleRelationship = 'SCHEDULED' | 'SKIPPED' | 'NO_DATA';
+
+export interface FeedHeader {
+  gtfsRealtimeVersion: string;
+  incrementality: Incrementality;
+  timestamp: number; // POSIX seconds
+}
+
+export interface TripDescriptor {
+  tripId?: string;
+  routeId?: string;
+  directionId?: number;
+  startTime?: string;
+  startDate?: string;
+  scheduleRelationship?: TripScheduleRelationship;
+}
+
+export interface VehicleDescriptor {
+  id?: string;
+  label?: string;
+  licensePlate?: string;
+}
+
+export interface Position {
+  latitude: number;
+  longitude: number;
+  bearing?: number;
+  speed?: number; // Meters per second
+}
+
+export interface VehiclePosition {
+  trip?: TripDescriptor;
+  vehicle?: VehicleDescriptor;
+  position?: Position;
+  stopId?: string;
+  timestamp?: number;
+}
+
+export interface StopTimeEvent {
+  delay?: number;
+  time?: number;
+  uncertainty?: number;
+}
+
+export interface StopTimeUpdate {
+  stopSequence?: number;
+  stopId?: string;
+  arrival?: StopTimeEvent;
+  departure?: StopTimeEvent;
+  scheduleRelationship?: StopTimeScheduleRelationship;
+}
+
+export interface TripUpdate {
+  trip: TripDescriptor;
+  vehicle?: VehicleDescriptor;
+  stopTimeUpdate: StopTimeUpdate[];
+  timestamp?: number;
+}
+
+export interface FeedEntity {
+  id: string;
+  isDeleted?: boolean;
+  tripUpdate?: TripUpdate;
+  vehicle?: VehiclePosition;
+}
+
+export interface FeedMessage {
+  header: FeedHeader;
+  entity: FeedEntity[];
+}
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Arrivals polled at one stop
+ */
+export interface StopArrivals {
+  stopCode: string;
+  arrivals: StopArrival[];
+}
+
+/**
+ * Line and direction of a provider route
+ */
+export type RealtimeRoute = Pick<Route, 'code' | 'lineCode' | 'direction'>;
+
+export interface RealtimeFeedOptions {
+  /**
+   * GTFS route_id and direction_id of a provider route code
+   * Defaults to the line and direction found in `routes`, as exported by
+   * exportGtfs, then to the route code itself with no direction
+   */
+  resolveRoute?: (routeCode: string) => { routeId: string; directionId?: number } | null | undefined;
+  /** Provider routes the feed's route codes belong to */
+  routes?: RealtimeRoute[];
+  /** Feed timestamp (now by default) */
+  now?: Date;
+}
+
+function toPosixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Build a full-dataset feed from polled vehicles and arrivals
+ * - one VehiclePosition per vehicle (the most recent fix wins)
+ * - one TripUpdate per vehicle and route, with a StopTimeUpdate per polled stop
+ */
+export function buildRealtimeFeed(
+  data: { vehicles?: BusLocation[]; arrivals?: StopArrivals[] },
+  options: RealtimeFeedOptions = {}
+): FeedMessage {
+  const now = options.now ?? new Date();
+  const routes = new Map(options.routes?.map(route => [route.code, route]));
+  const tripFor = (routeCode: string): TripDescriptor => {
+    const resolved = options.resolveRoute?.(routeCode);
+    if (resolved) return { routeId: resolved.routeId, directionId: resolved.directionId };
+    const route = routes.get(routeCode);
+    return route
+      ? { routeId: route.lineCode, directionId: gtfsDirectionId(route.direction) }
+      : { routeId: routeCode };
+  };
+
+  // Vehicles
+  const latest = new Map<string, BusLocation>();
+  data.vehicles?.forEach(location => {
+    const previous = latest.get(location.vehicleNo);
+    const isNewer = !previous || (location.reportedAt?.getTime() ?? 0) > (previous.reportedAt?.getTime() ?? 0);
+    if (isNewer) latest.set(location.vehicleNo, location);
+  });
+
+  const vehicleEntities: FeedEntity[] = Array.from(latest.values()).map(location => ({
+    id: `vehicle-${location.vehicleNo}`,
+    vehicle: {
+      trip: tripFor(location.routeCode),
+      vehicle: { id: location.vehicleNo, label: location.vehicleNo },
+      position: { latitude: location.lat, longitude: location.lng },
+      timestamp: location.reportedAt ? toPosixSeconds(location.reportedAt) : undefined,
+    },
+  }));
+
+  // Trip updates, grouped by the vehicle serving each route
+  const trips = new Map<string, { routeCode: string; vehicleCode: string; updates: { stopCode: string; time: number }[] }>();
+  data.arrivals?.forEach(({ stopCode, arrivals }) => {
+    arrivals.forEach(arrival => {
+      const key = `${arrival.routeCode}-${arrival.vehicleCode}`;
+      let trip = trips.get(key);
+      if (!trip) {
+        trip = { routeCode: arrival.routeCode, vehicleCode: arrival.vehicleCode, updates: [] };
+        trips.set(key, trip);
+      }
+      trip.updates.push({ stopCode, time: toPosixSeconds(arrival.expectedAt) });
+    });
+  });
+
+  const tripEntities: FeedEntity[] = Array.from(trips.entries()).map(([key, trip]) => ({
+    id: `trip-${key}`,
+    tripUpdate: {
+      trip: tripFor(trip.routeCode),
+      vehicle: trip.vehicleCode ? { id: trip.vehicleCode, label: trip.vehicleCode } : undefined,
+      stopTimeUpdate: trip.updates
+        .sort((a, b) => a.time - b.time)
+        .map(update => ({ stopId: update.stopCode, arrival: { time: update.time } })),
+      timestamp: toPosixSeconds(now),
+    },
+  }));
+
+  return {
+    header: {
+      gtfsRealtimeVersion: '2.0',
+      incrementality: 'FULL_DATASET',
+      timestamp: toPosixSeconds(now),
+    },
+    entity: [...vehicleEntities, ...tripEntities],
+  };
+}
+
+const fulfilled = <T>(results: PromiseSettledResult<T>[]): T[] =>
+  results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+
+/**
+ * Lines and directions of the city's routes, from the stop catalog and the
+ * routes serving the polled stops
+ */
+async function knownRoutes(city: City, stopCodes: string[], options: RequestOptions): Promise<RealtimeRoute[]> {
+  const routes = new Map<string, RealtimeRoute>();
+  const catalog = await loadStopCatalog(city);
+  Object.values(catalog.stops).forEach(stop => {
+    stop.routes.forEach(({ routeCode, lineCode, direction }) => {
+      routes.set(routeCode, { code: routeCode, lineCode, direction });
+    });
+  });
+
+  const stopRoutes = await Promise.allSettled(stopCodes.map(code => api.getRoutesForStop(city, code, options)));
+  fulfilled(stopRoutes).flat().forEach(({ routeCode, lineCode, direction }) => {
+    routes.set(routeCode, { code: routeCode, lineCode, direction });
+  });
+  return Array.from(routes.values());
+}
+
+/**
+ * Poll a city's provider and build a feed for the given routes and stops
+ * Routes or stops that fail to load are left out of the feed
+ */
+export async function collectRealtimeFeed(
+  city: City,
+  sources: { routeCodes?: string[]; stopCodes?: string[] },
+  options: RealtimeFeedOptions & RequestOptions = {}
+): Promise<FeedMessage> {
+  const requestOptions: RequestOptions = { signal: options.signal };
+
+  const [vehicleResults, arrivalResults] = await Promise.all([
+    Promise.allSettled((sources.routeCodes ?? []).map(code => api.getBusLocations(city, code, requestOptions))),
+    Promise.allSettled(
+      (sources.stopCodes ?? []).map(async stopCode => ({
+        stopCode,
+        arrivals: await api.getStopArrivals(city, stopCode, requestOptions),
+      }))
+    ),
+  ]);
+
+  const routes = options.routes ?? (options.resolveRoute
+    ? undefined
+    : await knownRoutes(city, sources.stopCodes ?? [], requestOptions));
+
+  return buildRealtimeFeed(
+    { vehicles: fulfilled(vehicleResults).flat(), arrivals: fulfilled(arrivalResults) },
+    { ...options, routes }
+  );
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+const INCREMENTALITY: Record<Incrementality, number> = { FULL_DATASET: 0, DIFFERENTIAL: 1 };
+const TRIP_SCHEDULE_RELATIONSHIP: Record<TripScheduleRelationship, number> = {
+  SCHEDULED: 0,
+  ADDED: 1,
+  UNSCHEDULED: 2,
+  CANCELED: 3,
+};
+const STOP_TIME_SCHEDULE_RELATIONSHIP: Record<StopTimeScheduleRelationship, number> = {
+  SCHEDULED: 0,
+  SKIPPED: 1,
+  NO_DATA: 2,
+};
+
+function writeTrip(w: ProtoWriter, trip: TripDescriptor): void {
+  w.string(1, trip.tripId)
+    .string(2, trip.startTime)
+    .string(3, trip.startDate)
+    .varint(4, trip.scheduleRelationship && TRIP_SCHEDULE_RELATIONSHIP[trip.scheduleRelationship])
+    .string(5, trip.routeId)
+    .varint(6, trip.directionId);
+}
+
+function writeVehicleDescriptor(w: ProtoWriter, vehicle: VehicleDescriptor): void {
+  w.string(1, vehicle.id).string(2, vehicle.label).string(3, vehicle.licensePlate);
+}
+
+function writePosition(w: ProtoWriter, position: Position): void {
+  w.float(1, position.latitude)
+    .float(2, position.longitude)
+    .float(3, position.bearing)
+    .float(5, position.speed);
+}
+
+function writeVehiclePosition(w: ProtoWriter, vehicle: VehiclePosition): void {
+  w.message(1, vehicle.trip, writeTrip)
+    .message(2, vehicle.position, writePosition)
+    .varint(5, vehicle.timestamp)
+    .string(7, vehicle.stopId)
+    .message(8, vehicle.vehicle, writeVehicleDescriptor);
+}
+
+function writeStopTimeEvent(w: ProtoWriter, event: StopTimeEvent): void {
+  w.varint(1, event.delay).varint(2, event.time).varint(3, event.uncertainty);
+}
+
+function writeStopTimeUpdate(w: ProtoWriter, update: StopTimeUpdate): void {
+  w.varint(1, update.stopSequence)
+    .message(2, update.arrival, writeStopTimeEvent)
+    .message(3, update.departure, writeStopTimeEvent)
+    .string(4, update.stopId)
+    .varint(5, update.scheduleRelationship && STOP_TIME_SCHEDULE_RELATIONSHIP[update.scheduleRelationship]);
+}
+
+function writeTripUpdate(w: ProtoWriter, tripUpdate: TripUpdate): void {
+  w.message(1, tripUpdate.trip, writeTrip)
+    .messages(2, tripUpdate.stopTimeUpdate, writeStopTimeUpdate)
+    .message(3, tripUpdate.vehicle, writeVehicleDescriptor)
+    .varint(4, tripUpdate.timestamp);
+}
+
+function writeEntity(w: ProtoWriter, entity: FeedEntity): void {
+  w.string(1, entity.id)
+    .bool(2, entity.isDeleted)
+    .message(3, entity.tripUpdate, writeTripUpdate)
+    .message(4, entity.vehicle, writeVehiclePosition);
+}
+
+/**
+ * Serialize a feed as GTFS-Realtime protobuf bytes
+ */
+export function encodeFeedMessage(feed: FeedMessage): Uint8Array {
+  return new ProtoWriter()
+    .message(1, feed.header, (w, header) => {
+      w.string(1, header.gtfsRealtimeVersion)
+        .varint(2, INCREMENTALITY[header.incrementality])
+        .varint(3, header.timestamp);
+    })
+    .messages(2, feed.entity, writeEntity)
+    .finish();
+}
+
+/**
+ * Readable JSON form of a feed (proto3 JSON field and enum names)
+ */
+export function feedToDebugJson(feed: FeedMessage): string {
+  return JSON.stringify(feed, null, 2);
+}
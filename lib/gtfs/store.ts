@@ -0,0 +1,53 @@
+/**
+ * GTFS store persistence
+ * Stores are saved to AsyncStorage in chunks (see lib/storage.ts),
+ * with the list of saved cities kept alongside
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { City } from '../providers/types';
+import { getLargeItem, removeLargeItem, setLargeItem } from '../storage';
+import type { GtfsStore } from './types';
+
+const FEEDS_STORAGE_KEY = '@gtfs_feeds';
+
+function feedKey(city: City): string {
+  return `@gtfs_feed:${city}`;
+}
+
+/**
+ * Cities with a saved feed
+ */
+export async function listStoredGtfsFeeds(): Promise<City[]> {
+  const saved = await AsyncStorage.getItem(FEEDS_STORAGE_KEY);
+  return saved ? (JSON.parse(saved) as City[]) : [];
+}
+
+/**
+ * Remove a city's saved feed
+ */
+export async function deleteGtfsStore(city: City): Promise<void> {
+  await removeLargeItem(feedKey(city));
+
+  const cities = await listStoredGtfsFeeds();
+  await AsyncStorage.setItem(FEEDS_STORAGE_KEY, JSON.stringify(cities.filter(c => c !== city)));
+}
+
+/**
+ * Save a store, replacing the city's previous feed
+ */
+export async function saveGtfsStore(store: GtfsStore): Promise<void> {
+  await setLargeItem(feedKey(store.city), store);
+
+  const cities = await listStoredGtfsFeeds();
+  if (!cities.includes(store.city)) {
+    await AsyncStorage.setItem(FEEDS_STORAGE_KEY, JSON.stringify([...cities, store.city]));
+  }
+}
+
+/**
+ * Load a city's saved store, or null if none (or it is incomplete)
+ */
+export async function loadGtfsStore(city: City): Promise<GtfsStore | null> {
+  return getLargeItem<GtfsStore>(feedKey(city));
+}
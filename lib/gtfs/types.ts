@@ -0,0 +1,82 @@
+/**
+ * GTFS offline store
+ * Compact, JSON-serializable form of a static feed: only what the provider
+ * API needs is kept (stop_times are reduced to stop patterns and first departures)
+ */
+
+import type { City } from '../providers/types';
+import type { Line, Route, RoutePoint, Stop } from '../types';
+
+/**
+ * One direction of a line with its typical stop sequence
+ * Code is the live route code once matched (see live-codes.ts),
+ * "<route_id>:<direction_id>" otherwise
+ */
+export interface GtfsRoutePattern extends Route {
+  shapeId: string | null;
+  /** Stop codes in travel order (the most frequent sequence among the trips) */
+  stopCodes: string[];
+}
+
+/**
+ * Days a service_id runs, from calendar.txt and calendar_dates.txt
+ */
+export interface GtfsService {
+  /** Indexed by Date.getDay(): [sunday, monday, ..., saturday] */
+  weekdays: boolean[];
+  /** "YYYY-MM-DD", null for services defined only by calendar_dates.txt */
+  startDate: string | null;
+  endDate: string | null;
+  added: string[];
+  removed: string[];
+}
+
+export interface GtfsStore {
+  city: City;
+  /** Epoch ms of the import */
+  importedAt: number;
+  /** feed_info.txt feed_version, if present */
+  feedVersion: string | null;
+  agencyName: string | null;
+  lines: Line[];
+  routes: GtfsRoutePattern[];
+  stops: Stop[];
+  /** Shape points by shape_id */
+  shapes: Record<string, RoutePoint[]>;
+  services: Record<string, GtfsService>;
+  /** First-stop departures ("HH:MM", sorted) by route code, then service_id */
+  departures: Record<string, Record<string, string[]>>;
+  /**
+   * Live route codes of further variants of a route, mapped to the route
+   * they share a pattern with; absent until the store is keyed by live codes
+   */
+  liveRouteAliases?: Record<string, string>;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * One feed file as columns and string records
+ */
+export interface GtfsTable {
+  columns: string[];
+  records: Record<string, string>[];
+}
+
+/**
+ * Feed files keyed by file name, e.g. "stop_times.txt"
+ */
+export type GtfsTables = Record<string, GtfsTable>;
+
+/**
+ * Problem found while validating a feed
+ * Errors make the feed invalid, warnings are reported only
+ */
+export interface GtfsIssue {
+  severity: 'error' | 'warning';
+  file: string;
+  row: number | null; // 1-based CSV row (the header is row 1)
+  message: string;
+}
@@ -0,0 +1,208 @@
+/**
+ * GTFS feed validation
+ * Checks required files and fields, unique ids and referential integrity
+ * (every trip, stop_time and shape reference resolves)
+ */
+
+import type { GtfsIssue, GtfsTable, GtfsTables } from './types';
+
+// Required files and their required fields
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  'agency.txt': ['agency_name', 'agency_url', 'agency_timezone'],
+  'routes.txt': ['route_id', 'route_type'],
+  'trips.txt': ['route_id', 'service_id', 'trip_id'],
+  'stops.txt': ['stop_id', 'stop_name', 'stop_lat', 'stop_lon'],
+  'stop_times.txt': ['trip_id', 'stop_id', 'stop_sequence'],
+};
+
+const OPTIONAL_FIELDS: Record<string, string[]> = {
+  'calendar.txt': ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+  'calendar_dates.txt': ['service_id', 'date', 'exception_type'],
+  'shapes.txt': ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence'],
+  'frequencies.txt': ['trip_id', 'start_time', 'end_time', 'headway_secs'],
+};
+
+const TIME_PATTERN = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/;
+
+function toSeconds(time: string): number | null {
+  const match = time.match(TIME_PATTERN);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+}
+
+/**
+ * Validate feed tables, returning every issue found (empty when valid)
+ */
+export function validateGtfsFeed(tables: GtfsTables): GtfsIssue[] {
+  const issues: GtfsIssue[] = [];
+  const error = (file: string, row: number | null, message: string) =>
+    issues.push({ severity: 'error', file, row, message });
+  const warning = (file: string, row: number | null, message: string) =>
+    issues.push({ severity: 'warning', file, row, message });
+
+  const table = (file: string): GtfsTable => tables[file] ?? { columns: [], records: [] };
+
+  // Visit records with their CSV row number (the header is row 1)
+  const eachRecord = (file: string, visit: (record: Record<string, string>, row: number) => void) =>
+    table(file).records.forEach((record, index) => visit(record, index + 2));
+
+  // ===== Files and fields =====
+
+  Object.keys(REQUIRED_FIELDS).forEach(file => {
+    if (!tables[file]) error(file, null, 'required file is missing');
+  });
+  if (!tables['calendar.txt'] && !tables['calendar_dates.txt']) {
+    error('calendar.txt', null, 'either calendar.txt or calendar_dates.txt is required');
+  }
+
+  Object.entries({ ...REQUIRED_FIELDS, ...OPTIONAL_FIELDS }).forEach(([file, fields]) => {
+    if (!tables[file]) return;
+    fields.forEach(field => {
+      if (!tables[file].columns.includes(field)) {
+        error(file, 1, `missing required column ${field}`);
+      }
+    });
+    eachRecord(file, (record, row) => {
+      fields.forEach(field => {
+        if (!record[field]) error(file, row, `empty ${field}`);
+      });
+    });
+  });
+
+  // ===== Unique ids =====
+
+  const collectIds = (file: string, field: string): Set<string> => {
+    const ids = new Set<string>();
+    eachRecord(file, (record, row) => {
+      const id = record[field];
+      if (!id) return;
+      if (ids.has(id)) error(file, row, `duplicate ${field} "${id}"`);
+      ids.add(id);
+    });
+    return ids;
+  };
+
+  const agencyIds = collectIds('agency.txt', 'agency_id');
+  const routeIds = collectIds('routes.txt', 'route_id');
+  const tripIds = collectIds('trips.txt', 'trip_id');
+  const stopIds = collectIds('stops.txt', 'stop_id');
+  const serviceIds = collectIds('calendar.txt', 'service_id');
+  eachRecord('calendar_dates.txt', record => serviceIds.add(record.service_id));
+
+  const shapeIds = new Set<string>();
+  const shapePoints = new Set<string>();
+  eachRecord('shapes.txt', (record, row) => {
+    const key = `${record.shape_id}#${record.shape_pt_sequence}`;
+    if (shapePoints.has(key)) {
+      error('shapes.txt', row, `duplicate shape_pt_sequence ${record.shape_pt_sequence} in shape "${record.shape_id}"`);
+    }
+    shapePoints.add(key);
+    shapeIds.add(record.shape_id);
+  });
+
+  // ===== References =====
+
+  const reference = (file: string, field: string, ids: Set<string>, target: string) =>
+    eachRecord(file, (record, row) => {
+      const value = record[field];
+      if (value && !ids.has(value)) error(file, row, `${field} "${value}" not found in ${target}`);
+    });
+
+  if (table('agency.txt').records.length > 1) {
+    eachRecord('routes.txt', (record, row) => {
+      if (!record.agency_id) error('routes.txt', row, 'agency_id is required when the feed has several agencies');
+    });
+  }
+  reference('routes.txt', 'agency_id', agencyIds, 'agency.txt');
+  reference('trips.txt', 'route_id', routeIds, 'routes.txt');
+  reference('trips.txt', 'service_id', serviceIds, 'calendar.txt/calendar_dates.txt');
+  reference('trips.txt', 'shape_id', shapeIds, 'shapes.txt');
+  reference('stop_times.txt', 'trip_id', tripIds, 'trips.txt');
+  reference('stop_times.txt', 'stop_id', stopIds, 'stops.txt');
+  reference('frequencies.txt', 'trip_id', tripIds, 'trips.txt');
+
+  // ===== Values =====
+
+  eachRecord('stops.txt', (record, row) => {
+    const lat = Number(record.stop_lat);
+    const lng = Number(record.stop_lon);
+    if (!Number.isFinite(lat) || lat < -90 || lat > 90 || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+      error('stops.txt', row, `invalid coordinates ${record.stop_lat},${record.stop_lon}`);
+    } else if (lat === 0 && lng === 0) {
+      warning('stops.txt', row, `stop "${record.stop_id}" is at 0,0`);
+    }
+  });
+
+  // Within a trip stop_sequence is unique and times never go backwards
+  // (rows may appear in any order, so they are grouped first)
+  const tripStopTimes = new Map<string, { sequence: number; time: string; seconds: number | null; row: number }[]>();
+  eachRecord('stop_times.txt', (record, row) => {
+    const time = record.departure_time || record.arrival_time;
+    const seconds = time ? toSeconds(time) : null;
+    if (time && seconds === null) {
+      error('stop_times.txt', row, `invalid time "${time}"`);
+    }
+    const stopTimes = tripStopTimes.get(record.trip_id) ?? [];
+    stopTimes.push({ sequence: Number(record.stop_sequence), time, seconds, row });
+    tripStopTimes.set(record.trip_id, stopTimes);
+  });
+
+  tripStopTimes.forEach((stopTimes, tripId) => {
+    stopTimes.sort((a, b) => a.sequence - b.sequence);
+    let lastSeconds: number | null = null;
+    stopTimes.forEach((stopTime, index) => {
+      if (index > 0 && stopTime.sequence === stopTimes[index - 1].sequence) {
+        error('stop_times.txt', stopTime.row, `duplicate stop_sequence ${stopTime.sequence} in trip "${tripId}"`);
+      }
+      if (stopTime.seconds !== null) {
+        if (lastSeconds !== null && stopTime.seconds < lastSeconds) {
+          error('stop_times.txt', stopTime.row, `time ${stopTime.time} goes backwards in trip "${tripId}"`);
+        }
+        lastSeconds = stopTime.seconds;
+      }
+    });
+
+    const first = stopTimes[0];
+    const last = stopTimes[stopTimes.length - 1];
+    if (!first.time) error('stop_times.txt', first.row, `first stop of trip "${tripId}" has no time`);
+    if (!last.time) error('stop_times.txt', last.row, `last stop of trip "${tripId}" has no time`);
+  });
+
+  // ===== Coverage =====
+
+  // Structurally valid, but nothing ever runs
+  if ((tables['calendar.txt'] || tables['calendar_dates.txt']) && serviceIds.size === 0) {
+    warning('calendar.txt', null, 'no service is defined, so no trip ever runs');
+  }
+  if (tables['trips.txt'] && table('trips.txt').records.length === 0) {
+    warning('trips.txt', null, 'feed has no trips');
+  }
+
+  const routesWithTrips = new Set<string>();
+  eachRecord('trips.txt', (record, row) => {
+    routesWithTrips.add(record.route_id);
+    if ((tripStopTimes.get(record.trip_id)?.length ?? 0) < 2) {
+      error('trips.txt', row, `trip "${record.trip_id}" has fewer than two stop_times`);
+    }
+  });
+  eachRecord('routes.txt', (record, row) => {
+    if (!routesWithTrips.has(record.route_id)) {
+      warning('routes.txt', row, `route "${record.route_id}" has no trips`);
+    }
+  });
+
+  const usedStops = new Set(table('stop_times.txt').records.map(record => record.stop_id));
+  eachRecord('stops.txt', (record, row) => {
+    if (!usedStops.has(record.stop_id)) {
+      warning('stops.txt', row, `stop "${record.stop_id}" is not served by any trip`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Whether validation found anything that makes the feed invalid
+ */
+export function hasGtfsErrors(issues: GtfsIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
@@ -0,0 +1,219 @@
+/**
+ * Minimal ZIP reader/writer for GTFS feeds
+ * Reads the central directory and inflates stored/deflated entries with pako,
+ * writes deflated archives (ZIP64 and encrypted archives are not supported)
+ */
+
+import pako from 'pako';
+import { GtfsImportError } from './errors';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Locate the end-of-central-directory record (it may be followed by a comment)
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new GtfsImportError('Not a ZIP archive');
+}
+
+/**
+ * List the files in an archive
+ */
+export function readZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new GtfsImportError('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new GtfsImportError('Corrupt ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      name: decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Decompressed bytes of one entry
+ */
+export function readZipEntry(data: Uint8Array, entry: ZipEntry): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+    throw new GtfsImportError(`Corrupt ZIP entry ${entry.name}`);
+  }
+
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return compressed;
+    case METHOD_DEFLATE:
+      try {
+        return pako.inflateRaw(compressed);
+      } catch (e) {
+        throw new GtfsImportError(`Could not inflate ${entry.name}: ${String(e)}`);
+      }
+    default:
+      throw new GtfsImportError(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+}
+
+/**
+ * Text files of an archive keyed by base name (folders are ignored,
+ * since some feeds nest their files one level deep)
+ */
+export function unzipTextFiles(data: Uint8Array): Map<string, string> {
+  const decoder = new TextDecoder('utf-8');
+  const files = new Map<string, string>();
+
+  readZipEntries(data).forEach(entry => {
+    if (entry.name.endsWith('/')) return;
+    const baseName = entry.name.split('/').pop()!;
+    files.set(baseName, decoder.decode(readZipEntry(data, entry)));
+  });
+  return files;
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * DOS date/time fields of a timestamp
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a deflated archive from text files
+ */
+export function createZip(files: Map<string, string>, modifiedAt: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modifiedAt);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((text, name) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(text);
+    const compressed = pako.deflateRaw(data);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_FILE_HEADER, true);
+    lv.setUint16(4, 20, true); // Version needed
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint16(8, METHOD_DEFLATE, true);
+    lv.setUint16(10, dos.time, true);
+    lv.setUint16(12, dos.date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, compressed.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+    cv.setUint16(4, 20, true); // Version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, METHOD_DEFLATE, true);
+    cv.setUint16(12, dos.time, true);
+    cv.setUint16(14, dos.date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, compressed.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    localParts.push(local, compressed);
+    centralParts.push(central);
+    offset += local.length + compressed.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, files.size, true);
+  ev.setUint16(10, files.size, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+}
@@ -0,0 +1,177 @@
+/**
+ * Shared HTTP layer for the telematics clients
+ * Adds per-endpoint timeouts, retries with exponential backoff and jitter,
+ * caller cancellation (React Query's signal) and an optional circuit breaker
+ */
+
+import { getCircuitBreaker } from './circuit-breaker';
+import {
+  CircuitOpenError,
+  HttpStatusError,
+  TimeoutError,
+  isTransitApiError,
+  toTransitApiError,
+} from './errors';
+
+/**
+ * Per-call options accepted by every client function
+ */
+export interface RequestOptions {
+  /** Aborts the request, e.g. the signal React Query passes to queryFn */
+  signal?: AbortSignal;
+}
+
+/**
+ * How a single endpoint is called
+ */
+export interface EndpointPolicy {
+  timeoutMs: number;
+  /** Extra attempts after the first one, for retryable failures only */
+  retries: number;
+  /** Guard the endpoint with a circuit breaker (used for polled live data) */
+  circuitBreaker?: boolean;
+}
+
+export const DEFAULT_POLICY: EndpointPolicy = {
+  timeoutMs: 15000,
+  retries: 2,
+};
+
+/** Policy for the live endpoints that are polled every few seconds */
+export const LIVE_POLICY: EndpointPolicy = {
+  timeoutMs: 8000,
+  retries: 1,
+  circuitBreaker: true,
+};
+
+/**
+ * Local mock server (scripts/mock-telematics.js) used instead of the live
+ * APIs when EXPO_PUBLIC_MOCK_TELEMATICS_URL is set, e.g. http://10.0.2.2:4000
+ */
+const MOCK_TELEMATICS_URL = process.env.EXPO_PUBLIC_MOCK_TELEMATICS_URL?.replace(/\/+$/, '') || null;
+
+/**
+ * Client base URL: the live one, or the same path on the mock server
+ * under /<mockPrefix> (e.g. /oasa/api/)
+ */
+export function resolveBaseUrl(liveUrl: string, mockPrefix: string): string {
+  if (!MOCK_TELEMATICS_URL) return liveUrl;
+  return liveUrl.replace(/^https?:\/\/[^/]+/, `${MOCK_TELEMATICS_URL}/${mockPrefix}`);
+}
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 5000;
+
+interface HttpRequest {
+  url: string;
+  init: RequestInit;
+  operator: string;
+  endpoint: string;
+  policy: EndpointPolicy;
+  signal?: AbortSignal;
+}
+
+/**
+ * Full-jitter exponential backoff delay for a retry attempt (0-based)
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Sleep that resolves early (rejecting) when the caller aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * One attempt: fetch and read the body, bounded by the endpoint timeout
+ */
+async function attempt(req: HttpRequest): Promise<ArrayBuffer> {
+  const errorContext = { operator: req.operator, endpoint: req.endpoint };
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, req.policy.timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  req.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  try {
+    const response = await fetch(req.url, { ...req.init, signal: controller.signal });
+    if (!response.ok) {
+      throw new HttpStatusError(response.status, response.statusText, errorContext);
+    }
+    return await response.arrayBuffer();
+  } catch (e) {
+    if (timedOut) {
+      throw new TimeoutError(req.policy.timeoutMs, { ...errorContext, cause: e });
+    }
+    // Caller cancellation is passed through untouched
+    if (req.signal?.aborted) {
+      throw e;
+    }
+    throw toTransitApiError(e, errorContext);
+  } finally {
+    clearTimeout(timer);
+    req.signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Fetch an endpoint's raw body applying its policy
+ * Raises TransitApiError subclasses (or the caller's abort reason)
+ */
+export async function fetchBytes(req: HttpRequest): Promise<ArrayBuffer> {
+  const breaker = req.policy.circuitBreaker
+    ? getCircuitBreaker(`${req.operator}:${req.endpoint}`)
+    : null;
+
+  if (breaker && !breaker.canRequest()) {
+    throw new CircuitOpenError(Date.now() + breaker.remainingCooldownMs(), {
+      operator: req.operator,
+      endpoint: req.endpoint,
+    });
+  }
+  // The single request let through a half-open circuit
+  const isTrial = breaker?.state === 'halfOpen';
+
+  for (let i = 0; ; i++) {
+    try {
+      const body = await attempt(req);
+      breaker?.recordSuccess();
+      return body;
+    } catch (e) {
+      if (req.signal?.aborted) {
+        if (isTrial) breaker?.releaseTrial();
+        throw e;
+      }
+      const retryable = isTransitApiError(e) && e.isRetryable;
+      // Any failure of a trial re-opens the circuit, without retrying
+      if (isTrial || !retryable || i >= req.policy.retries) {
+        // Otherwise only failures that say something about server health trip the breaker
+        if (retryable || isTrial) breaker?.recordFailure();
+        throw e;
+      }
+      await sleep(backoffDelay(i), req.signal);
+    }
+  }
+}
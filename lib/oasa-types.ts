@@ -0,0 +1,89 @@
+/**
+ * Raw OASA Telematics API payloads
+ * Every field arrives as a string; lib/api.ts maps these into the
+ * normalized model in lib/types.ts
+ */
+
+export interface OasaLine {
+  LineCode: string;
+  LineID: string;
+  LineDescr: string;
+  LineDescrEng: string;
+}
+
+export interface OasaRoute {
+  RouteCode: string;
+  LineCode: string;
+  RouteDescr: string;
+  RouteDescrEng: string;
+  RouteType?: string; // "1" = go, "2" = come
+  RouteDistance?: string; // meters
+}
+
+export interface OasaRoutePoint {
+  routed_x: string; // longitude
+  routed_y: string; // latitude
+  routed_order: string;
+}
+
+export interface OasaBusLocation {
+  VEH_NO: string;
+  CS_DATE: string; // e.g. "Mar 25 2024 08:36:21:000PM"
+  CS_LAT: string;
+  CS_LNG: string;
+  ROUTE_CODE: string;
+}
+
+export interface OasaStopArrival {
+  route_code: string;
+  veh_code: string;
+  btime2: string; // minutes until arrival
+}
+
+export interface OasaStop {
+  StopCode: string;
+  StopID: string;
+  StopDescr: string;
+  StopDescrEng: string;
+  StopStreet: string | null;
+  StopStreetEng: string | null;
+  StopHeading: string;
+  StopLat: string;
+  StopLng: string;
+  RouteStopOrder?: string;
+  StopType?: string;
+  StopAmea?: string;
+  distance?: string; // Only for closest stops
+}
+
+export interface OasaStopRoute {
+  RouteCode: string;
+  RouteDescr: string;
+  RouteDescrEng: string;
+  RouteType: string;
+  LineCode: string;
+  LineID: string;
+  LineDescr: string;
+  LineDescrEng: string;
+  MasterLineCode: string;
+}
+
+// Timetable payloads (OASTH serves the same shapes)
+
+export interface ScheduleDay {
+  sdc_code: string;
+  sdc_descr: string;
+  sdc_descr_eng: string;
+}
+
+export interface ScheduleLine {
+  sde_start1: string | null; // Departure time direction 1
+  sde_start2: string | null; // Departure time direction 2
+  sde_line1: string | null;
+  sde_line2: string | null;
+}
+
+export interface SchedLinesResponse {
+  come: ScheduleLine[];
+  go: ScheduleLine[];
+}
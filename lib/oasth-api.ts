@@ -6,11 +6,33 @@
  */
 
 import pako from 'pako';
-import type { StopRoute } from './api';
-import type { BusLocation, Line, Route, RoutePoint, Stop, StopArrival } from './types';
+import { fromGreekTime } from './calendar';
+import { DecodeError, UpstreamEmptyError } from './errors';
+import { DEFAULT_POLICY, LIVE_POLICY, fetchBytes, resolveBaseUrl, type EndpointPolicy, type RequestOptions } from './http';
+import { TupleParseError, parseTupleRows, type TupleRow } from './oasth-tuple';
+import type { SchedLinesResponse, ScheduleDay } from './oasa-types';
+import { buildLineSchedule } from './schedule';
+import { SpatialIndex } from './spatial-index';
+import type { BusLocation, Line, LineScheduleResult, Route, RoutePoint, Stop, StopArrival, StopRoute } from './types';
+import {
+  mapRows,
+  optionalString,
+  parseNumber,
+  requireCoordinates,
+  requireNumber,
+  requireString,
+} from './validation';
 
 // OASTH API base URL
-const BASE_URL = 'https://old.oasth.gr/el/api';
+const BASE_URL = resolveBaseUrl('https://old.oasth.gr/el/api', 'oasth');
+const OPERATOR = 'OASTH';
+
+// Per-endpoint overrides of DEFAULT_POLICY (getStopsB is a large download)
+const ENDPOINT_POLICIES: Record<string, EndpointPolicy> = {
+  getStopsB: { timeoutMs: 30000, retries: 2 },
+  getBusLocation: LIVE_POLICY,
+  getStopArrivals: LIVE_POLICY,
+};
 
 /**
  * Helper to build endpoint URLs
@@ -22,325 +44,470 @@ function buildUrl(endpoint: string, param?: string): string {
 
 /**
  * Decompress gzip data using pako
+ * Plain (non-gzip) bodies are decoded as UTF-8
  */
-function decompressGzip(data: Uint8Array): string {
-  try {
-    if (data[0] === 0x1f && data[1] === 0x8b) {
+function decompressGzip(data: Uint8Array, endpoint: string): string {
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    try {
       return pako.ungzip(data, { to: 'string' });
+    } catch (e) {
+      throw new DecodeError('<gzip>', { operator: OPERATOR, endpoint, cause: e });
     }
-    const decoder = new TextDecoder('utf-8');
-    return decoder.decode(data);
-  } catch (e) {
-    console.error('Decompression error:', e);
-    const decoder = new TextDecoder('utf-8');
-    return decoder.decode(data);
   }
+  const decoder = new TextDecoder('utf-8');
+  return decoder.decode(data);
 }
 
-/**
- * Parse OASTH tuple format to array of objects
- * Format: (val1, "val2", ...), (val1, "val2", ...), ...
- */
-function parseTupleFormat(text: string): string[][] {
-  const rows: string[][] = [];
-  
-  // Match all tuples: (...)
-  const tupleRegex = /\(([^)]+)\)/g;
-  let match;
-  
-  while ((match = tupleRegex.exec(text)) !== null) {
-    const tupleContent = match[1];
-    const values: string[] = [];
-    
-    // Parse values within the tuple (handle quoted strings and numbers)
-    const valueRegex = /"([^"]*)"|-?\d+\.?\d*|None|null/g;
-    let valueMatch;
-    
-    while ((valueMatch = valueRegex.exec(tupleContent)) !== null) {
-      if (valueMatch[1] !== undefined) {
-        values.push(valueMatch[1]); // Quoted string
-      } else if (valueMatch[0] === 'None' || valueMatch[0] === 'null') {
-        values.push('');
-      } else {
-        values.push(valueMatch[0]); // Number
-      }
-    }
-    
-    if (values.length > 0) {
-      rows.push(values);
-    }
-  }
-  
-  return rows;
+interface FetchOptions extends RequestOptions {
+  /** Throw UpstreamEmptyError instead of returning [] on an empty body */
+  required?: boolean;
 }
 
 /**
  * Fetch and parse OASTH API response
+ * Raises TransitApiError subclasses on failure
  */
-async function fetchAPI<T>(endpoint: string, param?: string): Promise<T> {
+async function fetchAPI<T>(endpoint: string, param?: string, options: FetchOptions = {}): Promise<T> {
   const url = buildUrl(endpoint, param);
-  
-  try {
-    const response = await fetch(url, {
+  const errorContext = { operator: OPERATOR, endpoint };
+
+  const buffer = await fetchBytes({
+    url,
+    init: {
       method: 'GET',
       headers: {
         'Accept': '*/*',
       },
-    });
+    },
+    ...errorContext,
+    policy: ENDPOINT_POLICIES[endpoint] ?? DEFAULT_POLICY,
+    signal: options.signal,
+  });
 
-    if (!response.ok) {
-      throw new Error(`OASTH API Error: ${response.status} ${response.statusText}`);
+  const bytes = new Uint8Array(buffer);
+  const text = decompressGzip(bytes, endpoint);
+  
+  if (!text || text.trim() === '' || text === 'null' || text === '[]' || text === '()') {
+    if (options.required) {
+      throw new UpstreamEmptyError(errorContext);
     }
+    return [] as unknown as T;
+  }
 
-    const buffer = await response.arrayBuffer();
-    const bytes = new Uint8Array(buffer);
-    const text = decompressGzip(bytes);
-    
-    if (!text || text.trim() === '' || text === 'null' || text === '[]' || text === '()') {
-      return [] as unknown as T;
+  // Try JSON first
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      // Fall through to tuple parsing
     }
+  }
+  
+  // Parse as tuple format
+  let rows: TupleRow[];
+  try {
+    rows = parseTupleRows(text);
+  } catch (e) {
+    if (!(e instanceof TupleParseError)) throw e;
+    const snippet = text.slice(Math.max(0, e.position - 80), e.position + 80);
+    throw new DecodeError(snippet, { ...errorContext, cause: e });
+  }
+  if (rows.length === 0) {
+    throw new DecodeError(text, errorContext);
+  }
+  return rows as unknown as T;
+}
 
-    // Try JSON first
-    const trimmed = text.trim();
-    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
-      try {
-        return JSON.parse(text) as T;
-      } catch {
-        // Fall through to tuple parsing
-      }
-    }
-    
-    // Parse as tuple format
-    const rows = parseTupleFormat(text);
-    return rows as unknown as T;
-    
-  } catch (error) {
-    console.error('OASTH API fetch error:', error);
-    return [] as unknown as T;
+// =============================================================================
+// Mappers: OASTH tuple rows -> normalized model
+// =============================================================================
+
+const ENTITY = (entity: string) => ({ operator: OPERATOR, entity });
+
+/**
+ * Parse OASTH timestamps like "2024-03-25 20:36:21" (Thessaloniki local time,
+ * whatever the device's time zone)
+ */
+function parseOasthDate(value: unknown): Date | null {
+  const text = optionalString(value);
+  const match = text?.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return fromGreekTime(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0));
+}
+
+function toStop(row: TupleRow): Stop {
+  const code = requireString(row[1], 'stop code');
+  const name = optionalString(row[2]) ?? '';
+  return {
+    code,
+    id: optionalString(row[0]) ?? code,
+    name,
+    nameEn: optionalString(row[3]) ?? name,
+    street: optionalString(row[4]),
+    streetEn: optionalString(row[5]),
+    heading: null,
+    ...requireCoordinates(row[8], row[7]), // Latitude at index 8, longitude at 7
+  };
+}
+
+/**
+ * getStopsForRoute returns JSON objects with OASA-style field names
+ */
+function toRouteStop(raw: Record<string, unknown>, index: number): Stop {
+  const code = requireString(raw.StopCode, 'StopCode');
+  const name = optionalString(raw.StopDescr) ?? '';
+  return {
+    code,
+    id: optionalString(raw.StopID) ?? code,
+    name,
+    nameEn: optionalString(raw.StopDescrEng) ?? name,
+    street: optionalString(raw.StopStreet),
+    streetEn: optionalString(raw.StopStreetEng),
+    heading: parseNumber(raw.StopHeading),
+    ...requireCoordinates(raw.StopLat, raw.StopLng),
+    order: parseNumber(raw.RouteStopOrder) ?? index + 1, // Fall back to response order
+    ...(raw.StopAmea !== undefined && { accessible: raw.StopAmea === '1' }),
+  };
+}
+
+function toLine(row: TupleRow): Line {
+  const name = optionalString(row[2]) ?? '';
+  return {
+    code: requireString(row[0], 'line code'),
+    lineId: requireString(row[1], 'line id'),
+    name,
+    nameEn: optionalString(row[3]) ?? name,
+  };
+}
+
+/**
+ * OASTH has no direction flag - the first route of a line is treated as outbound
+ */
+function toRoute(row: TupleRow, index: number): Route {
+  const name = optionalString(row[2]) ?? '';
+  return {
+    code: requireString(row[1], 'route code'),
+    lineCode: requireString(row[0], 'line code'),
+    name,
+    nameEn: optionalString(row[3]) ?? name,
+    direction: index === 0 ? 'outbound' : 'inbound',
+    distanceMeters: null,
+  };
+}
+
+function toRoutePoint(row: TupleRow, index: number): RoutePoint {
+  return {
+    ...requireCoordinates(row[1], row[0]), // [longitude, latitude]
+    order: index,
+  };
+}
+
+/**
+ * Arrivals come either as JSON objects {route_code, veh_code, btime2} or as tuples
+ */
+function toStopArrival(raw: unknown, now: number): StopArrival {
+  const fields = Array.isArray(raw)
+    ? { btime2: raw[0], route_code: raw[1], veh_code: raw[2] }
+    : (raw ?? {}) as Record<string, unknown>;
+  const minutes = requireNumber(fields.btime2, 'btime2');
+  return {
+    routeCode: requireString(fields.route_code, 'route_code'),
+    vehicleCode: optionalString(fields.veh_code) ?? '',
+    minutes,
+    expectedAt: new Date(now + minutes * 60000),
+  };
+}
+
+function toBusLocation(row: TupleRow, routeCode: string): BusLocation {
+  return {
+    vehicleNo: requireString(row[0], 'vehicle number'),
+    routeCode,
+    ...requireCoordinates(row[2], row[3]),
+    reportedAt: parseOasthDate(row[1]),
+  };
+}
+
+// =============================================================================
+// Catalogs
+// =============================================================================
+
+// Lines and routes change rarely, so their catalogs are shared between calls
+const CATALOG_TTL_MS = 1000 * 60 * 60; // 1 hour
+const CLOSEST_STOPS_LIMIT = 30;
+
+interface CatalogEntry<T> {
+  promise: Promise<T>;
+  expiresAt: number;
+}
+
+const catalogs = new Map<string, CatalogEntry<unknown>>();
+
+/**
+ * Load a catalog once per TTL; failed loads are not cached
+ * Loads are shared, so they don't take a caller's abort signal
+ */
+function cachedCatalog<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const entry = catalogs.get(key) as CatalogEntry<T> | undefined;
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.promise;
   }
+
+  const promise = load();
+  catalogs.set(key, { promise, expiresAt: Date.now() + CATALOG_TTL_MS });
+  promise.catch(() => {
+    if (catalogs.get(key)?.promise === promise) {
+      catalogs.delete(key);
+    }
+  });
+  return promise;
+}
+
+function getLineCatalog(): Promise<Map<string, Line>> {
+  return cachedCatalog('lines', async () => {
+    const lines = await getLines();
+    return new Map(lines.map(line => [line.code, line]));
+  });
+}
+
+/**
+ * Spatial index over every stop (getStopsB), so closest-stop lookups
+ * don't download and scan the whole network each time
+ */
+function getStopIndex(): Promise<SpatialIndex<Stop>> {
+  return cachedCatalog('stops', async () => new SpatialIndex(await getStops()));
+}
+
+function getRouteCatalog(): Promise<Map<string, Route>> {
+  return cachedCatalog('routes', async () => {
+    const routes = await getRoutes();
+    return new Map(routes.map(route => [route.code, route]));
+  });
 }
 
+// =============================================================================
+// Endpoints
+// =============================================================================
+
 /**
  * Get all bus stops
  */
-export async function getStops(): Promise<Stop[]> {
-  const rows = await fetchAPI<string[][]>('getStopsB');
+export async function getStops(options?: RequestOptions): Promise<Stop[]> {
+  const rows = await fetchAPI<TupleRow[]>('getStopsB', undefined, { ...options, required: true });
   
   if (!Array.isArray(rows)) return [];
   
-  return rows.map(row => ({
-    StopCode: row[1] || '',
-    StopID: row[0]?.toString() || '',
-    StopDescr: row[2] || '',
-    StopDescrEng: row[3] || row[2] || '',
-    StopLat: row[8] || '0',   // Latitude is at index 8
-    StopLng: row[7] || '0',   // Longitude is at index 7
-    StopHeading: '0',
-    StopStreet: row[4] || null,
-    StopStreetEng: row[5] || null,
-  }));
+  return mapRows(rows, toStop, ENTITY('stop'));
 }
 
 /**
- * Get all bus lines
+ * Get the ordered stop sequence of a route
  */
-export async function getLines(): Promise<Line[]> {
-  const rows = await fetchAPI<string[][]>('getLines');
+export async function getStopsForRoute(routeCode: string, options?: RequestOptions): Promise<Stop[]> {
+  const rows = await fetchAPI<Record<string, unknown>[]>('getStopsForRoute', routeCode, options);
   
   if (!Array.isArray(rows)) return [];
   
-  return rows.map(row => ({
-    LineCode: row[0]?.toString() || '',
-    LineID: row[1] || '',
-    LineDescr: row[2] || '',
-    LineDescrEng: row[3] || row[2] || '',
-  }));
+  const stops = mapRows(rows, toRouteStop, ENTITY('route stop'));
+  return stops.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 }
 
 /**
- * Get routes for a specific line
+ * Get all bus lines
  */
-export async function getRoutesForLine(lineCode: string): Promise<Route[]> {
-  const rows = await fetchAPI<string[][]>('getRoutes');
+export async function getLines(options?: RequestOptions): Promise<Line[]> {
+  const rows = await fetchAPI<TupleRow[]>('getLines', undefined, { ...options, required: true });
   
   if (!Array.isArray(rows)) return [];
   
-  // Filter by lineCode (first column is usually line ID)
-  const lineRoutes = rows.filter(row => row[0]?.toString() === lineCode);
+  return mapRows(rows, toLine, ENTITY('line'));
+}
+
+/**
+ * Get the routes of every line
+ */
+async function getRoutes(options?: RequestOptions): Promise<Route[]> {
+  const rows = await fetchAPI<TupleRow[]>('getRoutes', undefined, { ...options, required: true });
   
-  return lineRoutes.map(row => ({
-    RouteCode: row[1]?.toString() || '',
-    LineCode: row[0]?.toString() || '',
-    RouteDescr: row[2] || '',
-    RouteDescrEng: row[3] || row[2] || '',
-    RouteType: '1',
-    RouteDistance: '',
-  }));
+  if (!Array.isArray(rows)) return [];
+  
+  // Direction comes from each route's position within its line (first column)
+  const routesSeen = new Map<string, number>();
+  return mapRows(rows, row => {
+    const lineCode = optionalString(row[0]) ?? '';
+    const index = routesSeen.get(lineCode) ?? 0;
+    routesSeen.set(lineCode, index + 1);
+    return toRoute(row, index);
+  }, ENTITY('route'));
+}
+
+/**
+ * Get routes for a specific line (from the cached route catalog)
+ */
+export async function getRoutesForLine(lineCode: string, options?: RequestOptions): Promise<Route[]> {
+  const routes = await getRouteCatalog();
+  if (options?.signal?.aborted) {
+    throw options.signal.reason;
+  }
+  return [...routes.values()].filter(route => route.lineCode === lineCode);
 }
 
 /**
  * Get route polyline details
  */
-export async function getRouteDetails(routeCode: string): Promise<RoutePoint[]> {
-  const rows = await fetchAPI<string[][]>('getRouteDetailPerRoute', routeCode);
+export async function getRouteDetails(routeCode: string, options?: RequestOptions): Promise<RoutePoint[]> {
+  const rows = await fetchAPI<TupleRow[]>('getRouteDetailPerRoute', routeCode, options);
   
   if (!Array.isArray(rows)) return [];
   
-  return rows.map((row, index) => ({
-    routed_x: row[0] || '0',  // longitude
-    routed_y: row[1] || '0',  // latitude
-    routed_order: index.toString(),
-  }));
+  return mapRows(rows, toRoutePoint, ENTITY('route point'));
 }
 
 /**
  * Get arrivals at a stop
  * OASTH returns arrivals as JSON objects: [{route_code, veh_code, btime2}, ...]
  */
-export async function getStopArrivals(stopCode: string): Promise<StopArrival[]> {
-  const arrivals = await fetchAPI<any[]>('getStopArrivals', stopCode);
+export async function getStopArrivals(stopCode: string, options?: RequestOptions): Promise<StopArrival[]> {
+  const arrivals = await fetchAPI<unknown[]>('getStopArrivals', stopCode, options);
   
   if (!Array.isArray(arrivals)) return [];
   
-  return arrivals.map(arr => {
-    // Handle JSON object format
-    if (arr && typeof arr === 'object' && !Array.isArray(arr)) {
-      return {
-        btime2: arr.btime2?.toString() || '',
-        route_code: arr.route_code?.toString() || '',
-        veh_code: arr.veh_code?.toString() || '',
-      };
-    }
-    // Handle tuple array format
-    return {
-      btime2: arr[0] || '',
-      route_code: arr[1] || '',
-      veh_code: arr[2] || '',
-    };
-  });
+  const now = Date.now();
+  return mapRows(arrivals, raw => toStopArrival(raw, now), ENTITY('arrival'));
 }
 
 /**
  * Get live bus locations for a route
  */
-export async function getBusLocations(routeCode: string): Promise<BusLocation[]> {
-  const rows = await fetchAPI<string[][]>('getBusLocation', routeCode);
+export async function getBusLocations(routeCode: string, options?: RequestOptions): Promise<BusLocation[]> {
+  const rows = await fetchAPI<TupleRow[]>('getBusLocation', routeCode, options);
   
   if (!Array.isArray(rows)) return [];
   
-  return rows.map(row => ({
-    VEH_NO: row[0] || '',
-    CS_DATE: row[1] || '',
-    CS_LAT: row[2] || '0',
-    CS_LNG: row[3] || '0',
-    ROUTE_CODE: routeCode,
-  }));
+  return mapRows(rows, row => toBusLocation(row, routeCode), ENTITY('bus location'));
 }
 
 /**
  * Get closest stops to a location
  */
-export async function getClosestStops(lat: number, lng: number): Promise<Stop[]> {
-  const allStops = await getStops();
-  
-  if (!Array.isArray(allStops) || allStops.length === 0) return [];
+export async function getClosestStops(lat: number, lng: number, options?: RequestOptions): Promise<Stop[]> {
+  const index = await getStopIndex();
+  if (options?.signal?.aborted) throw options.signal.reason;
+
+  return index
+    .nearest(lat, lng, CLOSEST_STOPS_LIMIT)
+    .map(({ item, distanceMeters }) => ({ ...item, distanceMeters }));
+}
+
+/**
+ * Route codes that serve a stop according to the static network
+ * Rows are JSON objects {RouteCode, ...} or tuples with the route code first
+ */
+async function getRouteCodesForStop(stopCode: string, options?: RequestOptions): Promise<string[]> {
+  const rows = await fetchAPI<unknown[]>('getRoutesForStop', stopCode, options);
   
-  const stopsWithDistance = allStops
-    .filter(stop => stop.StopLat && stop.StopLng && stop.StopLat !== '0' && stop.StopLng !== '0')
-    .map(stop => {
-      const stopLat = parseFloat(stop.StopLat);
-      const stopLng = parseFloat(stop.StopLng);
-      
-      if (isNaN(stopLat) || isNaN(stopLng)) {
-        return { ...stop, distance: '999' };
-      }
-      
-      const R = 6371;
-      const dLat = (stopLat - lat) * Math.PI / 180;
-      const dLng = (stopLng - lng) * Math.PI / 180;
-      const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-                Math.cos(lat * Math.PI / 180) * Math.cos(stopLat * Math.PI / 180) *
-                Math.sin(dLng/2) * Math.sin(dLng/2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-      const distance = R * c;
-      
-      return {
-        ...stop,
-        distance: distance.toFixed(2),
-      };
-    });
+  if (!Array.isArray(rows)) return [];
   
-  stopsWithDistance.sort((a, b) => parseFloat(a.distance!) - parseFloat(b.distance!));
-  return stopsWithDistance.slice(0, 30);
+  return mapRows(rows, raw => requireString(
+    Array.isArray(raw) ? raw[0] : (raw as Record<string, unknown> | null)?.RouteCode,
+    'RouteCode'
+  ), ENTITY('stop route'));
 }
 
 /**
  * Get routes for a stop
- * OASTH doesn't have a direct endpoint, so we use getRealTimeArrivals which returns route info
+ * Joins the static route list and live arrivals with the line and route
+ * catalogs, so lines without an approaching bus are listed too
  */
-export async function getRoutesForStop(stopCode: string): Promise<StopRoute[]> {
-  // Fetch real-time arrivals which contains route information
-  const arrivalsUrl = buildUrl('getStopArrivals', stopCode);
-  
-  try {
-    const response = await fetch(arrivalsUrl, { headers: { 'Accept': '*/*' } });
-    if (!response.ok) return [];
-    
-    const buffer = await response.arrayBuffer();
-    const bytes = new Uint8Array(buffer);
-    const text = decompressGzip(bytes);
-    
-    if (!text || text.trim() === '') return [];
-    
-    // Parse arrivals - format can be JSON or tuples
-    let arrivals: any[] = [];
-    const trimmed = text.trim();
-    
-    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
-      try {
-        arrivals = JSON.parse(text);
-      } catch {
-        arrivals = parseTupleFormat(text);
-      }
-    } else {
-      arrivals = parseTupleFormat(text);
-    }
-    
-    if (!Array.isArray(arrivals)) return [];
-    
-    // Get unique route codes from arrivals
-    const routeCodes = new Set<string>();
-    arrivals.forEach((arr: any) => {
-      if (arr.route_code) routeCodes.add(arr.route_code);
-      else if (arr[1]) routeCodes.add(arr[1]); // tuple format
+export async function getRoutesForStop(stopCode: string, options?: RequestOptions): Promise<StopRoute[]> {
+  const [staticCodes, arrivals, lines, routes] = await Promise.allSettled([
+    getRouteCodesForStop(stopCode, options),
+    getStopArrivals(stopCode, options),
+    getLineCatalog(),
+    getRouteCatalog(),
+  ]);
+
+  if (options?.signal?.aborted) {
+    throw options.signal.reason;
+  }
+  if (lines.status === 'rejected') throw lines.reason;
+  if (routes.status === 'rejected') throw routes.reason;
+
+  // Either source is enough on its own; fail only when both do
+  if (staticCodes.status === 'rejected' && arrivals.status === 'rejected') {
+    throw staticCodes.reason;
+  }
+
+  const routeCodes = new Set<string>([
+    ...(staticCodes.status === 'fulfilled' ? staticCodes.value : []),
+    ...(arrivals.status === 'fulfilled' ? arrivals.value.map(arr => arr.routeCode) : []),
+  ]);
+
+  const stopRoutes: StopRoute[] = [];
+  for (const routeCode of routeCodes) {
+    const route = routes.value.get(routeCode);
+    const line = route && lines.value.get(route.lineCode);
+    // Codes missing from the catalogs belong to routes added since they were loaded
+    if (!route || !line) continue;
+
+    stopRoutes.push({
+      routeCode,
+      routeName: route.name,
+      routeNameEn: route.nameEn,
+      direction: route.direction,
+      lineCode: line.code,
+      lineId: line.lineId,
+      lineName: line.name,
+      lineNameEn: line.nameEn,
+      masterLineCode: line.code, // OASTH has no master lines; each line is its own
     });
-    
-    // Build minimal StopRoute objects
-    const routes: StopRoute[] = [];
-    for (const routeCode of routeCodes) {
-      routes.push({
-        RouteCode: routeCode,
-        RouteDescr: `Route ${routeCode}`,
-        RouteDescrEng: `Route ${routeCode}`,
-        RouteType: '1',
-        LineCode: routeCode,
-        LineID: routeCode.slice(-2) || routeCode, // Use last 2 digits as display ID
-        LineDescr: `Line ${routeCode}`,
-        LineDescrEng: `Line ${routeCode}`,
-        MasterLineCode: routeCode,
-      });
-    }
-    
-    return routes;
-  } catch (error) {
-    console.error('Error fetching routes for stop:', error);
-    return [];
   }
+  
+  return stopRoutes;
+}
+
+/**
+ * Schedule days come as JSON objects or as (sdc_code, sdc_descr, sdc_descr_eng) tuples
+ */
+function toScheduleDay(raw: unknown): ScheduleDay {
+  const fields = Array.isArray(raw)
+    ? { sdc_code: raw[0], sdc_descr: raw[1], sdc_descr_eng: raw[2] }
+    : (raw ?? {}) as Record<string, unknown>;
+  const descr = optionalString(fields.sdc_descr) ?? '';
+  return {
+    sdc_code: requireString(fields.sdc_code, 'sdc_code'),
+    sdc_descr: descr,
+    sdc_descr_eng: optionalString(fields.sdc_descr_eng) ?? descr,
+  };
+}
+
+/**
+ * Get schedule days/types for a line (step 1)
+ */
+async function getScheduleDays(lineCode: string, options?: RequestOptions): Promise<ScheduleDay[]> {
+  const rows = await fetchAPI<unknown[]>('getScheduleDaysMasterline', lineCode, options);
+  
+  if (!Array.isArray(rows)) return [];
+  
+  return mapRows(rows, toScheduleDay, ENTITY('schedule day'));
 }
 
 /**
  * Get line schedule
+ * Same two-step flow as OASA: list the schedule days, then fetch their departures
  */
-export async function getLineSchedule(_routeCode: string, _lineCode: string): Promise<{ departure: string[]; return: string[] }> {
-  return { departure: [], return: [] };
+export async function getLineSchedule(mlCode: string, lineCode: string, options?: RequestOptions): Promise<LineScheduleResult> {
+  const scheduleDays = await getScheduleDays(lineCode, options);
+  
+  return buildLineSchedule(scheduleDays, async (sdcCode, opts) => {
+    // OASTH lines are their own master line when none is given
+    const response = await fetchAPI<SchedLinesResponse | unknown[]>(
+      'getSchedLines',
+      `${mlCode || lineCode}/${sdcCode}/${lineCode}`,
+      opts
+    );
+    // An empty body comes back as []
+    return Array.isArray(response) ? null : response;
+  }, options);
 }
@@ -0,0 +1,248 @@
+/**
+ * Parser for the Python-repr payloads served by the OASTH API
+ * e.g. (1, "ΣΤΑΘΜΟΣ", 40.63, None), (2, 'Say \'hi\'', -22.9, True)
+ *
+ * Values keep their type: strings, numbers, booleans, null (None)
+ * and nested tuples/lists as arrays. Sample payloads for each endpoint
+ * live in fixtures/oasth/
+ */
+
+export type TupleValue = string | number | boolean | null | TupleValue[];
+export type TupleRow = TupleValue[];
+
+/**
+ * Raised with the offset (and line/column) where parsing failed
+ */
+export class TupleParseError extends Error {
+  readonly position: number;
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, text: string, position: number) {
+    const before = text.slice(0, position);
+    const line = before.split('\n').length;
+    const column = position - before.lastIndexOf('\n');
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'TupleParseError';
+    this.position = position;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']' };
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  a: '\x07',
+  '0': '\0',
+};
+
+// Hex digit count after \x, \u and \U
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_.]*/y;
+
+class TupleParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  /**
+   * Top level: values separated by commas and/or whitespace
+   */
+  parseSequence(): TupleValue[] {
+    return this.parseTopLevel().map(({ value }) => value);
+  }
+
+  /**
+   * Top level as rows: either bare tuples or a single list/tuple of them
+   */
+  parseRows(): TupleRow[] {
+    const entries = this.parseTopLevel();
+
+    const [first] = entries;
+    if (
+      entries.length === 1 &&
+      Array.isArray(first.value) &&
+      first.value.every(Array.isArray)
+    ) {
+      return first.value as TupleRow[];
+    }
+
+    return entries.map(({ value, start }) => {
+      if (!Array.isArray(value)) this.fail('Expected a tuple', start);
+      return value;
+    });
+  }
+
+  private parseTopLevel(): { value: TupleValue; start: number }[] {
+    const entries: { value: TupleValue; start: number }[] = [];
+    this.skipWhitespace();
+    while (this.pos < this.text.length) {
+      const start = this.pos;
+      entries.push({ value: this.parseValue(), start });
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipWhitespace();
+      }
+    }
+    return entries;
+  }
+
+  private fail(message: string, position = this.pos): never {
+    throw new TupleParseError(message, this.text, position);
+  }
+
+  private peek(): string {
+    return this.text[this.pos];
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private parseValue(): TupleValue {
+    this.skipWhitespace();
+    const ch = this.peek();
+
+    if (ch === undefined) this.fail('Unexpected end of input');
+    if (ch === '(' || ch === '[') return this.parseCollection();
+    if (ch === '"' || ch === "'") return this.parseString();
+    if (/[\d.+-]/.test(ch)) return this.parseNumber();
+    if (/[A-Za-z_]/.test(ch)) return this.parseIdentifier();
+
+    return this.fail(`Unexpected character ${JSON.stringify(ch)}`);
+  }
+
+  private parseCollection(): TupleValue[] {
+    const start = this.pos;
+    const closing = CLOSING[this.text[this.pos++]];
+    const items: TupleValue[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.text.length) this.fail(`Unclosed ${this.text[start]}`, start);
+      if (this.peek() === closing) {
+        this.pos++;
+        return items;
+      }
+
+      items.push(this.parseValue());
+      this.skipWhitespace();
+
+      const next = this.peek();
+      if (next === ',') {
+        this.pos++;
+      } else if (next !== closing) {
+        this.fail(next === undefined ? `Unclosed ${this.text[start]}` : `Expected "," or "${closing}"`);
+      }
+    }
+  }
+
+  private parseString(): string {
+    const start = this.pos;
+    const quote = this.text[this.pos++];
+    let result = '';
+
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos++];
+      if (ch === quote) return result;
+      if (ch !== '\\') {
+        result += ch;
+        continue;
+      }
+
+      const escape = this.text[this.pos++];
+      if (escape === undefined) break;
+      if (escape in SIMPLE_ESCAPES) {
+        result += SIMPLE_ESCAPES[escape];
+      } else if (escape in HEX_ESCAPES) {
+        const digits = this.text.slice(this.pos, this.pos + HEX_ESCAPES[escape]);
+        if (digits.length !== HEX_ESCAPES[escape] || !/^[0-9a-fA-F]+$/.test(digits)) {
+          this.fail(`Invalid \\${escape} escape`, this.pos - 2);
+        }
+        result += String.fromCodePoint(parseInt(digits, 16));
+        this.pos += digits.length;
+      } else if (escape === '\n') {
+        // Line continuation
+      } else {
+        // Python keeps unknown escapes verbatim
+        result += '\\' + escape;
+      }
+    }
+
+    return this.fail('Unterminated string', start);
+  }
+
+  private parseNumber(): number {
+    NUMBER_PATTERN.lastIndex = this.pos;
+    const match = NUMBER_PATTERN.exec(this.text);
+    if (!match) this.fail('Invalid number');
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  /**
+   * None/True/False, u'' and b'' string prefixes and Decimal('1.5')
+   */
+  private parseIdentifier(): TupleValue {
+    const start = this.pos;
+    IDENTIFIER_PATTERN.lastIndex = this.pos;
+    const name = IDENTIFIER_PATTERN.exec(this.text)![0];
+
+    // String prefixes: u'...', b"..."
+    const afterName = this.text[this.pos + name.length];
+    if (/^[ubUB]$/.test(name) && (afterName === '"' || afterName === "'")) {
+      this.pos += name.length;
+      return this.parseString();
+    }
+
+    this.pos += name.length;
+    switch (name) {
+      case 'None':
+        return null;
+      case 'True':
+        return true;
+      case 'False':
+        return false;
+      case 'Decimal':
+      case 'decimal.Decimal': {
+        if (this.peek() !== '(') this.fail('Expected "(" after Decimal');
+        const args = this.parseCollection();
+        const value = args.length === 1 ? Number(args[0]) : NaN;
+        if (!Number.isFinite(value)) this.fail('Invalid Decimal', start);
+        return value;
+      }
+      default:
+        return this.fail(`Unknown identifier ${name}`, start);
+    }
+  }
+}
+
+/**
+ * Parse every value in a payload
+ */
+export function parseTupleValues(text: string): TupleValue[] {
+  return new TupleParser(text).parseSequence();
+}
+
+/**
+ * Parse a payload into rows
+ * Accepts bare tuples "(..), (..)" or one list/tuple wrapping them "[(..), (..)]"
+ */
+export function parseTupleRows(text: string): TupleRow[] {
+  return new TupleParser(text).parseRows();
+}
@@ -0,0 +1,23 @@
+/**
+ * Transit Providers Index
+ * Registers the built-in providers and re-exports the registry API
+ *
+ * To add an operator, implement TransitProvider and register it here.
+ */
+
+import { oasaProvider } from './oasa';
+import { oasthProvider } from './oasth';
+import { registerProvider } from './registry';
+
+registerProvider(oasaProvider);
+registerProvider(oasthProvider);
+
+// Types
+export type { City, CityConfig, TransitCapability, TransitProvider } from './types';
+
+// Registry
+export { getProvider, hasProvider, listProviders, registerProvider, supports } from './registry';
+
+// Built-in providers
+export { oasaProvider } from './oasa';
+export { oasthProvider } from './oasth';
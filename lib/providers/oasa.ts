@@ -0,0 +1,41 @@
+/**
+ * OASA provider (Athens)
+ */
+
+import * as OasaApi from '../api';
+import type { TransitProvider } from './types';
+
+export const oasaProvider: TransitProvider = {
+  id: 'athens',
+  operator: 'OASA',
+  config: {
+    id: 'athens',
+    nameEn: 'Athens',
+    nameEl: 'Αθήνα',
+    center: { lat: 37.9838, lng: 23.7275 },
+    hasTicketScanner: true,
+  },
+  capabilities: [
+    'lines',
+    'routes',
+    'routeDetails',
+    'routeStops',
+    'closestStops',
+    'arrivals',
+    'vehicles',
+    'routesForStop',
+    'schedules',
+    'routeNames',
+  ],
+
+  getLines: OasaApi.getLines,
+  getRoutesForLine: OasaApi.getRoutesForLine,
+  getRouteDetails: OasaApi.getRouteDetails,
+  getBusLocations: OasaApi.getBusLocations,
+  getStopArrivals: OasaApi.getStopArrivals,
+  getClosestStops: OasaApi.getClosestStops,
+  getRoutesForStop: OasaApi.getRoutesForStop,
+  getLineSchedule: OasaApi.getLineSchedule,
+  getStops: OasaApi.getStops,
+  getRouteName: OasaApi.getRouteName,
+};
@@ -0,0 +1,40 @@
+/**
+ * OASTH provider (Thessaloniki)
+ * No route-name endpoint yet, so that capability is not declared
+ */
+
+import * as OasthApi from '../oasth-api';
+import type { TransitProvider } from './types';
+
+export const oasthProvider: TransitProvider = {
+  id: 'thessaloniki',
+  operator: 'OASTH',
+  config: {
+    id: 'thessaloniki',
+    nameEn: 'Thessaloniki',
+    nameEl: 'Θεσσαλονίκη',
+    center: { lat: 40.6401, lng: 22.9444 },
+    hasTicketScanner: false,  // OASTH uses different ticket system
+  },
+  capabilities: [
+    'lines',
+    'routes',
+    'routeDetails',
+    'routeStops',
+    'closestStops',
+    'arrivals',
+    'vehicles',
+    'routesForStop',
+    'schedules',
+  ],
+
+  getLines: OasthApi.getLines,
+  getRoutesForLine: OasthApi.getRoutesForLine,
+  getRouteDetails: OasthApi.getRouteDetails,
+  getBusLocations: OasthApi.getBusLocations,
+  getStopArrivals: OasthApi.getStopArrivals,
+  getClosestStops: OasthApi.getClosestStops,
+  getRoutesForStop: OasthApi.getRoutesForStop,
+  getLineSchedule: OasthApi.getLineSchedule,
+  getStops: OasthApi.getStopsForRoute,
+};
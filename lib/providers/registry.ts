@@ -0,0 +1,47 @@
+/**
+ * Transit Provider registry
+ * Maps city ids to their provider so hooks and contexts never switch on the city
+ */
+
+import type { City, TransitCapability, TransitProvider } from './types';
+
+const providers = new Map<City, TransitProvider>();
+
+/**
+ * Register a provider under its city id (replaces any previous one)
+ */
+export function registerProvider(provider: TransitProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Check whether a provider is registered for a city
+ */
+export function hasProvider(city: string): city is City {
+  return providers.has(city);
+}
+
+/**
+ * Get the provider for a city
+ */
+export function getProvider(city: City): TransitProvider {
+  const provider = providers.get(city);
+  if (!provider) {
+    throw new Error(`No transit provider registered for city "${city}"`);
+  }
+  return provider;
+}
+
+/**
+ * All registered providers in registration order
+ */
+export function listProviders(): TransitProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Check whether a provider supports an operation
+ */
+export function supports(provider: TransitProvider, capability: TransitCapability): boolean {
+  return provider.capabilities.includes(capability);
+}
@@ -0,0 +1,63 @@
+/**
+ * Transit Provider contract
+ * Every operator (OASA, OASTH, ...) implements this interface and registers
+ * itself in the provider registry keyed by its city id
+ */
+
+import type { RequestOptions } from '../http';
+import type { BusLocation, Line, LineScheduleResult, Route, RoutePoint, Stop, StopArrival, StopRoute } from '../types';
+
+/**
+ * City identifier - the id of a registered provider (e.g. "athens")
+ */
+export type City = string;
+
+/**
+ * Static city information shown in settings and used to center the map
+ */
+export interface CityConfig {
+  id: City;
+  nameEn: string;
+  nameEl: string;
+  center: { lat: number; lng: number };
+  hasTicketScanner: boolean;  // Only Athens has NFC ticket scanning
+}
+
+/**
+ * Operations a provider may support
+ */
+export type TransitCapability =
+  | 'lines'
+  | 'routes'
+  | 'routeDetails'
+  | 'routeStops'
+  | 'closestStops'
+  | 'arrivals'
+  | 'vehicles'
+  | 'routesForStop'
+  | 'schedules'
+  | 'routeNames';
+
+export interface TransitProvider {
+  /** City id used as the registry key */
+  id: City;
+  /** Operator name, e.g. "OASA" */
+  operator: string;
+  config: CityConfig;
+  /** Operations this provider supports - the UI hides everything else */
+  capabilities: readonly TransitCapability[];
+
+  getLines(options?: RequestOptions): Promise<Line[]>;
+  getRoutesForLine(lineCode: string, options?: RequestOptions): Promise<Route[]>;
+  getRouteDetails(routeCode: string, options?: RequestOptions): Promise<RoutePoint[]>;
+  getBusLocations(routeCode: string, options?: RequestOptions): Promise<BusLocation[]>;
+  getStopArrivals(stopCode: string, options?: RequestOptions): Promise<StopArrival[]>;
+  getClosestStops(lat: number, lng: number, options?: RequestOptions): Promise<Stop[]>;
+  getRoutesForStop(stopCode: string, options?: RequestOptions): Promise<StopRoute[]>;
+  getLineSchedule(mlCode: string, lineCode: string, options?: RequestOptions): Promise<LineScheduleResult>;
+
+  /** Ordered stops of a route - requires the 'routeStops' capability */
+  getStops?(routeCode: string, options?: RequestOptions): Promise<Stop[]>;
+  /** Route names by code - requires the 'routeNames' capability */
+  getRouteName?(routeCode: string, options?: RequestOptions): Promise<{ route_descr: string; route_descr_eng: string }[]>;
+}
@@ -1,17 +1,84 @@
 /**
  * TanStack Query hooks for OASA/OASTH Telematics APIs
- * City-aware hooks that automatically use the correct API based on selected city
+ * City-aware hooks that resolve the registered provider for the selected city
  */
 
-import { useCity, type City } from '@/contexts/CityContext';
+import { useCity } from '@/contexts/CityContext';
 import { useQuery } from '@tanstack/react-query';
-import * as oasaApi from './api';
-import * as oasthApi from './oasth-api';
-import type { BusLocation, Line, Route, RoutePoint, Stop, StopArrival } from './types';
+import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { CircuitOpenError, type TransitApiError } from './errors';
+import type { GeoBounds } from './geo';
+import { getProvider, supports, type City, type TransitCapability } from './providers';
+import { buildSearchIndex, search } from './search';
+import {
+  ensureStopCatalog,
+  getClosestCatalogStops,
+  getStopCatalogState,
+  getStopIndex,
+  subscribeStopCatalog,
+  type CatalogStop,
+  type StopCatalogState,
+} from './stop-catalog';
+import type { BusLocation, Line, LineScheduleResult, Route, RoutePoint, SearchResult, Stop, StopArrival, StopRoute } from './types';
+import {
+  buildRouteShape,
+  planVehicleMotion,
+  updateVehicleTracks,
+  type VehicleMotion,
+  type VehicleTrack,
+} from './vehicle-motion';
+import {
+  correctedReportTime,
+  getFreshnessState,
+  observeVehicleLocations,
+  subscribeFreshness,
+  vehicleFreshness,
+  type FreshnessState,
+} from './vehicle-freshness';
+import {
+  findVehicle,
+  isSameVehicle,
+  trackingStatus,
+  upcomingStops,
+  type TrackingStatus,
+  type UpcomingStop,
+} from './vehicle-tracking';
+import {
+  getViewportStopsState,
+  loadViewportStops,
+  MIN_STOPS_ZOOM,
+  selectViewportStops,
+  stopLimitForZoom,
+  subscribeViewportStops,
+} from './viewport-stops';
 
-// Get the appropriate API module for the city
-function getApi(city: City) {
-  return city === 'athens' ? oasaApi : oasthApi;
+/**
+ * Get the transit provider for the selected city
+ */
+export function useProvider() {
+  const { city } = useCity();
+  return getProvider(city);
+}
+
+/**
+ * Check whether the selected city's provider supports an operation
+ */
+export function useSupports(capability: TransitCapability) {
+  return supports(useProvider(), capability);
+}
+
+/**
+ * refetchInterval for polled live data
+ * While the endpoint's circuit breaker is open, wait for its cooldown instead of polling
+ */
+function livePollInterval(intervalMs: number) {
+  return (query: { state: { error: TransitApiError | null } }) => {
+    const error = query.state.error;
+    if (error instanceof CircuitOpenError) {
+      return Math.max(error.retryAt - Date.now(), 1000);
+    }
+    return intervalMs;
+  };
 }
 
 // Query keys for cache management - now include city for proper cache separation
@@ -31,11 +98,11 @@ export const queryKeys = {
  */
 export function useLines() {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   
-  return useQuery<Line[]>({
+  return useQuery<Line[], TransitApiError>({
     queryKey: queryKeys.lines(city),
-    queryFn: api.getLines,
+    queryFn: ({ signal }) => api.getLines({ signal }),
     staleTime: Infinity, // Lines rarely change
   });
 }
@@ -45,11 +112,11 @@ export function useLines() {
  */
 export function useRoutes(lineCode: string | null) {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   
-  return useQuery<Route[]>({
+  return useQuery<Route[], TransitApiError>({
     queryKey: queryKeys.routes(city, lineCode || ''),
-    queryFn: () => api.getRoutesForLine(lineCode!),
+    queryFn: ({ signal }) => api.getRoutesForLine(lineCode!, { signal }),
     enabled: !!lineCode,
     staleTime: 1000 * 60 * 60, // 1 hour
   });
@@ -60,11 +127,11 @@ export function useRoutes(lineCode: string | null) {
  */
 export function useRouteDetails(routeCode: string | null) {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   
-  return useQuery<RoutePoint[]>({
+  return useQuery<RoutePoint[], TransitApiError>({
     queryKey: queryKeys.routeDetails(city, routeCode || ''),
-    queryFn: () => api.getRouteDetails(routeCode!),
+    queryFn: ({ signal }) => api.getRouteDetails(routeCode!, { signal }),
     enabled: !!routeCode,
     staleTime: 1000 * 60 * 60, // 1 hour
   });
@@ -73,17 +140,22 @@ export function useRouteDetails(routeCode: string | null) {
 /**
  * Get live bus locations
  * refetchInterval: 10000 - poll every 10s when enabled
+ * Every poll is observed for the vehicle freshness model
  */
 export function useBusLocations(routeCode: string | null, options?: { enabled?: boolean }) {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   const enabled = options?.enabled !== false && !!routeCode;
   
-  return useQuery<BusLocation[]>({
+  return useQuery<BusLocation[], TransitApiError>({
     queryKey: queryKeys.busLocations(city, routeCode || ''),
-    queryFn: () => api.getBusLocations(routeCode!),
+    queryFn: ({ signal }) =>
+      api.getBusLocations(routeCode!, { signal }).then((locations) => {
+        observeVehicleLocations(city, routeCode!, locations);
+        return locations;
+      }),
     enabled,
-    refetchInterval: enabled ? 10000 : false, // Poll every 10s when map is open
+    refetchInterval: enabled ? livePollInterval(10000) : false, // Poll every 10s when map is open
     staleTime: 5000, // Consider stale after 5s
   });
 }
@@ -93,13 +165,13 @@ export function useBusLocations(routeCode: string | null, options?: { enabled?:
  */
 export function useStopArrivals(stopCode: string | null) {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   
-  return useQuery<StopArrival[]>({
+  return useQuery<StopArrival[], TransitApiError>({
     queryKey: queryKeys.stopArrivals(city, stopCode || ''),
-    queryFn: () => api.getStopArrivals(stopCode!),
+    queryFn: ({ signal }) => api.getStopArrivals(stopCode!, { signal }),
     enabled: !!stopCode,
-    refetchInterval: 30000, // Refresh every 30s
+    refetchInterval: livePollInterval(30000), // Refresh every 30s
     staleTime: 10000,
   });
 }
@@ -109,33 +181,31 @@ export function useStopArrivals(stopCode: string | null) {
  */
 export function useStops(routeCode: string | null) {
   const { city } = useCity();
+  const api = getProvider(city);
   
-  return useQuery<Stop[]>({
+  return useQuery<Stop[], TransitApiError>({
     queryKey: queryKeys.stops(city, routeCode || ''),
-    queryFn: () => {
-      if (city === 'athens') {
-        return oasaApi.getStops(routeCode!);
-      }
-      // OASTH doesn't have a direct route-stops endpoint
-      return Promise.resolve([]);
-    },
-    enabled: !!routeCode,
+    queryFn: ({ signal }) => api.getStops!(routeCode!, { signal }),
+    // Providers without route-stops support never run this query
+    enabled: !!routeCode && supports(api, 'routeStops'),
     staleTime: 1000 * 60 * 60, // 1 hour
   });
 }
 
 /**
  * Get closest stops to user location
+ * Answered locally from the stop catalog once it is complete
  */
 export function useClosestStops(lat: number | null, lng: number | null, options?: { enabled?: boolean }) {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   const hasLocation = lat !== null && lng !== null;
   const shouldFetch = options?.enabled !== false && hasLocation;
   
-  return useQuery<Stop[]>({
+  return useQuery<Stop[], TransitApiError>({
     queryKey: queryKeys.closestStops(city, lat || 0, lng || 0),
-    queryFn: () => api.getClosestStops(lat!, lng!),
+    queryFn: ({ signal }) =>
+      getClosestCatalogStops(city, lat!, lng!) ?? api.getClosestStops(lat!, lng!, { signal }),
     enabled: shouldFetch,
     staleTime: 30000, // 30 seconds
   });
@@ -146,11 +216,11 @@ export function useClosestStops(lat: number | null, lng: number | null, options?
  */
 export function useRoutesForStop(stopCode: string | null) {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   
-  return useQuery<oasaApi.StopRoute[]>({
+  return useQuery<StopRoute[], TransitApiError>({
     queryKey: ['routesForStop', city, stopCode || ''],
-    queryFn: () => api.getRoutesForStop(stopCode!),
+    queryFn: ({ signal }) => api.getRoutesForStop(stopCode!, { signal }),
     enabled: !!stopCode,
     staleTime: 1000 * 60 * 60, // 1 hour - routes rarely change
   });
@@ -161,12 +231,191 @@ export function useRoutesForStop(stopCode: string | null) {
  */
 export function useSchedule(lineCode: string | null) {
   const { city } = useCity();
-  const api = getApi(city);
+  const api = getProvider(city);
   
-  return useQuery<oasaApi.LineScheduleResult>({
+  return useQuery<LineScheduleResult, TransitApiError>({
     queryKey: ['schedule', city, lineCode || ''],
-    queryFn: () => api.getLineSchedule('', lineCode!),
+    queryFn: ({ signal }) => api.getLineSchedule('', lineCode!, { signal }),
     enabled: !!lineCode,
     staleTime: 1000 * 60 * 60, // 1 hour - schedules don't change often
   });
 }
+
+/**
+ * Complete stop catalog of the selected city
+ * Loads the cached catalog and refreshes stale lines in the background
+ */
+export function useStopCatalog(): StopCatalogState {
+  const { city } = useCity();
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeStopCatalog(city, listener),
+    [city]
+  );
+  const state = useSyncExternalStore(subscribe, () => getStopCatalogState(city));
+
+  useEffect(() => {
+    ensureStopCatalog(city);
+  }, [city]);
+
+  return state;
+}
+
+/**
+ * A single stop from the catalog, or null while unknown
+ */
+export function useCatalogStop(stopCode: string | null | undefined): CatalogStop | null {
+  const { catalog } = useStopCatalog();
+  return stopCode ? catalog.stops[stopCode] ?? null : null;
+}
+
+/**
+ * Ranked search over the selected city's lines, stops and streets
+ * Stops come from the stop catalog, so results grow while it is being built
+ */
+export function useSearch(query: string): { results: SearchResult[]; isIndexing: boolean } {
+  const { data: lines, isLoading: linesLoading } = useLines();
+  const { catalog, refreshing } = useStopCatalog();
+
+  const index = useMemo(
+    () => buildSearchIndex({ lines, stops: Object.values(catalog.stops) }),
+    [lines, catalog]
+  );
+  const deferredQuery = useDeferredValue(query);
+  const results = useMemo(() => search(index, deferredQuery), [index, deferredQuery]);
+
+  return { results, isIndexing: linesLoading || refreshing };
+}
+
+/**
+ * Stops inside the visible map area, loaded progressively as the map moves
+ * Already loaded areas come from the cache; the number of stops depends on zoom
+ */
+export function useViewportStops(
+  viewport: { bounds: GeoBounds; zoom: number } | null,
+  options?: { enabled?: boolean }
+): { stops: Stop[]; isLoading: boolean; error: Error | null } {
+  const { city } = useCity();
+  const { catalog } = useStopCatalog();
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeViewportStops(city, listener),
+    [city]
+  );
+  const state = useSyncExternalStore(subscribe, () => getViewportStopsState(city));
+  const active = options?.enabled !== false && viewport !== null && viewport.zoom >= MIN_STOPS_ZOOM;
+
+  useEffect(() => {
+    if (!active || !viewport) return;
+    const controller = new AbortController();
+    loadViewportStops(city, viewport.bounds, { signal: controller.signal })
+      .catch(e => console.warn('Failed to load viewport stops:', e));
+    return () => controller.abort();
+  }, [city, active, viewport]);
+
+  const stops = useMemo(() => {
+    if (!active || !viewport) return [];
+    return selectViewportStops(
+      [getStopIndex(catalog), state.index],
+      viewport.bounds,
+      stopLimitForZoom(viewport.zoom)
+    );
+  }, [active, viewport, catalog, state.index]);
+
+  return { stops, isLoading: state.loading, error: state.error };
+}
+
+/**
+ * Freshness of the live vehicle data of the selected city
+ * Updates with every location poll
+ */
+export function useVehicleFreshness(): FreshnessState {
+  const { city } = useCity();
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeFreshness(city, listener),
+    [city]
+  );
+  return useSyncExternalStore(subscribe, () => getFreshnessState(city));
+}
+
+/**
+ * Planned movement of live buses along their route shape
+ * Re-planned on every poll, so markers can glide between polls
+ */
+export function useVehicleMotion(
+  locations: BusLocation[] | undefined,
+  routePoints: RoutePoint[] | undefined
+): VehicleMotion[] {
+  const shape = useMemo(() => (routePoints ? buildRouteShape(routePoints) : null), [routePoints]);
+  const tracks = useRef<Map<string, VehicleTrack>>(new Map());
+  const [motion, setMotion] = useState<VehicleMotion[]>([]);
+
+  // Speeds are estimated from report times, so they must be on the device clock
+  const { clockOffsetMs } = useVehicleFreshness();
+  const corrected = useMemo(
+    () => (locations ?? []).map((location) => ({
+      ...location,
+      reportedAt: correctedReportTime({ clockOffsetMs }, location.reportedAt),
+    })),
+    [locations, clockOffsetMs]
+  );
+
+  useEffect(() => {
+    tracks.current = updateVehicleTracks(tracks.current, corrected, shape);
+    setMotion(planVehicleMotion(tracks.current, shape));
+  }, [corrected, shape]);
+
+  return motion;
+}
+
+/**
+ * Follow one vehicle of a route across location polls, with its predicted
+ * arrival at the stop being waited at and estimates for the stops ahead
+ */
+export function useFollowedVehicle(
+  vehicleNo: string,
+  routeCode: string | null,
+  stopCode: string | null
+): {
+  status: TrackingStatus;
+  /** Latest position, kept after the vehicle leaves the feed */
+  location: BusLocation | null;
+  motion: VehicleMotion | null;
+  arrival: StopArrival | null;
+  upcoming: UpcomingStop[];
+  routePoints: RoutePoint[] | undefined;
+} {
+  const { data: locations, isFetched } = useBusLocations(routeCode);
+  const { data: arrivals } = useStopArrivals(stopCode);
+  const { data: routePoints } = useRouteDetails(routeCode);
+  const { data: stops } = useStops(routeCode);
+
+  const current = findVehicle(locations, vehicleNo);
+  const [lastSeen, setLastSeen] = useState<BusLocation | null>(null);
+  useEffect(() => {
+    if (current) setLastSeen(current);
+  }, [current]);
+  const location = current ?? lastSeen;
+
+  const followed = useMemo(() => (current ? [current] : []), [current]);
+  const motion = useVehicleMotion(followed, routePoints)[0] ?? null;
+
+  const arrival = arrivals?.find(
+    (arr) => arr.routeCode === routeCode && isSameVehicle(arr.vehicleCode, vehicleNo)
+  ) ?? null;
+
+  const upcoming = useMemo(() => {
+    if (!current || !stops) return [];
+    const shape = routePoints ? buildRouteShape(routePoints) : null;
+    return upcomingStops(stops, shape, current, stopCode, arrival);
+  }, [current, stops, routePoints, stopCode, arrival]);
+
+  const freshness = useVehicleFreshness();
+
+  return {
+    status: trackingStatus(current ? vehicleFreshness(freshness, current) : null, isFetched),
+    location,
+    motion,
+    arrival,
+    upcoming,
+    routePoints,
+  };
+}
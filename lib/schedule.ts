@@ -0,0 +1,177 @@
+/**
+ * Timetable helpers shared by providers
+ * Both operators return getScheduleDaysMasterline/getSchedLines payloads
+ * (lib/oasa-types.ts); these map them into day-type aware timetables
+ */
+
+import { getServiceDayType, toGreekDate } from './calendar';
+import type { RequestOptions } from './http';
+import type { SchedLinesResponse, ScheduleDay, ScheduleLine } from './oasa-types';
+import type { DaySchedule, LineScheduleResult, ServiceDayType } from './types';
+
+/**
+ * Extract HH:MM from datetime strings like "1900-01-01 05:30:00"
+ */
+export function extractTime(datetime: string | null | undefined): string | null {
+  if (!datetime) return null;
+  if (datetime.includes(' ')) {
+    const timePart = datetime.split(' ')[1];
+    if (timePart) {
+      return timePart.substring(0, 5);
+    }
+  }
+  if (datetime.length > 5) {
+    return datetime.substring(0, 5);
+  }
+  return datetime;
+}
+
+/**
+ * Sorted, de-duplicated departure times of one direction
+ */
+function collectTimes(lines: ScheduleLine[] | undefined): string[] {
+  const times = new Set<string>();
+  if (Array.isArray(lines)) {
+    lines.forEach(line => {
+      const t1 = extractTime(line?.sde_start1);
+      const t2 = extractTime(line?.sde_start2);
+      if (t1) times.add(t1);
+      if (t2) times.add(t2);
+    });
+  }
+  return Array.from(times).sort();
+}
+
+/**
+ * Map a getSchedLines response into departure ("come") and return ("go") times
+ */
+export function toDaySchedule(day: ScheduleDay, response: SchedLinesResponse | null | undefined): DaySchedule {
+  return {
+    code: day.sdc_code,
+    name: day.sdc_descr,
+    nameEn: day.sdc_descr_eng,
+    dayType: classifyScheduleDay(day),
+    departure: collectTimes(response?.come),
+    return: collectTimes(response?.go),
+  };
+}
+
+// =============================================================================
+// Day types
+// =============================================================================
+
+// Checked in order - "Sundays & holidays" must not match as a weekday
+const DAY_TYPE_PATTERNS: [ServiceDayType, RegExp][] = [
+  ['sunday', /SUNDAY|HOLIDAY|ΚΥΡΙΑΚ|ΑΡΓΙ/],
+  ['saturday', /SATURDAY|ΣΑΒΒΑΤ/],
+  ['weekday', /WEEKDAY|DAILY|WORKING|MONDAY|TUESDAY|WEDNESDAY|THURSDAY|FRIDAY|ΚΑΘΗΜΕΡΙΝ|ΔΕΥΤΕΡ|ΤΡΙΤ|ΤΕΤΑΡΤ|ΠΕΜΠΤ|ΠΑΡΑΣΚΕΥ|ΕΡΓΑΣΙΜ/],
+];
+
+// Day names in labels, Monday first (index + 1 is Date.getDay(), Sunday is 0)
+const WEEKDAY_PATTERNS: RegExp[] = [
+  /MONDAY|\bMON\b|ΔΕΥΤΕΡ/,
+  /TUESDAY|\bTUE\b|ΤΡΙΤ/,
+  /WEDNESDAY|\bWED\b|ΤΕΤΑΡΤ/,
+  /THURSDAY|\bTHU\b|ΠΕΜΠΤ/,
+  /FRIDAY|\bFRI\b|ΠΑΡΑΣΚΕΥ/,
+  /SATURDAY|\bSAT\b|ΣΑΒΒΑΤ/,
+  /SUNDAY|\bSUN\b|ΚΥΡΙΑΚ/,
+];
+
+// Days each day type runs on when its labels name none
+const DAY_TYPE_WEEKDAYS: Record<ServiceDayType, number[]> = {
+  weekday: [1, 2, 3, 4, 5],
+  saturday: [6],
+  sunday: [0],
+};
+
+/**
+ * Uppercase and strip Greek accents so labels compare reliably
+ */
+function normalizeLabel(label: string): string {
+  return label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+}
+
+/**
+ * Recognize the day type from an operator's schedule day labels
+ */
+export function classifyScheduleDay(day: ScheduleDay): ServiceDayType | null {
+  const label = normalizeLabel(`${day.sdc_descr_eng ?? ''} ${day.sdc_descr ?? ''}`);
+  const match = DAY_TYPE_PATTERNS.find(([, pattern]) => pattern.test(label));
+  return match ? match[0] : null;
+}
+
+/**
+ * Days named in one label, e.g. "ΔΕΥΤΕΡΑ - ΠΕΜΠΤΗ" (a range), "FRIDAY"
+ * or "WEEKDAYS EXCEPT FRIDAY" (only the excluded days are named)
+ */
+function namedWeekdays(label: string): { days: number[]; excluded: boolean } {
+  const normalized = normalizeLabel(label);
+  const exceptAt = normalized.search(/EXCEPT|ΕΚΤΟΣ/);
+  const found = WEEKDAY_PATTERNS
+    .map((pattern, index) => ({ index, at: normalized.search(pattern) }))
+    .filter(({ at }) => at >= 0 && (exceptAt < 0 || at > exceptAt))
+    .sort((a, b) => a.at - b.at);
+
+  let indexes = found.map(({ index }) => index);
+  if (found.length === 2 && /[-–]|\bTO\b|ΕΩΣ/.test(normalized.slice(found[0].at, found[1].at))) {
+    const [first, last] = indexes;
+    indexes = Array.from({ length: ((last - first + 7) % 7) + 1 }, (_, i) => (first + i) % 7);
+  }
+  return { days: indexes.map(index => (index + 1) % 7), excluded: exceptAt >= 0 };
+}
+
+/**
+ * Days of the week (Date.getDay()) a timetable runs on
+ * Operators split a day type across timetables, e.g. Monday-Thursday and
+ * Friday; labels that name no days get the whole day type
+ */
+export function scheduleDayWeekdays(day: Pick<DaySchedule, 'name' | 'nameEn' | 'dayType'>): number[] {
+  const defaults = day.dayType ? DAY_TYPE_WEEKDAYS[day.dayType] : [];
+  const named = [day.nameEn, day.name].map(namedWeekdays).find(({ days }) => days.length > 0);
+  if (!named) return defaults;
+  return named.excluded ? defaults.filter(weekday => !named.days.includes(weekday)) : named.days.sort((a, b) => a - b);
+}
+
+/**
+ * Code of the timetable that applies on a date (holidays included)
+ * Falls back to the first listed day, which operators use for weekdays
+ */
+export function pickActiveDay(days: DaySchedule[], date: Date): string | null {
+  const dayType = getServiceDayType(date);
+  const { weekday } = toGreekDate(date);
+  const ofType = days.filter(day => day.dayType === dayType);
+  // Holidays run the Sunday timetable whatever the weekday
+  const match = (dayType === 'sunday' ? undefined : ofType.find(day => scheduleDayWeekdays(day).includes(weekday)))
+    ?? ofType[0]
+    ?? days[0];
+  return match?.code ?? null;
+}
+
+/**
+ * The timetable preselected for today, if any
+ */
+export function getActiveDaySchedule(schedule: LineScheduleResult | null | undefined): DaySchedule | undefined {
+  if (!schedule) return undefined;
+  return schedule.days.find(day => day.code === schedule.activeDayCode) ?? schedule.days[0];
+}
+
+/**
+ * Shared two-step schedule flow: fetch times for every schedule day,
+ * then preselect the one running today
+ */
+export async function buildLineSchedule(
+  scheduleDays: ScheduleDay[],
+  loadTimes: (sdcCode: string, options?: RequestOptions) => Promise<SchedLinesResponse | null>,
+  options?: RequestOptions,
+  date: Date = new Date()
+): Promise<LineScheduleResult> {
+  const days = await Promise.all(
+    scheduleDays.map(async day => toDaySchedule(day, await loadTimes(day.sdc_code, options)))
+  );
+
+  return {
+    days,
+    activeDayCode: pickActiveDay(days, date),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Universal search
+ * Ranked index over lines, stops (by name, code and street) and streets,
+ * producing typed SearchResult items
+ *
+ * Street results carry a representative stop (the one closest to the middle
+ * of the street's stops) as their data. Text is compared by search key
+ * (see lib/text.ts), so Greek, Greeklish and misspelled queries match.
+ */
+
+import { isFuzzyMatch, searchKey } from './text';
+import type { Line, SearchResult, SearchResultType, Stop } from './types';
+
+interface IndexedField {
+  text: string;     // Search key
+  words: string[];
+  weight: number;
+  /** Codes and line numbers only match from the start */
+  prefixOnly: boolean;
+}
+
+interface IndexEntry {
+  result: SearchResult;
+  fields: IndexedField[];
+}
+
+export interface SearchIndex {
+  entries: IndexEntry[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  types?: SearchResultType[];
+}
+
+// Ties are broken in this order
+const TYPE_ORDER: Record<SearchResultType, number> = { line: 0, stop: 1, street: 2 };
+
+// Points for how a query token matches a field, before the field weight
+const SCORE_EXACT = 100;
+const SCORE_PREFIX = 70;
+const SCORE_WORD = 60;
+const SCORE_WORD_PREFIX = 45;
+const SCORE_FUZZY_WORD = 25;
+const SCORE_SUBSTRING = 20;
+const SCORE_FUZZY_PREFIX = 15;
+const SCORE_FULL_QUERY = 50;
+
+const DEFAULT_LIMIT = 50;
+
+// =============================================================================
+// Index
+// =============================================================================
+
+function field(text: string | null | undefined, weight: number, prefixOnly = false): IndexedField[] {
+  const key = text ? searchKey(text) : '';
+  if (!key) return [];
+  return [{ text: key, words: key.split(' '), weight, prefixOnly }];
+}
+
+/**
+ * Stop closest to the centroid of a group
+ */
+function centralStop(stops: Stop[]): Stop {
+  const lat = stops.reduce((sum, stop) => sum + stop.lat, 0) / stops.length;
+  const lng = stops.reduce((sum, stop) => sum + stop.lng, 0) / stops.length;
+  const distance = (stop: Stop) => (stop.lat - lat) ** 2 + (stop.lng - lng) ** 2;
+  return stops.reduce((best, stop) => (distance(stop) < distance(best) ? stop : best));
+}
+
+/**
+ * Build a search index over lines and stops (streets come from the stops)
+ */
+export function buildSearchIndex(source: { lines?: Line[]; stops?: Stop[] }): SearchIndex {
+  const entries: IndexEntry[] = [];
+
+  // Lines - one entry per public line number, like the lines screen
+  const seenLineIds = new Set<string>();
+  source.lines?.forEach(line => {
+    if (seenLineIds.has(line.lineId)) return;
+    seenLineIds.add(line.lineId);
+    entries.push({
+      result: { type: 'line', id: `line:${line.code}`, title: line.lineId, subtitle: line.name, data: line },
+      fields: [
+        ...field(line.lineId, 3, true),
+        // "40" finds line "040"
+        ...field(line.lineId.replace(/^0+(?=\d)/, ''), 3, true),
+        ...field(line.name, 1),
+        ...field(line.nameEn, 1),
+      ],
+    });
+  });
+
+  // Stops
+  const streets = new Map<string, Stop[]>();
+  source.stops?.forEach(stop => {
+    entries.push({
+      result: { type: 'stop', id: `stop:${stop.code}`, title: stop.name, subtitle: stop.street ?? undefined, data: stop },
+      fields: [
+        ...field(stop.code, 3, true),
+        ...field(stop.name, 2),
+        ...field(stop.nameEn, 2),
+        ...field(stop.street, 1),
+        ...field(stop.streetEn, 1),
+      ],
+    });
+
+    const streetKey = stop.street ? searchKey(stop.street) : '';
+    if (streetKey) {
+      const stops = streets.get(streetKey) ?? [];
+      stops.push(stop);
+      streets.set(streetKey, stops);
+    }
+  });
+
+  // Streets
+  streets.forEach((stops, key) => {
+    const stop = centralStop(stops);
+    entries.push({
+      result: { type: 'street', id: `street:${key}`, title: stop.street!, data: stop },
+      fields: [...field(stop.street, 2), ...field(stop.streetEn, 2)],
+    });
+  });
+
+  return { entries };
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+function scoreToken(token: string, target: IndexedField): number {
+  let score = 0;
+  if (target.text === token) {
+    score = SCORE_EXACT;
+  } else if (target.text.startsWith(token)) {
+    score = SCORE_PREFIX;
+  } else if (target.prefixOnly) {
+    return 0;
+  } else if (target.words.includes(token)) {
+    score = SCORE_WORD;
+  } else if (target.words.some(word => word.startsWith(token))) {
+    score = SCORE_WORD_PREFIX;
+  } else if (target.words.some(word => isFuzzyMatch(token, word))) {
+    score = SCORE_FUZZY_WORD;
+  } else if (token.length >= 2 && target.text.includes(token)) {
+    score = SCORE_SUBSTRING;
+  } else if (target.words.some(word => isFuzzyMatch(token, word, true))) {
+    score = SCORE_FUZZY_PREFIX;
+  }
+  return score * target.weight;
+}
+
+/**
+ * Ranked results for a query
+ * Every query word must match some field, allowing for typos in longer words;
+ * better and heavier matches rank higher
+ */
+export function search(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+  const normalized = searchKey(query);
+  if (!normalized) return [];
+  const tokens = normalized.split(' ');
+
+  const scored: { result: SearchResult; score: number }[] = [];
+  index.entries.forEach(entry => {
+    if (options.types && !options.types.includes(entry.result.type)) return;
+
+    let total = 0;
+    for (const token of tokens) {
+      let best = 0;
+      entry.fields.forEach(target => {
+        best = Math.max(best, scoreToken(token, target));
+      });
+      if (best === 0) return;
+      total += best;
+    }
+
+    entry.fields.forEach(target => {
+      if (tokens.length > 1 && target.text === normalized) total += SCORE_FULL_QUERY * target.weight;
+    });
+    scored.push({ result: entry.result, score: total });
+  });
+
+  return scored
+    .sort((a, b) =>
+      b.score - a.score ||
+      TYPE_ORDER[a.result.type] - TYPE_ORDER[b.result.type] ||
+      a.result.title.length - b.result.title.length ||
+      a.result.title.localeCompare(b.result.title)
+    )
+    .slice(0, options.limit ?? DEFAULT_LIMIT)
+    .map(({ result }) => result);
+}
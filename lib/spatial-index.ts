@@ -0,0 +1,167 @@
+/**
+ * Spatial index
+ * Uniform grid over points (stops), answering k-nearest, radius and
+ * bounding-box queries without scanning every point
+ *
+ * Cells are square at the points' mean latitude; the small distortion
+ * across a city does not matter at these cell sizes
+ */
+
+import { distanceMeters, type GeoBounds } from './geo';
+
+const METERS_PER_DEGREE_LAT = 111320;
+const DEFAULT_CELL_METERS = 500;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface SpatialMatch<T> {
+  item: T;
+  distanceMeters: number;
+}
+
+export class SpatialIndex<T extends GeoPoint> {
+  readonly size: number;
+  private readonly cells = new Map<string, T[]>();
+  private readonly cellLat: number;
+  private readonly cellLng: number;
+  private readonly cellMeters: number;
+  private minRow = Infinity;
+  private maxRow = -Infinity;
+  private minCol = Infinity;
+  private maxCol = -Infinity;
+
+  constructor(items: readonly T[], cellMeters = DEFAULT_CELL_METERS) {
+    const points = items.filter(item => Number.isFinite(item.lat) && Number.isFinite(item.lng));
+    const meanLat = points.length > 0 ? points.reduce((sum, p) => sum + p.lat, 0) / points.length : 0;
+
+    this.size = points.length;
+    this.cellMeters = cellMeters;
+    this.cellLat = cellMeters / METERS_PER_DEGREE_LAT;
+    this.cellLng = this.cellLat / Math.max(Math.cos((meanLat * Math.PI) / 180), 0.01);
+
+    points.forEach(point => {
+      const row = this.row(point.lat);
+      const col = this.col(point.lng);
+      const key = `${row}:${col}`;
+      const cell = this.cells.get(key);
+      if (cell) cell.push(point);
+      else this.cells.set(key, [point]);
+      this.minRow = Math.min(this.minRow, row);
+      this.maxRow = Math.max(this.maxRow, row);
+      this.minCol = Math.min(this.minCol, col);
+      this.maxCol = Math.max(this.maxCol, col);
+    });
+  }
+
+  private row(lat: number): number {
+    return Math.floor(lat / this.cellLat);
+  }
+
+  private col(lng: number): number {
+    return Math.floor(lng / this.cellLng);
+  }
+
+  private cell(row: number, col: number): T[] | undefined {
+    return this.cells.get(`${row}:${col}`);
+  }
+
+  /**
+   * Points in the cells overlapping a box (a superset of the points inside it)
+   */
+  private candidates(south: number, west: number, north: number, east: number): T[] {
+    const found: T[] = [];
+    const rowEnd = Math.min(this.row(north), this.maxRow);
+    const colEnd = Math.min(this.col(east), this.maxCol);
+    for (let row = Math.max(this.row(south), this.minRow); row <= rowEnd; row++) {
+      for (let col = Math.max(this.col(west), this.minCol); col <= colEnd; col++) {
+        const cell = this.cell(row, col);
+        if (cell) found.push(...cell);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * The k points closest to a location, nearest first,
+   * optionally no further than maxDistance meters
+   */
+  nearest(lat: number, lng: number, k: number, maxDistance = Infinity): SpatialMatch<T>[] {
+    if (k <= 0 || this.size === 0) return [];
+
+    const centerRow = this.row(lat);
+    const centerCol = this.col(lng);
+    // Any point outside ring r is at least r cells away
+    const ringMeters = Math.min(
+      this.cellMeters,
+      this.cellLng * METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180)
+    );
+    const maxRing = Math.max(
+      Math.abs(centerRow - this.minRow), Math.abs(centerRow - this.maxRow),
+      Math.abs(centerCol - this.minCol), Math.abs(centerCol - this.maxCol)
+    );
+
+    const matches: SpatialMatch<T>[] = [];
+    const visit = (row: number, col: number) => {
+      this.cell(row, col)?.forEach(item => {
+        const distance = distanceMeters(lat, lng, item.lat, item.lng);
+        if (distance <= maxDistance) matches.push({ item, distanceMeters: distance });
+      });
+    };
+
+    // Rings are clipped to the occupied cells, and start at the first one
+    // reaching them when the location lies outside
+    const firstRing = Math.max(
+      0,
+      this.minRow - centerRow, centerRow - this.maxRow,
+      this.minCol - centerCol, centerCol - this.maxCol
+    );
+    for (let ring = firstRing; ring <= maxRing; ring++) {
+      const colStart = Math.max(centerCol - ring, this.minCol);
+      const colEnd = Math.min(centerCol + ring, this.maxCol);
+      const rowStart = Math.max(centerRow - ring + 1, this.minRow);
+      const rowEnd = Math.min(centerRow + ring - 1, this.maxRow);
+      for (let col = colStart; col <= colEnd; col++) {
+        visit(centerRow - ring, col);
+        if (ring > 0) visit(centerRow + ring, col);
+      }
+      for (let row = rowStart; row <= rowEnd; row++) {
+        visit(row, centerCol - ring);
+        visit(row, centerCol + ring);
+      }
+
+      const reach = ring * ringMeters;
+      if (reach >= maxDistance) break;
+      if (matches.length >= k) {
+        matches.sort((a, b) => a.distanceMeters - b.distanceMeters);
+        if (matches[k - 1].distanceMeters <= reach) break;
+      }
+    }
+
+    return matches.sort((a, b) => a.distanceMeters - b.distanceMeters).slice(0, k);
+  }
+
+  /**
+   * Points within a radius of a location, nearest first
+   */
+  withinRadius(lat: number, lng: number, radiusMeters: number): SpatialMatch<T>[] {
+    const dLat = radiusMeters / METERS_PER_DEGREE_LAT;
+    const dLng = dLat / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+    return this.candidates(lat - dLat, lng - dLng, lat + dLat, lng + dLng)
+      .map(item => ({ item, distanceMeters: distanceMeters(lat, lng, item.lat, item.lng) }))
+      .filter(match => match.distanceMeters <= radiusMeters)
+      .sort((a, b) => a.distanceMeters - b.distanceMeters);
+  }
+
+  /**
+   * Points inside a box
+   */
+  withinBounds(bounds: GeoBounds): T[] {
+    return this.candidates(bounds.south, bounds.west, bounds.north, bounds.east).filter(item =>
+      item.lat >= bounds.south && item.lat <= bounds.north &&
+      item.lng >= bounds.west && item.lng <= bounds.east
+    );
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Stop catalog
+ * Builds a complete, cached index of a city's stops by walking every line
+ * and route, so any stop can be looked up by code (the APIs only return
+ * stops around a point or along one route)
+ *
+ * The catalog is refreshed incrementally in the background: only lines not
+ * fetched within LINE_TTL_MS are walked again, and progress is saved as it goes
+ *
+ * A spatial index over the catalog answers nearest-stop and viewport
+ * queries locally once every line has been walked
+ */
+
+import { isTransitApiError } from './errors';
+import type { RequestOptions } from './http';
+import { getProvider, supports, type City } from './providers';
+import { SpatialIndex } from './spatial-index';
+import { getLargeItem, setLargeItem } from './storage';
+import type { Direction, Line, Stop } from './types';
+import * as api from './unified-api';
+
+const LINE_TTL_MS = 7 * 24 * 60 * 60 * 1000;     // Re-walk a line weekly
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000; // Look for stale lines daily
+const CONCURRENCY = 2;                            // Lines walked in parallel
+const SAVE_EVERY = 25;                            // Lines between saves
+const CLOSEST_STOPS_LIMIT = 30;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Route serving a catalog stop
+ */
+export interface CatalogStopRoute {
+  routeCode: string;
+  lineCode: string;
+  lineId: string;
+  direction: Direction;
+}
+
+export interface CatalogStop extends Omit<Stop, 'order' | 'distanceMeters'> {
+  routes: CatalogStopRoute[];
+}
+
+export interface StopCatalog {
+  city: City;
+  /** Epoch ms of the last finished refresh */
+  updatedAt: number | null;
+  /** Stops by stop code */
+  stops: Record<string, CatalogStop>;
+  /** When each line was last walked and the stops it served */
+  lines: Record<string, { fetchedAt: number; stopCodes: string[] }>;
+  /** Every line has been walked */
+  complete: boolean;
+}
+
+export interface StopCatalogState {
+  catalog: StopCatalog;
+  loaded: boolean;
+  refreshing: boolean;
+  progress: { done: number; total: number } | null;
+  error: Error | null;
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+const states = new Map<City, StopCatalogState>();
+const listeners = new Map<City, Set<() => void>>();
+const refreshes = new Map<City, Promise<StopCatalog>>();
+const loads = new Map<City, Promise<StopCatalog>>();
+
+function storageKey(city: City): string {
+  return `@stop_catalog:${city}`;
+}
+
+function emptyCatalog(city: City): StopCatalog {
+  return { city, updatedAt: null, stops: {}, lines: {}, complete: false };
+}
+
+/**
+ * Current catalog state of a city (stable between updates)
+ */
+export function getStopCatalogState(city: City): StopCatalogState {
+  let state = states.get(city);
+  if (!state) {
+    state = { catalog: emptyCatalog(city), loaded: false, refreshing: false, progress: null, error: null };
+    states.set(city, state);
+  }
+  return state;
+}
+
+/**
+ * Listen for catalog changes of a city
+ */
+export function subscribeStopCatalog(city: City, listener: () => void): () => void {
+  const set = listeners.get(city) ?? new Set();
+  set.add(listener);
+  listeners.set(city, set);
+  return () => set.delete(listener);
+}
+
+function update(city: City, changes: Partial<StopCatalogState>): void {
+  states.set(city, { ...getStopCatalogState(city), ...changes });
+  listeners.get(city)?.forEach(listener => listener());
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * The city's catalog, loaded from storage on first use
+ */
+export function loadStopCatalog(city: City): Promise<StopCatalog> {
+  const state = getStopCatalogState(city);
+  if (state.loaded) return Promise.resolve(state.catalog);
+
+  let load = loads.get(city);
+  if (!load) {
+    load = getLargeItem<StopCatalog>(storageKey(city))
+      .catch(e => {
+        console.warn('Failed to load stop catalog:', e);
+        return null;
+      })
+      .then(saved => {
+        const catalog = saved ?? emptyCatalog(city);
+        update(city, { catalog, loaded: true });
+        loads.delete(city);
+        return catalog;
+      });
+    loads.set(city, load);
+  }
+  return load;
+}
+
+/**
+ * Look up any stop of a city by its code
+ */
+export async function getStopByCode(city: City, stopCode: string): Promise<CatalogStop | null> {
+  const catalog = await loadStopCatalog(city);
+  return catalog.stops[stopCode] ?? null;
+}
+
+// =============================================================================
+// Spatial queries
+// =============================================================================
+
+// Built lazily, once per catalog version (published catalogs are never mutated)
+const stopIndexes = new WeakMap<StopCatalog, SpatialIndex<CatalogStop>>();
+
+/**
+ * Spatial index over a catalog's stops
+ */
+export function getStopIndex(catalog: StopCatalog): SpatialIndex<CatalogStop> {
+  let index = stopIndexes.get(catalog);
+  if (!index) {
+    index = new SpatialIndex(Object.values(catalog.stops));
+    stopIndexes.set(catalog, index);
+  }
+  return index;
+}
+
+/**
+ * Closest stops from the catalog, or null until the catalog is complete
+ * (a partial catalog would silently miss stops)
+ */
+export function getClosestCatalogStops(city: City, lat: number, lng: number, limit = CLOSEST_STOPS_LIMIT): Stop[] | null {
+  const { catalog } = getStopCatalogState(city);
+  if (!catalog.complete) return null;
+  return getStopIndex(catalog)
+    .nearest(lat, lng, limit)
+    .map(({ item, distanceMeters }) => {
+      const { routes: _routes, ...stop } = item;
+      return { ...stop, distanceMeters };
+    });
+}
+
+// =============================================================================
+// Refreshing
+// =============================================================================
+
+/**
+ * Working copy of a catalog: refreshes edit the copy and publish a new
+ * snapshot when saving, so published catalogs (and their indexes) stay valid
+ * Stops are replaced rather than edited, so sharing them is safe
+ */
+function copyCatalog(catalog: StopCatalog): StopCatalog {
+  return { ...catalog, stops: { ...catalog.stops }, lines: { ...catalog.lines } };
+}
+
+/**
+ * Drop a line's routes from the stops it served (and stops left with none)
+ */
+function removeLine(catalog: StopCatalog, lineCode: string): void {
+  catalog.lines[lineCode]?.stopCodes.forEach(code => {
+    const stop = catalog.stops[code];
+    if (!stop) return;
+    const routes = stop.routes.filter(route => route.lineCode !== lineCode);
+    if (routes.length === 0) {
+      delete catalog.stops[code];
+    } else {
+      catalog.stops[code] = { ...stop, routes };
+    }
+  });
+  delete catalog.lines[lineCode];
+}
+
+/**
+ * Fetch one line's routes and their stops into the catalog
+ */
+async function walkLine(catalog: StopCatalog, line: Line, options: RequestOptions): Promise<void> {
+  const routes = await api.getRoutesForLine(catalog.city, line.code, options);
+  const routeStops = await Promise.all(
+    routes.map(async route => ({ route, stops: await api.getStops(catalog.city, route.code, options) }))
+  );
+
+  // Only touch the catalog once the whole line loaded
+  removeLine(catalog, line.code);
+  const stopCodes = new Set<string>();
+
+  routeStops.forEach(({ route, stops }) => {
+    stops.forEach(stop => {
+      const { order: _order, distanceMeters: _distance, ...fields } = stop;
+      const existing = catalog.stops[stop.code];
+      catalog.stops[stop.code] = {
+        ...fields,
+        // Keep details another route's payload had when this one lacks them
+        street: fields.street ?? existing?.street ?? null,
+        streetEn: fields.streetEn ?? existing?.streetEn ?? null,
+        heading: fields.heading ?? existing?.heading ?? null,
+        routes: [...(existing?.routes ?? [])],
+      };
+      const served = catalog.stops[stop.code].routes;
+      if (!served.some(r => r.routeCode === route.code)) {
+        served.push({ routeCode: route.code, lineCode: line.code, lineId: line.lineId, direction: route.direction });
+      }
+      stopCodes.add(stop.code);
+    });
+  });
+
+  catalog.lines[line.code] = { fetchedAt: Date.now(), stopCodes: Array.from(stopCodes) };
+}
+
+/**
+ * Save the working catalog and publish a snapshot of it
+ */
+async function saveCatalog(city: City, catalog: StopCatalog): Promise<StopCatalog> {
+  const snapshot = copyCatalog(catalog);
+  await setLargeItem(storageKey(city), snapshot);
+  update(city, { catalog: snapshot });
+  return snapshot;
+}
+
+async function runRefresh(city: City, options: RequestOptions): Promise<StopCatalog> {
+  const catalog = copyCatalog(await loadStopCatalog(city));
+  const lines = await api.getLines(city, options);
+  const now = Date.now();
+
+  // Lines the operator no longer runs
+  const current = new Set(lines.map(line => line.code));
+  Object.keys(catalog.lines).forEach(code => {
+    if (!current.has(code)) removeLine(catalog, code);
+  });
+
+  const stale = lines.filter(line => {
+    const fetchedAt = catalog.lines[line.code]?.fetchedAt;
+    return fetchedAt === undefined || now - fetchedAt > LINE_TTL_MS;
+  });
+
+  let done = 0;
+  let lastError: Error | null = null;
+  update(city, { progress: { done, total: stale.length } });
+
+  let next = 0;
+  const worker = async () => {
+    while (next < stale.length) {
+      const line = stale[next++];
+      try {
+        await walkLine(catalog, line, options);
+      } catch (e) {
+        if (options.signal?.aborted || !isTransitApiError(e)) throw e;
+        // Keep the line's previous stops and retry it next refresh
+        lastError = e;
+      }
+      done++;
+      update(city, { progress: { done, total: stale.length } });
+      if (done % SAVE_EVERY === 0) {
+        await saveCatalog(city, catalog);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  // A line that failed this time still counts if an earlier walk stored it
+  catalog.complete = lines.every(line => catalog.lines[line.code] !== undefined);
+  catalog.updatedAt = Date.now();
+  const saved = await saveCatalog(city, catalog);
+  update(city, { error: lastError });
+  return saved;
+}
+
+/**
+ * Walk the city's stale lines into the catalog (one refresh per city at a time)
+ */
+export function refreshStopCatalog(city: City, options: RequestOptions = {}): Promise<StopCatalog> {
+  let refresh = refreshes.get(city);
+  if (!refresh) {
+    update(city, { refreshing: true, error: null });
+    refresh = runRefresh(city, options)
+      .catch(e => {
+        update(city, { error: e instanceof Error ? e : new Error(String(e)) });
+        throw e;
+      })
+      .finally(() => {
+        refreshes.delete(city);
+        update(city, { refreshing: false, progress: null });
+      });
+    refreshes.set(city, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Load the catalog and refresh it in the background when due
+ * Cities whose provider cannot list a route's stops are skipped
+ */
+export async function ensureStopCatalog(city: City): Promise<void> {
+  if (!supports(getProvider(city), 'routeStops')) return;
+
+  const catalog = await loadStopCatalog(city);
+  const due = !catalog.complete || catalog.updatedAt === null || Date.now() - catalog.updatedAt > REFRESH_INTERVAL_MS;
+  if (due) {
+    await refreshStopCatalog(city).catch(e => console.warn('Stop catalog refresh failed:', e));
+  }
+}
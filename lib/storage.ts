@@ -0,0 +1,54 @@
+/**
+ * AsyncStorage helpers for large JSON values
+ * Values are split into chunks, since Android cannot read back single
+ * values larger than about 2MB
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CHUNK_SIZE = 512 * 1024; // Characters per stored value
+
+function chunkKeys(key: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${key}:${i}`);
+}
+
+async function chunkCount(key: string): Promise<number> {
+  return Number(await AsyncStorage.getItem(key)) || 0;
+}
+
+/**
+ * Remove a value saved with setLargeItem
+ */
+export async function removeLargeItem(key: string): Promise<void> {
+  const count = await chunkCount(key);
+  await AsyncStorage.multiRemove([key, ...chunkKeys(key, count)]);
+}
+
+/**
+ * Save a JSON-serializable value of any size
+ */
+export async function setLargeItem(key: string, value: unknown): Promise<void> {
+  const json = JSON.stringify(value);
+  const chunks: [string, string][] = [];
+  for (let offset = 0; offset < json.length; offset += CHUNK_SIZE) {
+    chunks.push([`${key}:${chunks.length}`, json.slice(offset, offset + CHUNK_SIZE)]);
+  }
+
+  await removeLargeItem(key);
+  await AsyncStorage.multiSet(chunks);
+  // The count is written last, so an interrupted save reads back as missing
+  await AsyncStorage.setItem(key, String(chunks.length));
+}
+
+/**
+ * Load a value saved with setLargeItem, or null if none (or it is incomplete)
+ */
+export async function getLargeItem<T>(key: string): Promise<T | null> {
+  const count = await chunkCount(key);
+  if (count === 0) return null;
+
+  const chunks = await AsyncStorage.multiGet(chunkKeys(key, count));
+  if (chunks.some(([, value]) => value == null)) return null;
+
+  return JSON.parse(chunks.map(([, value]) => value).join('')) as T;
+}
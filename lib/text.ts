@@ -0,0 +1,207 @@
+/**
+ * Text normalization for search and filtering
+ * - folding: case, accents (tonos, dialytika) and final sigma
+ * - ELOT 743 transliteration of Greek to Latin
+ * - search keys: Greek, ELOT and informal Greeklish spellings of a name
+ *   reduce to the same key, so "Σύνταγμα", "ΣΥΝΤΑΓΜΑ" and "syntagma" match
+ * - typo-tolerant comparison of search keys
+ */
+
+// =============================================================================
+// Folding
+// =============================================================================
+
+/**
+ * Lowercase, strip accents (Greek tonos and dialytika included),
+ * fold final sigma and collapse punctuation to single spaces
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ς/g, 'σ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// =============================================================================
+// Transliteration (ELOT 743)
+// =============================================================================
+
+const GREEK_LETTERS: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th',
+  ι: 'i', κ: 'k', λ: 'l', μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p',
+  ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps',
+  ω: 'o', ϊ: 'i', ϋ: 'y', ΐ: 'i', ΰ: 'y',
+};
+
+// αυ, ευ and ηυ read as v before these (and vowels), as f otherwise
+const VOICED = new Set('αεηιουωβγδζλμνρ');
+
+function isGreekLetter(char: string | undefined): boolean {
+  return char !== undefined && GREEK_LETTERS[char] !== undefined;
+}
+
+/**
+ * Match the case of the Greek source: "Θ" is "Th", or "TH" inside a capitalized word
+ */
+function matchCase(latin: string, source: string, next: string | undefined): string {
+  if (source === source.toLowerCase()) return latin;
+  if (latin.length > 1 && next !== undefined && next !== next.toLowerCase()) return latin.toUpperCase();
+  return latin.charAt(0).toUpperCase() + latin.slice(1);
+}
+
+/**
+ * Transliterate Greek to Latin following ELOT 743 (ISO 843)
+ * Non-Greek characters are kept as they are
+ */
+export function transliterate(text: string): string {
+  // Drop the tonos but keep dialytika, which split digraphs (αϋ is a-y, αυ is av)
+  const chars = Array.from(text.normalize('NFD').replace(/\u0301/g, '').normalize('NFC'));
+  const lower = chars.map(char => char.toLowerCase());
+
+  let out = '';
+  for (let i = 0; i < chars.length; i++) {
+    const c = lower[i];
+    const next = lower[i + 1];
+    const latin = GREEK_LETTERS[c];
+    if (latin === undefined) {
+      out += chars[i];
+      continue;
+    }
+
+    let pair: string | null = null;
+    if ((c === 'α' || c === 'ε' || c === 'η') && next === 'υ') {
+      const after = lower[i + 2];
+      pair = latin + (after !== undefined && VOICED.has(after) ? 'v' : 'f');
+    } else if (c === 'ο' && next === 'υ') {
+      pair = 'ou';
+    } else if (c === 'μ' && next === 'π') {
+      // b at the start or end of a word, mb inside it
+      const wordEdge = !isGreekLetter(lower[i - 1]) || !isGreekLetter(lower[i + 2]);
+      pair = wordEdge ? 'b' : 'mb';
+    } else if (c === 'γ' && (next === 'γ' || next === 'ξ' || next === 'χ')) {
+      pair = 'n' + GREEK_LETTERS[next];
+    } else if (c === 'γ' && next === 'κ') {
+      pair = 'gk';
+    }
+
+    if (pair !== null) {
+      out += matchCase(pair, chars[i], chars[i + 2] ?? chars[i + 1]);
+      i++;
+    } else {
+      out += matchCase(latin, chars[i], chars[i + 1]);
+    }
+  }
+  return out;
+}
+
+// =============================================================================
+// Search keys
+// =============================================================================
+
+// Spellings that mean the same Greek sound, in the order they are applied
+const LATIN_EQUIVALENTS: [RegExp, string][] = [
+  [/th/g, 'θ'],                   // Kept apart from h (χ) below
+  [/ph/g, 'f'],
+  [/ch|kh|ks|h/g, 'x'],           // χ is written ch, kh, h or x; ξ is x or ks
+  [/c/g, 'k'],
+  [/mp|mb|b/g, 'v'],              // β is v or b; μπ is b, mp or mb
+  [/nt/g, 'd'],                   // ντ is d or nt
+  [/gk|gg|ng/g, 'g'],             // γκ and γγ
+  [/au/g, 'av'],
+  [/eu/g, 'ev'],
+  [/ou/g, 'u'],
+  [/ai/g, 'e'],
+  [/ei|oi|yi/g, 'i'],
+  [/y/g, 'i'],                    // υ is y or i, like η and ι
+  [/w/g, 'o'],                    // ω
+];
+
+/**
+ * Spelling-independent key of a text, for matching only (never shown)
+ * Words stay separated by single spaces and digits are left alone
+ */
+export function searchKey(text: string): string {
+  let key = foldText(transliterate(text.normalize('NFC')));
+  LATIN_EQUIVALENTS.forEach(([pattern, replacement]) => {
+    key = key.replace(pattern, replacement);
+  });
+  // Doubled letters are rarely typed consistently
+  return key.replace(/(\p{L})\1+/gu, '$1');
+}
+
+/**
+ * Words of a text's search key
+ */
+export function tokenize(text: string): string[] {
+  const key = searchKey(text);
+  return key ? key.split(' ') : [];
+}
+
+// =============================================================================
+// Fuzzy matching
+// =============================================================================
+
+/**
+ * Typos tolerated in a word of this length
+ */
+export function maxTypos(length: number): number {
+  if (length < 4) return 0;
+  return length < 7 ? 1 : 2;
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment),
+ * or max + 1 once it is known to exceed max
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * A query word is close enough to a word, or to its start while still typing
+ */
+export function isFuzzyMatch(token: string, word: string, prefix = false): boolean {
+  const allowed = maxTypos(token.length);
+  if (allowed === 0) return false;
+  const target = prefix ? word.slice(0, token.length) : word;
+  return editDistance(token, target, allowed) <= allowed;
+}
+
+/**
+ * Every word of the query matches a word of some field, exactly, by prefix,
+ * inside it or with a few typos. Empty queries match everything.
+ */
+export function matchesQuery(query: string, ...fields: (string | null | undefined)[]): boolean {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return true;
+
+  const keys = fields.flatMap(field => (field ? [searchKey(field)] : []));
+  const words = keys.flatMap(key => key.split(' '));
+  return tokens.every(token =>
+    keys.some(key => key.includes(token)) ||
+    words.some(word => isFuzzyMatch(token, word) || isFuzzyMatch(token, word, true))
+  );
+}
@@ -1,63 +1,100 @@
 /**
- * TypeScript types for OASA Telematics API
+ * Normalized transit domain model
+ * Produced by the provider mappers (lib/api.ts, lib/oasth-api.ts) so screens
+ * never parse raw API strings themselves
  */
 
+// Travel direction of a route within its line
+export type Direction = 'outbound' | 'inbound';
+
 // Bus line information
 export interface Line {
-  LineCode: string;
-  LineID: string;
-  LineDescr: string;
-  LineDescrEng: string;
+  code: string;
+  lineId: string; // Public line number, e.g. "040"
+  name: string;
+  nameEn: string;
 }
 
-// Route information for a line
+// Route (one direction of a line)
 export interface Route {
-  RouteCode: string;
-  LineCode: string;
-  RouteDescr: string;
-  RouteDescrEng: string;
-  RouteType?: string;
-  RouteDistance?: string;
+  code: string;
+  lineCode: string;
+  name: string;
+  nameEn: string;
+  direction: Direction;
+  distanceMeters: number | null;
 }
 
 // Route geometry point (for polyline)
 export interface RoutePoint {
-  routed_x: string;
-  routed_y: string;
-  routed_order: string;
+  lat: number;
+  lng: number;
+  order: number;
 }
 
 // Live bus location
 export interface BusLocation {
-  VEH_NO: string;
-  CS_DATE: string;
-  CS_LAT: string;
-  CS_LNG: string;
-  ROUTE_CODE: string;
+  vehicleNo: string;
+  routeCode: string;
+  lat: number;
+  lng: number;
+  reportedAt: Date | null; // Time of the GPS fix, if the feed provides one
 }
 
 // Bus arrival at a stop
 export interface StopArrival {
-  route_code: string;
-  veh_code: string;
-  btime2: string; // minutes until arrival
+  routeCode: string;
+  vehicleCode: string;
+  minutes: number;
+  expectedAt: Date;
 }
 
 // Bus stop information
 export interface Stop {
-  StopCode: string;
-  StopID: string;
-  StopDescr: string;
-  StopDescrEng: string;
-  StopStreet: string | null;
-  StopStreetEng: string | null;
-  StopHeading: string;
-  StopLat: string;
-  StopLng: string;
-  RouteStopOrder?: string;
-  StopType?: string;
-  StopAmea?: string;
-  distance?: string; // Only for closest stops
+  code: string;
+  id: string;
+  name: string;
+  nameEn: string;
+  street: string | null;
+  streetEn: string | null;
+  heading: number | null; // Degrees
+  lat: number;
+  lng: number;
+  order?: number; // Position along a route
+  accessible?: boolean;
+  distanceMeters?: number; // Only for closest stops
+}
+
+// Route serving a stop, joined with its line
+export interface StopRoute {
+  routeCode: string;
+  routeName: string;
+  routeNameEn: string;
+  direction: Direction;
+  lineCode: string;
+  lineId: string;
+  lineName: string;
+  lineNameEn: string;
+  masterLineCode: string;
+}
+
+// Kind of service day a timetable applies to
+export type ServiceDayType = 'weekday' | 'saturday' | 'sunday';
+
+// Scheduled departure times ("HH:MM") of one day type, both directions
+export interface DaySchedule {
+  code: string; // Operator schedule day code (sdc_code)
+  name: string;
+  nameEn: string;
+  dayType: ServiceDayType | null; // null when the operator's label is not recognized
+  departure: string[];  // "come" direction
+  return: string[];     // "go" direction
+}
+
+// Every timetable of a line, with the one running today preselected
+export interface LineScheduleResult {
+  days: DaySchedule[];
+  activeDayCode: string | null;
 }
 
 // Search result types
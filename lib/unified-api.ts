@@ -1,105 +1,95 @@
 /**
  * Unified API Client
- * Automatically switches between OASA (Athens) and OASTH (Thessaloniki) APIs
- * based on the selected city context
+ * Resolves the transit provider registered for the selected city
+ * and delegates every call to it
  */
 
-import type { LineScheduleResult, StopRoute } from './api';
-import * as OasaApi from './api';
-import * as OasthApi from './oasth-api';
-import type { BusLocation, Line, Route, RoutePoint, Stop, StopArrival } from './types';
+import { UnsupportedOperationError } from './errors';
+import type { RequestOptions } from './http';
+import { getProvider, supports, type City, type TransitCapability } from './providers';
+import type { BusLocation, Line, LineScheduleResult, Route, RoutePoint, Stop, StopArrival, StopRoute } from './types';
 
-export type City = 'athens' | 'thessaloniki';
+export type { City } from './providers';
 
 /**
- * Get the appropriate API based on city
+ * Get the provider for a city, failing if it lacks the requested operation
  */
-function getApi(city: City) {
-  return city === 'athens' ? OasaApi : OasthApi;
+function requireCapability(city: City, capability: TransitCapability) {
+  const provider = getProvider(city);
+  if (!supports(provider, capability)) {
+    throw new UnsupportedOperationError({ operator: provider.operator, endpoint: capability });
+  }
+  return provider;
 }
 
 /**
  * Get all bus lines
  */
-export async function getLines(city: City): Promise<Line[]> {
-  const api = getApi(city);
-  return api.getLines();
+export async function getLines(city: City, options?: RequestOptions): Promise<Line[]> {
+  return getProvider(city).getLines(options);
 }
 
 /**
  * Get routes for a specific line
  */
-export async function getRoutesForLine(city: City, lineCode: string): Promise<Route[]> {
-  const api = getApi(city);
-  return api.getRoutesForLine(lineCode);
+export async function getRoutesForLine(city: City, lineCode: string, options?: RequestOptions): Promise<Route[]> {
+  return getProvider(city).getRoutesForLine(lineCode, options);
 }
 
 /**
  * Get route details (polyline points)
  */
-export async function getRouteDetails(city: City, routeCode: string): Promise<RoutePoint[]> {
-  const api = getApi(city);
-  return api.getRouteDetails(routeCode);
+export async function getRouteDetails(city: City, routeCode: string, options?: RequestOptions): Promise<RoutePoint[]> {
+  return getProvider(city).getRouteDetails(routeCode, options);
 }
 
 /**
  * Get live bus locations for a route
  */
-export async function getBusLocations(city: City, routeCode: string): Promise<BusLocation[]> {
-  const api = getApi(city);
-  return api.getBusLocations(routeCode);
+export async function getBusLocations(city: City, routeCode: string, options?: RequestOptions): Promise<BusLocation[]> {
+  return getProvider(city).getBusLocations(routeCode, options);
 }
 
 /**
  * Get arrivals at a stop
  */
-export async function getStopArrivals(city: City, stopCode: string): Promise<StopArrival[]> {
-  const api = getApi(city);
-  return api.getStopArrivals(stopCode);
+export async function getStopArrivals(city: City, stopCode: string, options?: RequestOptions): Promise<StopArrival[]> {
+  return getProvider(city).getStopArrivals(stopCode, options);
 }
 
 /**
  * Get stops for a route
  */
-export async function getStops(city: City, routeCode: string): Promise<Stop[]> {
-  if (city === 'athens') {
-    return OasaApi.getStops(routeCode);
-  }
-  // OASTH doesn't have the same endpoint - would need route-stop mapping
-  console.warn('getStops for route not fully implemented for OASTH');
-  return [];
+export async function getStops(city: City, routeCode: string, options?: RequestOptions): Promise<Stop[]> {
+  const provider = requireCapability(city, 'routeStops');
+  return provider.getStops!(routeCode, options);
 }
 
 /**
  * Get closest stops to a location
  */
-export async function getClosestStops(city: City, lat: number, lng: number): Promise<Stop[]> {
-  const api = getApi(city);
-  return api.getClosestStops(lat, lng);
+export async function getClosestStops(city: City, lat: number, lng: number, options?: RequestOptions): Promise<Stop[]> {
+  return getProvider(city).getClosestStops(lat, lng, options);
 }
 
 /**
  * Get routes that serve a stop
  */
-export async function getRoutesForStop(city: City, stopCode: string): Promise<StopRoute[]> {
-  const api = getApi(city);
-  return api.getRoutesForStop(stopCode);
+export async function getRoutesForStop(city: City, stopCode: string, options?: RequestOptions): Promise<StopRoute[]> {
+  return getProvider(city).getRoutesForStop(stopCode, options);
 }
 
 /**
  * Get schedule for a line
  */
-export async function getLineSchedule(city: City, mlCode: string, lineCode: string): Promise<LineScheduleResult> {
-  const api = getApi(city);
-  return api.getLineSchedule(mlCode, lineCode);
+export async function getLineSchedule(city: City, mlCode: string, lineCode: string, options?: RequestOptions): Promise<LineScheduleResult> {
+  return getProvider(city).getLineSchedule(mlCode, lineCode, options);
 }
 
 /**
- * Get route name by code (Athens only)
+ * Get route name by code
  */
-export async function getRouteName(city: City, routeCode: string): Promise<{ route_descr: string; route_descr_eng: string }[]> {
-  if (city === 'athens') {
-    return OasaApi.getRouteName(routeCode);
-  }
-  return [];
+export async function getRouteName(city: City, routeCode: string, options?: RequestOptions): Promise<{ route_descr: string; route_descr_eng: string }[]> {
+  const provider = requireCapability(city, 'routeNames');
+  return provider.getRouteName!(routeCode, options);
 }
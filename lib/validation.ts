@@ -0,0 +1,161 @@
+/**
+ * Runtime validation for provider mappers
+ * Malformed rows are dropped and reported instead of leaking NaN into the UI
+ */
+
+import { DecodeError } from './errors';
+
+/**
+ * Thrown by a row mapper when a row cannot be normalized
+ */
+export class RowValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RowValidationError';
+  }
+}
+
+export interface RejectedRow {
+  operator: string;
+  entity: string;
+  reason: string;
+  row: unknown;
+  at: number;
+}
+
+type RejectedRowListener = (rejected: RejectedRow[]) => void;
+
+const MAX_REPORTED_ROWS = 200;
+const reportedRows: RejectedRow[] = [];
+const listeners = new Set<RejectedRowListener>();
+
+/**
+ * Record rejected rows and notify listeners
+ */
+function reportRejectedRows(rejected: RejectedRow[]): void {
+  if (rejected.length === 0) return;
+
+  reportedRows.push(...rejected);
+  if (reportedRows.length > MAX_REPORTED_ROWS) {
+    reportedRows.splice(0, reportedRows.length - MAX_REPORTED_ROWS);
+  }
+
+  const { operator, entity, reason } = rejected[0];
+  console.warn(`${operator}: dropped ${rejected.length} malformed ${entity} row(s), e.g. ${reason}`);
+  listeners.forEach(listener => listener(rejected));
+}
+
+/**
+ * Most recent rejected rows, oldest first
+ */
+export function getRejectedRows(): readonly RejectedRow[] {
+  return reportedRows;
+}
+
+/**
+ * Subscribe to rejected rows as they are reported
+ */
+export function onRejectedRows(listener: RejectedRowListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Map raw rows with a mapper that throws RowValidationError on bad input
+ * Valid rows are returned, invalid ones are reported
+ * Raises DecodeError when the payload is not a list at all (e.g. an error object)
+ */
+export function mapRows<R, T>(
+  rows: readonly R[],
+  mapper: (row: R, index: number) => T,
+  context: { operator: string; entity: string }
+): T[] {
+  if (!Array.isArray(rows)) {
+    throw new DecodeError(JSON.stringify(rows) ?? String(rows), {
+      operator: context.operator,
+      endpoint: context.entity,
+    });
+  }
+
+  const items: T[] = [];
+  const rejected: RejectedRow[] = [];
+
+  rows.forEach((row, index) => {
+    try {
+      items.push(mapper(row, index));
+    } catch (e) {
+      if (!(e instanceof RowValidationError)) throw e;
+      rejected.push({ ...context, reason: e.message, row, at: Date.now() });
+    }
+  });
+
+  reportRejectedRows(rejected);
+  return items;
+}
+
+// =============================================================================
+// Field parsers
+// =============================================================================
+
+/**
+ * Required non-empty string (numbers are stringified)
+ */
+export function requireString(value: unknown, field: string): string {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value.toString();
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new RowValidationError(`missing ${field}`);
+  }
+  return value.trim();
+}
+
+/**
+ * Optional string - empty values become null
+ */
+export function optionalString(value: unknown): string | null {
+  if (typeof value === 'number') return value.toString();
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  return value.trim();
+}
+
+/**
+ * Parse a finite number, or null when absent/invalid
+ */
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Required finite number
+ */
+export function requireNumber(value: unknown, field: string): number {
+  const parsed = parseNumber(value);
+  if (parsed === null) {
+    throw new RowValidationError(`invalid ${field}: ${JSON.stringify(value)}`);
+  }
+  return parsed;
+}
+
+/**
+ * Required WGS84 coordinate pair; rejects out-of-range values and the 0,0 placeholder
+ */
+export function requireCoordinates(lat: unknown, lng: unknown): { lat: number; lng: number } {
+  const parsedLat = requireNumber(lat, 'latitude');
+  const parsedLng = requireNumber(lng, 'longitude');
+
+  if (parsedLat < -90 || parsedLat > 90 || parsedLng < -180 || parsedLng > 180) {
+    throw new RowValidationError(`coordinates out of range: ${parsedLat},${parsedLng}`);
+  }
+  if (parsedLat === 0 && parsedLng === 0) {
+    throw new RowValidationError('coordinates missing (0,0)');
+  }
+  return { lat: parsedLat, lng: parsedLng };
+}
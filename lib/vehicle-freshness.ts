@@ -0,0 +1,241 @@
+/**
+ * Vehicle freshness
+ * Judges how far live vehicle data can be trusted. Every location poll is
+ * observed here, which gives:
+ * - position age, corrected for clock drift between the feed and the device
+ *   (report times are already read as Europe/Athens time by the clients, so
+ *   the device's time zone plays no part)
+ * - stale, stationary and ghost vehicles
+ * - arrival predictions cross-checked against what their vehicle did
+ *   between polls, so buses that will never arrive can be told apart
+ *
+ * Drift is only measured on vehicles whose report time moved since the
+ * previous poll (so they are certainly reporting), and only applied when
+ * several of them agree: one route's only bus going quiet must show up as
+ * stale, not shift the clock.
+ */
+
+import { distanceMeters } from './geo';
+import type { City } from './providers';
+import type { BusLocation, StopArrival } from './types';
+
+const STALE_MS = 2 * 60 * 1000;          // No new position for this long
+const GHOST_MS = 10 * 60 * 1000;         // Position too old to show at all
+const STATIONARY_MS = 3 * 60 * 1000;     // Not moving for this long
+const STATIONARY_METERS = 30;            // GPS jitter while standing still
+const ROUTE_POLL_VALID_MS = 60 * 1000;   // A route poll this recent can vouch for its vehicles
+const MISSING_POLLS = 3;                 // Polls a vehicle must be absent from to count as missing...
+const MISSING_MS = 2 * 60 * 1000;        // ...spanning at least this long
+const FORGET_MS = 30 * 60 * 1000;        // Vehicles unseen this long are dropped
+const DRIFT_WINDOW_MS = 10 * 60 * 1000;  // Drift samples older than this are dropped
+const DRIFT_QUORUM = 3;                  // Reporting vehicles that must agree on the drift
+const DRIFT_AGREEMENT_MS = 60 * 1000;    // How far their samples may spread (report intervals)
+const DRIFT_MIN_MS = 30 * 1000;          // Smaller offsets are report latency, not drift
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * - fresh: recent position
+ * - stationary: reporting, but has not moved for a while
+ * - stale: has not reported for a while
+ * - ghost: has not reported for so long it should not be shown
+ */
+export type Freshness = 'fresh' | 'stationary' | 'stale' | 'ghost';
+
+/**
+ * - reliable: nothing contradicts the prediction (or nothing is known)
+ * - doubtful: its vehicle is stale or not moving
+ * - unreliable: its vehicle is a ghost, or has been missing from several
+ *   polls of its route
+ */
+export type ArrivalReliability = 'reliable' | 'doubtful' | 'unreliable';
+
+interface VehicleObservation {
+  location: BusLocation;
+  /** Epoch ms of the last poll the vehicle was in */
+  seenAt: number;
+  /** Where the vehicle has been standing since `anchorSince` */
+  anchorLat: number;
+  anchorLng: number;
+  anchorSince: number;
+}
+
+export interface FreshnessState {
+  /** How far report times lag the device clock (subtracted from ages) */
+  clockOffsetMs: number;
+  /** Receive time minus report time of vehicles seen reporting, by vehicle */
+  driftSamples: ReadonlyMap<string, { gapMs: number; at: number }>;
+  vehicles: ReadonlyMap<string, VehicleObservation>;
+  /** Recent poll times of each route, oldest first */
+  routes: ReadonlyMap<string, readonly number[]>;
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+const states = new Map<City, FreshnessState>();
+const listeners = new Map<City, Set<() => void>>();
+
+/**
+ * Current freshness state of a city (stable between polls)
+ */
+export function getFreshnessState(city: City): FreshnessState {
+  let state = states.get(city);
+  if (!state) {
+    state = { clockOffsetMs: 0, driftSamples: new Map(), vehicles: new Map(), routes: new Map() };
+    states.set(city, state);
+  }
+  return state;
+}
+
+/**
+ * Listen for newly observed location polls of a city
+ */
+export function subscribeFreshness(city: City, listener: () => void): () => void {
+  const set = listeners.get(city) ?? new Set();
+  set.add(listener);
+  listeners.set(city, set);
+  return () => set.delete(listener);
+}
+
+/**
+ * Clock drift from the freshest reporting vehicles
+ * Zero unless DRIFT_QUORUM of them agree on an offset beyond report latency
+ */
+function estimateClockOffset(samples: ReadonlyMap<string, { gapMs: number }>): number {
+  const gaps = Array.from(samples.values(), sample => sample.gapMs).sort((a, b) => a - b);
+  if (gaps.length < DRIFT_QUORUM) return 0;
+  const freshest = gaps.slice(0, DRIFT_QUORUM);
+  if (freshest[freshest.length - 1] - freshest[0] > DRIFT_AGREEMENT_MS) return 0;
+  return Math.abs(freshest[0]) > DRIFT_MIN_MS ? freshest[0] : 0;
+}
+
+/**
+ * Record a location poll of a route
+ */
+export function observeVehicleLocations(
+  city: City,
+  routeCode: string,
+  locations: BusLocation[],
+  receivedAt = Date.now()
+): void {
+  const state = getFreshnessState(city);
+
+  const driftSamples = new Map(state.driftSamples);
+  driftSamples.forEach((sample, vehicleNo) => {
+    if (receivedAt - sample.at > DRIFT_WINDOW_MS) driftSamples.delete(vehicleNo);
+  });
+  locations.forEach(location => {
+    const vehicleNo = location.vehicleNo.trim();
+    const reportedAt = location.reportedAt?.getTime();
+    const previous = state.vehicles.get(vehicleNo)?.location.reportedAt?.getTime();
+    if (reportedAt !== undefined && previous !== undefined && reportedAt > previous) {
+      driftSamples.set(vehicleNo, { gapMs: receivedAt - reportedAt, at: receivedAt });
+    }
+  });
+
+  const vehicles = new Map(state.vehicles);
+  vehicles.forEach((observation, vehicleNo) => {
+    if (receivedAt - observation.seenAt > FORGET_MS) vehicles.delete(vehicleNo);
+  });
+  locations.forEach(location => {
+    const vehicleNo = location.vehicleNo.trim();
+    const previous = vehicles.get(vehicleNo);
+    const moved = !previous ||
+      distanceMeters(previous.anchorLat, previous.anchorLng, location.lat, location.lng) > STATIONARY_METERS;
+    vehicles.set(vehicleNo, {
+      location,
+      seenAt: receivedAt,
+      anchorLat: moved ? location.lat : previous.anchorLat,
+      anchorLng: moved ? location.lng : previous.anchorLng,
+      anchorSince: moved ? receivedAt : previous.anchorSince,
+    });
+  });
+
+  const routes = new Map(state.routes);
+  routes.set(routeCode, [
+    ...(routes.get(routeCode) ?? []).filter(polledAt => receivedAt - polledAt <= GHOST_MS),
+    receivedAt,
+  ]);
+
+  states.set(city, {
+    clockOffsetMs: estimateClockOffset(driftSamples),
+    driftSamples,
+    vehicles,
+    routes,
+  });
+  listeners.get(city)?.forEach(listener => listener());
+}
+
+// =============================================================================
+// Judging
+// =============================================================================
+
+/**
+ * A report time moved onto the device clock
+ */
+export function correctedReportTime(
+  state: Pick<FreshnessState, 'clockOffsetMs'>,
+  reportedAt: Date | null
+): Date | null {
+  return reportedAt ? new Date(reportedAt.getTime() + state.clockOffsetMs) : null;
+}
+
+/**
+ * Milliseconds since a report, corrected for the feed's clock
+ */
+export function positionAgeMs(state: FreshnessState, reportedAt: Date | null, now = Date.now()): number | null {
+  const corrected = correctedReportTime(state, reportedAt);
+  return corrected ? Math.max(0, now - corrected.getTime()) : null;
+}
+
+/**
+ * How much a vehicle's position can be trusted
+ * Feeds without report times are judged by movement alone
+ */
+export function vehicleFreshness(state: FreshnessState, location: BusLocation, now = Date.now()): Freshness {
+  const age = positionAgeMs(state, location.reportedAt, now);
+  if (age !== null && age > GHOST_MS) return 'ghost';
+  if (age !== null && age > STALE_MS) return 'stale';
+
+  const observation = state.vehicles.get(location.vehicleNo.trim());
+  if (observation && now - observation.anchorSince > STATIONARY_MS) return 'stationary';
+  return 'fresh';
+}
+
+/**
+ * Whether a vehicle has been absent from every poll of a route for a while
+ * A single missing poll means little: the bus may be waiting at the terminal,
+ * finishing its trip the other way, or just dropped from one response
+ */
+function isMissing(state: FreshnessState, routeCode: string, vehicleNo: string, now: number): boolean {
+  const polls = state.routes.get(routeCode);
+  if (!polls || polls.length === 0 || now - polls[polls.length - 1] > ROUTE_POLL_VALID_MS) return false;
+
+  // Being in any route's poll (e.g. the opposite direction) counts as seen
+  const seenAt = state.vehicles.get(vehicleNo)?.seenAt ?? -Infinity;
+  const missedPolls = polls.filter(polledAt => polledAt > seenAt);
+  return missedPolls.length >= MISSING_POLLS &&
+    missedPolls[missedPolls.length - 1] - missedPolls[0] >= MISSING_MS;
+}
+
+/**
+ * Whether an arrival prediction agrees with what its vehicle is doing
+ * Only vehicles of recently polled routes can be checked
+ */
+export function arrivalReliability(state: FreshnessState, arrival: StopArrival, now = Date.now()): ArrivalReliability {
+  const vehicleNo = arrival.vehicleCode.trim();
+  if (!vehicleNo) return 'reliable';
+  if (isMissing(state, arrival.routeCode, vehicleNo, now)) return 'unreliable';
+
+  const observation = state.vehicles.get(vehicleNo);
+  if (!observation) return 'reliable';
+  const freshness = vehicleFreshness(state, observation.location, now);
+  if (freshness === 'ghost') return 'unreliable';
+  // Standing still right before arriving is normal (traffic lights, the stop itself)
+  if (freshness === 'stale' || (freshness === 'stationary' && arrival.minutes > 2)) return 'doubtful';
+  return 'reliable';
+}
@@ -0,0 +1,383 @@
+/**
+ * Vehicle motion
+ * Turns polled bus locations into smooth movement along the route shape:
+ * each fix is snapped to the route polyline, speed is estimated from
+ * consecutive fixes (by their report time), and a short path of timed
+ * keyframes is planned ahead so markers can glide between polls
+ *
+ * Markers interpolate the keyframes themselves (positionOnPath), so the
+ * plan only has to be rebuilt when a new poll arrives. The same snapping
+ * places vehicles between the stops of a route for line diagrams.
+ */
+
+import type { BusLocation, RoutePoint } from './types';
+
+const METERS_PER_DEGREE = 111320;
+const OFF_ROUTE_METERS = 80;        // Fixes further from the shape are shown as-is
+const MAX_SPEED_MPS = 25;           // About 90 km/h
+const SPEED_SMOOTHING = 0.5;        // Weight of the newest speed estimate
+const MAX_GLIDE_METERS = 400;       // Larger corrections jump (new trip, long gap)
+const BLEND_MS = 3000;              // Time to ease out a correction from a new fix
+const MAX_EXTRAPOLATION_MS = 30000; // Stop moving a bus this long after its fix
+const PLAN_MS = 20000;              // Path planned ahead, longer than a poll interval
+const PLAN_STEP_MS = 1000;
+
+// =============================================================================
+// Route shape
+// =============================================================================
+
+/**
+ * Route polyline in local meters, with the distance along it at each point
+ */
+export interface RouteShape {
+  points: { lat: number; lng: number }[];
+  x: number[];
+  y: number[];
+  cumulative: number[];
+  length: number;
+  originLat: number;
+  originLng: number;
+  lngScale: number;
+}
+
+/**
+ * Prepare a route polyline for snapping, or null if it has no length
+ */
+export function buildRouteShape(routePoints: RoutePoint[]): RouteShape | null {
+  const points = [...routePoints].sort((a, b) => a.order - b.order);
+  if (points.length < 2) return null;
+
+  const originLat = points[0].lat;
+  const originLng = points[0].lng;
+  const lngScale = Math.cos((originLat * Math.PI) / 180);
+  const x = points.map(p => (p.lng - originLng) * lngScale * METERS_PER_DEGREE);
+  const y = points.map(p => (p.lat - originLat) * METERS_PER_DEGREE);
+
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + Math.hypot(x[i] - x[i - 1], y[i] - y[i - 1]));
+  }
+  const length = cumulative[cumulative.length - 1];
+  if (length === 0) return null;
+
+  return { points, x, y, cumulative, length, originLat, originLng, lngScale };
+}
+
+/**
+ * Compass bearing (degrees clockwise from north) of a local-meters vector
+ */
+function bearing(dx: number, dy: number): number {
+  return ((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Closest point of the shape to a location
+ * Near-ties (overlapping or looping routes) prefer the one closest ahead of `near`
+ */
+export function snapToShape(
+  shape: RouteShape,
+  lat: number,
+  lng: number,
+  near?: number
+): { distanceAlong: number; offsetMeters: number } {
+  const px = (lng - shape.originLng) * shape.lngScale * METERS_PER_DEGREE;
+  const py = (lat - shape.originLat) * METERS_PER_DEGREE;
+
+  const candidates: { distanceAlong: number; offsetMeters: number }[] = [];
+  for (let i = 1; i < shape.x.length; i++) {
+    const ax = shape.x[i - 1], ay = shape.y[i - 1];
+    const dx = shape.x[i] - ax, dy = shape.y[i] - ay;
+    const segment = dx * dx + dy * dy;
+    const t = segment === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / segment));
+    candidates.push({
+      distanceAlong: shape.cumulative[i - 1] + t * Math.sqrt(segment),
+      offsetMeters: Math.hypot(px - (ax + t * dx), py - (ay + t * dy)),
+    });
+  }
+
+  const best = candidates.reduce((a, b) => (b.offsetMeters < a.offsetMeters ? b : a));
+  if (near === undefined) return best;
+
+  const progress = (c: { distanceAlong: number }) =>
+    c.distanceAlong >= near ? c.distanceAlong - near : Infinity;
+  const close = candidates.filter(c => c.offsetMeters <= best.offsetMeters + 25);
+  const ahead = close.reduce((a, b) => (progress(b) < progress(a) ? b : a));
+  return progress(ahead) === Infinity ? best : ahead;
+}
+
+/**
+ * Location and heading at a distance along the shape
+ */
+export function pointAlongShape(shape: RouteShape, distanceAlong: number): { lat: number; lng: number; heading: number } {
+  const d = Math.max(0, Math.min(shape.length, distanceAlong));
+  let i = 1;
+  while (i < shape.cumulative.length - 1 && shape.cumulative[i] < d) i++;
+
+  const start = shape.cumulative[i - 1];
+  const span = shape.cumulative[i] - start;
+  const t = span === 0 ? 0 : (d - start) / span;
+  const dx = shape.x[i] - shape.x[i - 1];
+  const dy = shape.y[i] - shape.y[i - 1];
+  const x = shape.x[i - 1] + t * dx;
+  const y = shape.y[i - 1] + t * dy;
+
+  return {
+    lat: shape.originLat + y / METERS_PER_DEGREE,
+    lng: shape.originLng + x / (shape.lngScale * METERS_PER_DEGREE),
+    heading: bearing(dx, dy),
+  };
+}
+
+// =============================================================================
+// Tracking
+// =============================================================================
+
+/**
+ * What is known about one vehicle after its latest fix
+ */
+export interface VehicleTrack {
+  vehicleNo: string;
+  routeCode: string;
+  lat: number;
+  lng: number;
+  /** Epoch ms of the fix (report time, or poll time without one) */
+  fixTime: number;
+  /** Snapped position, or null when off the route (or no shape) */
+  distanceAlong: number | null;
+  speedMps: number;
+  /** Heading from the last movement between fixes, for off-route vehicles */
+  heading: number | null;
+  /** Displayed minus predicted distance when the fix arrived, eased out over BLEND_MS */
+  correction: number;
+  correctedAt: number;
+}
+
+function predictedDistance(track: VehicleTrack, shape: RouteShape, now: number): number {
+  const elapsed = Math.min(Math.max(now - track.fixTime, 0), MAX_EXTRAPOLATION_MS);
+  return Math.min(track.distanceAlong! + (track.speedMps * elapsed) / 1000, shape.length);
+}
+
+function displayedDistance(track: VehicleTrack, shape: RouteShape, now: number): number {
+  const fade = Math.max(0, 1 - (now - track.correctedAt) / BLEND_MS);
+  return Math.max(0, Math.min(shape.length, predictedDistance(track, shape, now) + track.correction * fade));
+}
+
+/**
+ * Fold a new poll into the vehicle tracks
+ * Vehicles missing from the poll are dropped; fixes no newer than the last
+ * one keep their track as it is
+ */
+export function updateVehicleTracks(
+  previous: ReadonlyMap<string, VehicleTrack>,
+  locations: BusLocation[],
+  shape: RouteShape | null,
+  now = Date.now()
+): Map<string, VehicleTrack> {
+  const tracks = new Map<string, VehicleTrack>();
+
+  locations.forEach(location => {
+    const prev = previous.get(location.vehicleNo);
+    const fixTime = location.reportedAt?.getTime() ?? now;
+    if (prev && prev.routeCode === location.routeCode && fixTime <= prev.fixTime) {
+      tracks.set(location.vehicleNo, prev);
+      return;
+    }
+
+    const onShape = prev && prev.routeCode === location.routeCode ? prev : undefined;
+    const snapped = shape
+      ? snapToShape(shape, location.lat, location.lng, onShape?.distanceAlong ?? undefined)
+      : null;
+    const distanceAlong = snapped && snapped.offsetMeters <= OFF_ROUTE_METERS ? snapped.distanceAlong : null;
+
+    let speedMps = 0;
+    let heading: number | null = null;
+    let correction = 0;
+    if (onShape) {
+      const seconds = (fixTime - onShape.fixTime) / 1000;
+      const dx = (location.lng - onShape.lng) * Math.cos((location.lat * Math.PI) / 180);
+      const dy = location.lat - onShape.lat;
+      heading = dx === 0 && dy === 0 ? onShape.heading : bearing(dx, dy);
+
+      if (distanceAlong !== null && onShape.distanceAlong !== null && shape) {
+        const moved = distanceAlong - onShape.distanceAlong;
+        if (moved >= 0 && seconds > 0) {
+          const estimate = Math.min(moved / seconds, MAX_SPEED_MPS);
+          speedMps = onShape.speedMps > 0
+            ? SPEED_SMOOTHING * estimate + (1 - SPEED_SMOOTHING) * onShape.speedMps
+            : estimate;
+        }
+        // Glide from where the marker is now, unless it is far off
+        const predicted = distanceAlong + (speedMps * Math.min(Math.max(now - fixTime, 0), MAX_EXTRAPOLATION_MS)) / 1000;
+        correction = displayedDistance(onShape, shape, now) - predicted;
+        if (Math.abs(correction) > MAX_GLIDE_METERS) correction = 0;
+      }
+    }
+
+    tracks.set(location.vehicleNo, {
+      vehicleNo: location.vehicleNo,
+      routeCode: location.routeCode,
+      lat: location.lat,
+      lng: location.lng,
+      fixTime,
+      distanceAlong,
+      speedMps,
+      heading,
+      correction,
+      correctedAt: now,
+    });
+  });
+
+  return tracks;
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+export interface MotionKeyframe {
+  /** Epoch ms */
+  t: number;
+  lat: number;
+  lng: number;
+  heading: number | null;
+}
+
+/**
+ * A vehicle's position now and its planned path (at least one keyframe)
+ */
+export interface VehicleMotion {
+  vehicleNo: string;
+  routeCode: string;
+  lat: number;
+  lng: number;
+  heading: number | null;
+  path: MotionKeyframe[];
+}
+
+/**
+ * Plan each vehicle's movement for the next PLAN_MS
+ * Off-route vehicles (and all of them without a shape) stay at their fix
+ */
+export function planVehicleMotion(
+  tracks: ReadonlyMap<string, VehicleTrack>,
+  shape: RouteShape | null,
+  now = Date.now()
+): VehicleMotion[] {
+  return Array.from(tracks.values()).map(track => {
+    let path: MotionKeyframe[];
+    if (shape && track.distanceAlong !== null) {
+      path = [];
+      for (let t = now; t <= now + PLAN_MS; t += PLAN_STEP_MS) {
+        const point = pointAlongShape(shape, displayedDistance(track, shape, t));
+        path.push({ t, ...point });
+      }
+    } else {
+      path = [{ t: now, lat: track.lat, lng: track.lng, heading: track.heading }];
+    }
+
+    return {
+      vehicleNo: track.vehicleNo,
+      routeCode: track.routeCode,
+      lat: path[0].lat,
+      lng: path[0].lng,
+      heading: path[0].heading,
+      path,
+    };
+  });
+}
+
+/**
+ * Interpolated position on a planned path (held at its ends)
+ */
+export function positionOnPath(path: MotionKeyframe[], now = Date.now()): { lat: number; lng: number; heading: number | null } {
+  if (now <= path[0].t || path.length === 1) return path[0];
+  const last = path[path.length - 1];
+  if (now >= last.t) return last;
+
+  let i = 1;
+  while (path[i].t < now) i++;
+  const a = path[i - 1];
+  const b = path[i];
+  const f = (now - a.t) / (b.t - a.t);
+  return { lat: a.lat + (b.lat - a.lat) * f, lng: a.lng + (b.lng - a.lng) * f, heading: a.heading };
+}
+
+// =============================================================================
+// Progress along the stop list
+// =============================================================================
+
+/**
+ * Where a vehicle is along an ordered stop list: between stop `stopIndex`
+ * and the next one, `fraction` of the way
+ */
+export interface StopProgress {
+  vehicleNo: string;
+  stopIndex: number;
+  fraction: number;
+  reportedAt: Date | null;
+}
+
+/**
+ * Stops of a route measured along its shape (or along the stops themselves)
+ */
+export interface MeasuredStops {
+  shape: RouteShape;
+  /** Distance along the shape of each stop, in stop order */
+  distances: number[];
+}
+
+/**
+ * Measure an ordered stop list along the route shape, or along the stops
+ * themselves without one; null when the stops do not form a line
+ */
+export function measureStops(stops: { lat: number; lng: number }[], shape: RouteShape | null): MeasuredStops | null {
+  const path = shape ?? buildRouteShape(stops.map((stop, order) => ({ ...stop, order })));
+  if (!path || stops.length === 0) return null;
+
+  // Each stop snapped ahead of the previous one, so loops keep their order
+  const distances: number[] = [];
+  stops.forEach(stop => {
+    const previous = distances[distances.length - 1];
+    distances.push(snapToShape(path, stop.lat, stop.lng, previous).distanceAlong);
+  });
+  return { shape: path, distances };
+}
+
+/**
+ * Where a location falls between the measured stops
+ * Locations before the first stop sit at it, after the last at it
+ */
+export function progressAlongStops(
+  measured: MeasuredStops,
+  lat: number,
+  lng: number
+): { stopIndex: number; fraction: number; distanceAlong: number } {
+  const { distances } = measured;
+  const { distanceAlong } = snapToShape(measured.shape, lat, lng);
+  const last = distances.length - 1;
+  let stopIndex = 0;
+  while (stopIndex < last && distances[stopIndex + 1] <= distanceAlong) stopIndex++;
+
+  const span = stopIndex < last ? distances[stopIndex + 1] - distances[stopIndex] : 0;
+  const fraction = span > 0 ? Math.max(0, Math.min(1, (distanceAlong - distances[stopIndex]) / span)) : 0;
+  return { stopIndex, fraction, distanceAlong };
+}
+
+/**
+ * Place each vehicle between two consecutive stops of a route
+ */
+export function projectOntoStops(
+  locations: BusLocation[],
+  stops: { lat: number; lng: number }[],
+  shape: RouteShape | null
+): StopProgress[] {
+  if (stops.length === 0) return [];
+  const measured = measureStops(stops, shape);
+
+  return locations.map(location => {
+    const { stopIndex, fraction } = measured
+      ? progressAlongStops(measured, location.lat, location.lng)
+      : { stopIndex: 0, fraction: 0 };
+    return { vehicleNo: location.vehicleNo, stopIndex, fraction, reportedAt: location.reportedAt };
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Vehicle tracking
+ * Follows one vehicle across location polls: links an arrival's vehicle code
+ * to the live location feed, tells whether the vehicle is still reporting,
+ * and estimates when it reaches each stop still ahead of it
+ *
+ * The stop being waited at uses the provider's own prediction; the other
+ * stops are paced from it (or from a typical city bus speed without one)
+ */
+
+import type { BusLocation, Stop, StopArrival } from './types';
+import type { Freshness } from './vehicle-freshness';
+import { measureStops, progressAlongStops, type RouteShape } from './vehicle-motion';
+
+const DEFAULT_SPEED_MPS = 5;   // About 18 km/h, stops included
+const AT_STOP_METERS = 20;     // A stop this close behind still counts as ahead
+const MIN_PACE_METERS = 100;   // Too short a distance to derive a pace from
+
+/**
+ * - searching: no poll has answered yet
+ * - live: in the feed with a recent position
+ * - notReporting: in the feed, but its position is stale (or a ghost)
+ * - lost: missing from the feed (it may have finished its trip)
+ */
+export type TrackingStatus = 'searching' | 'live' | 'notReporting' | 'lost';
+
+export interface UpcomingStop {
+  stop: Stop;
+  /** Position in the route's stop list */
+  index: number;
+  /** Estimated minutes until the vehicle reaches the stop */
+  minutes: number;
+  /** The stop the user is waiting at */
+  isTarget: boolean;
+}
+
+/**
+ * Arrivals (veh_code) and locations (VEH_NO) name the same vehicle
+ */
+export function isSameVehicle(a: string, b: string): boolean {
+  return a.trim() !== '' && a.trim() === b.trim();
+}
+
+/**
+ * The followed vehicle's entry in a location poll
+ */
+export function findVehicle(locations: BusLocation[] | undefined, vehicleNo: string): BusLocation | null {
+  return locations?.find(location => isSameVehicle(location.vehicleNo, vehicleNo)) ?? null;
+}
+
+/**
+ * State of a followed vehicle after the latest poll, from its freshness
+ * (null when it is not in the poll)
+ */
+export function trackingStatus(freshness: Freshness | null, polled: boolean): TrackingStatus {
+  if (freshness) {
+    return freshness === 'stale' || freshness === 'ghost' ? 'notReporting' : 'live';
+  }
+  return polled ? 'lost' : 'searching';
+}
+
+/**
+ * Stops still ahead of a vehicle with estimated minutes to each
+ * Empty when the stops cannot be measured along the route
+ */
+export function upcomingStops(
+  stops: Stop[],
+  shape: RouteShape | null,
+  location: BusLocation,
+  targetStopCode: string | null,
+  targetArrival: StopArrival | null
+): UpcomingStop[] {
+  const measured = measureStops(stops, shape);
+  if (!measured) return [];
+
+  const { distanceAlong } = progressAlongStops(measured, location.lat, location.lng);
+  const ahead = stops
+    .map((stop, index) => ({ stop, index, meters: measured.distances[index] - distanceAlong }))
+    .filter(entry => entry.meters >= -AT_STOP_METERS);
+
+  // Seconds per meter, from the prediction for the awaited stop when there is one
+  const target = ahead.find(entry => entry.stop.code === targetStopCode);
+  const pace = target && targetArrival && target.meters >= MIN_PACE_METERS
+    ? (targetArrival.minutes * 60) / target.meters
+    : 1 / DEFAULT_SPEED_MPS;
+
+  return ahead.map(({ stop, index, meters }) => {
+    const isTarget = stop.code === targetStopCode;
+    return {
+      stop,
+      index,
+      minutes: isTarget && targetArrival ? targetArrival.minutes : Math.round((Math.max(meters, 0) * pace) / 60),
+      isTarget,
+    };
+  });
+}
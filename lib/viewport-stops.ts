@@ -0,0 +1,222 @@
+/**
+ * Viewport stops
+ * Loads the stops inside the visible map area tile by tile, center first,
+ * and keeps them cached per city so panning back over an area is instant
+ *
+ * Tiles are skipped once the stop catalog is complete (it already holds every
+ * stop); until then each tile asks the provider for the stops closest to its
+ * center. How many stops are drawn depends on the zoom level.
+ */
+
+import { isTransitApiError } from './errors';
+import type { GeoBounds } from './geo';
+import type { RequestOptions } from './http';
+import type { City } from './providers';
+import { SpatialIndex } from './spatial-index';
+import { getStopCatalogState } from './stop-catalog';
+import type { Stop } from './types';
+import * as api from './unified-api';
+
+const TILE_DEGREES = 0.005;   // About 550 m by 420 m in Greece
+const MAX_TILES_PER_VIEW = 24; // Tiles loaded for one viewport
+const CONCURRENCY = 2;         // Tiles loaded in parallel
+
+/** No stops are drawn below this zoom */
+export const MIN_STOPS_ZOOM = 13;
+
+// Most stops drawn from each zoom level up (the map clusters them up to zoom 14)
+const STOP_LIMITS: { minZoom: number; limit: number }[] = [
+  { minZoom: 16, limit: 600 },
+  { minZoom: 15, limit: 400 },
+  { minZoom: MIN_STOPS_ZOOM, limit: 250 },
+];
+
+// =============================================================================
+// State
+// =============================================================================
+
+export interface ViewportStopsState {
+  /** Stops loaded so far (replaced as tiles load) */
+  index: SpatialIndex<Stop>;
+  loading: boolean;
+  error: Error | null;
+}
+
+interface TileCache {
+  stops: Map<string, Stop>;
+  loaded: Set<string>;
+  pending: Map<string, Promise<void>>;
+}
+
+const caches = new Map<City, TileCache>();
+const states = new Map<City, ViewportStopsState>();
+const listeners = new Map<City, Set<() => void>>();
+
+function getCache(city: City): TileCache {
+  let cache = caches.get(city);
+  if (!cache) {
+    cache = { stops: new Map(), loaded: new Set(), pending: new Map() };
+    caches.set(city, cache);
+  }
+  return cache;
+}
+
+/**
+ * Current viewport stops state of a city (stable between updates)
+ */
+export function getViewportStopsState(city: City): ViewportStopsState {
+  let state = states.get(city);
+  if (!state) {
+    state = { index: new SpatialIndex<Stop>([]), loading: false, error: null };
+    states.set(city, state);
+  }
+  return state;
+}
+
+/**
+ * Listen for newly loaded viewport stops of a city
+ */
+export function subscribeViewportStops(city: City, listener: () => void): () => void {
+  const set = listeners.get(city) ?? new Set();
+  set.add(listener);
+  listeners.set(city, set);
+  return () => set.delete(listener);
+}
+
+function update(city: City, changes: Partial<ViewportStopsState>): void {
+  states.set(city, { ...getViewportStopsState(city), ...changes });
+  listeners.get(city)?.forEach(listener => listener());
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+interface Tile {
+  key: string;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Tiles covering a box, nearest to its center first
+ */
+function tilesFor(bounds: GeoBounds): Tile[] {
+  const centerLat = (bounds.north + bounds.south) / 2;
+  const centerLng = (bounds.east + bounds.west) / 2;
+  const tiles: (Tile & { order: number })[] = [];
+
+  for (let row = Math.floor(bounds.south / TILE_DEGREES); row <= Math.floor(bounds.north / TILE_DEGREES); row++) {
+    for (let col = Math.floor(bounds.west / TILE_DEGREES); col <= Math.floor(bounds.east / TILE_DEGREES); col++) {
+      const lat = (row + 0.5) * TILE_DEGREES;
+      const lng = (col + 0.5) * TILE_DEGREES;
+      tiles.push({ key: `${row}:${col}`, lat, lng, order: (lat - centerLat) ** 2 + (lng - centerLng) ** 2 });
+    }
+  }
+  return tiles.sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Load one tile into the cache (shared between overlapping viewports)
+ */
+function loadTile(city: City, cache: TileCache, tile: Tile): Promise<void> {
+  let pending = cache.pending.get(tile.key);
+  if (!pending) {
+    pending = api
+      .getClosestStops(city, tile.lat, tile.lng)
+      .then(stops => {
+        stops.forEach(({ distanceMeters: _distance, ...stop }) => cache.stops.set(stop.code, stop));
+        cache.loaded.add(tile.key);
+        update(city, { index: new SpatialIndex(Array.from(cache.stops.values())) });
+      })
+      .finally(() => cache.pending.delete(tile.key));
+    cache.pending.set(tile.key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Load the stops of a visible area that are not cached yet
+ * Aborting stops starting new tiles; tiles already loading finish for the cache
+ */
+export async function loadViewportStops(city: City, bounds: GeoBounds, options: RequestOptions = {}): Promise<void> {
+  if (getStopCatalogState(city).catalog.complete) return;
+
+  const cache = getCache(city);
+  const missing = tilesFor(bounds)
+    .filter(tile => !cache.loaded.has(tile.key))
+    .slice(0, MAX_TILES_PER_VIEW);
+  if (missing.length === 0) return;
+
+  update(city, { loading: true, error: null });
+  let lastError: Error | null = null;
+  let next = 0;
+  const worker = async () => {
+    while (next < missing.length && !options.signal?.aborted) {
+      try {
+        await loadTile(city, cache, missing[next++]);
+      } catch (e) {
+        if (!isTransitApiError(e)) throw e;
+        // Left unloaded, so the tile is retried on the next pan
+        lastError = e;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  } finally {
+    update(city, { loading: cache.pending.size > 0, error: lastError });
+  }
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+/**
+ * Most stops to draw at a zoom level
+ */
+export function stopLimitForZoom(zoom: number): number {
+  return STOP_LIMITS.find(level => zoom >= level.minZoom)?.limit ?? 0;
+}
+
+/**
+ * Stops inside a box from any of the indexes, thinned out evenly across the
+ * box when there are more than the limit (so no area is left empty)
+ */
+export function selectViewportStops(indexes: SpatialIndex<Stop>[], bounds: GeoBounds, limit: number): Stop[] {
+  const found = new Map<string, Stop>();
+  indexes.forEach(index => {
+    index.withinBounds(bounds).forEach(stop => {
+      if (!found.has(stop.code)) found.set(stop.code, stop);
+    });
+  });
+
+  // Sorted so the same stops are picked as the map moves
+  const stops = Array.from(found.values()).sort((a, b) => a.code.localeCompare(b.code));
+  if (stops.length <= limit) return stops;
+
+  const side = Math.ceil(Math.sqrt(limit));
+  const latStep = (bounds.north - bounds.south) / side || 1;
+  const lngStep = (bounds.east - bounds.west) / side || 1;
+  const cells = new Map<number, Stop[]>();
+  stops.forEach(stop => {
+    const row = Math.min(Math.floor((stop.lat - bounds.south) / latStep), side - 1);
+    const col = Math.min(Math.floor((stop.lng - bounds.west) / lngStep), side - 1);
+    const key = row * side + col;
+    const cell = cells.get(key);
+    if (cell) cell.push(stop);
+    else cells.set(key, [stop]);
+  });
+
+  // One stop per cell per round until the limit is reached
+  const picked: Stop[] = [];
+  const queues = Array.from(cells.values());
+  for (let round = 0; picked.length < limit; round++) {
+    queues.forEach(queue => {
+      if (round < queue.length && picked.length < limit) picked.push(queue[round]);
+    });
+  }
+  return picked;
+}
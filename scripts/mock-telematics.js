@@ -0,0 +1,341 @@
+// Local stand-in for the OASA and OASTH telematics servers
+//
+// Replays fixtures from fixtures/oasa and fixtures/oasth, optionally recording
+// new ones from the live servers, so the app runs without network.
+//
+//   node scripts/mock-telematics.js [--port 4000] [--scenario live] [--record]
+//
+// Point the app at it with EXPO_PUBLIC_MOCK_TELEMATICS_URL=http://<host>:4000
+// Requests are served under the upstream paths:
+//   /oasa/api/?act=getStopArrivals&p1=...   -> telematics.oasa.gr/api/
+//   /oasth/el/api/getBusLocation/101/?a=1   -> old.oasth.gr/el/api/
+//
+// Fixture lookup tries "<endpoint>_<param1>_<param2>..." first, then "<endpoint>".
+// OASA fixtures are .json; OASTH fixtures are .txt (tuple format) or .json and
+// are served gzip-compressed like the real server.
+//
+// Scenarios:
+//   static  fixtures are served unchanged (default)
+//   live    buses advance along the route geometry fixture and btime2
+//           counts down, wrapping to the next bus, as time passes
+
+const fs = require('fs');
+const http = require('http');
+const https = require('https');
+const path = require('path');
+const zlib = require('zlib');
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+const OPERATORS = {
+  oasa: {
+    upstream: 'http://telematics.oasa.gr',
+    gzip: false,
+    extensions: ['.json'],
+    // /api/?act=getStopArrivals&p1=400075 -> getStopArrivals, [400075]
+    parse(url) {
+      const params = ['p1', 'p2', 'p3']
+        .map((key) => url.searchParams.get(key))
+        .filter((value) => value !== null);
+      return { endpoint: url.searchParams.get('act'), params };
+    },
+    routeDetailsEndpoint: 'webRouteDetails',
+  },
+  oasth: {
+    upstream: 'https://old.oasth.gr',
+    gzip: true,
+    extensions: ['.txt', '.json'],
+    // /el/api/getBusLocation/101/ -> getBusLocation, [101]
+    parse(url) {
+      const [endpoint, ...params] = url.pathname
+        .replace(/^\/el\/api\//, '')
+        .split('/')
+        .filter(Boolean)
+        .map(decodeURIComponent);
+      return { endpoint, params };
+    },
+    routeDetailsEndpoint: 'getRouteDetailPerRoute',
+  },
+};
+
+// =============================================================================
+// Command line
+// =============================================================================
+
+function parseArgs(argv) {
+  const options = { port: 4000, scenario: 'static', record: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--scenario') options.scenario = argv[++i];
+    else if (arg === '--record') options.record = true;
+    else if (arg === '--help') {
+      console.log('Usage: node scripts/mock-telematics.js [--port 4000] [--scenario static|live] [--record]');
+      process.exit(0);
+    } else {
+      console.error(`Unknown argument: ${arg}`);
+      process.exit(1);
+    }
+  }
+  if (!SCENARIOS[options.scenario]) {
+    console.error(`Unknown scenario "${options.scenario}", expected one of: ${Object.keys(SCENARIOS).join(', ')}`);
+    process.exit(1);
+  }
+  return options;
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+function fixtureNames(endpoint, params) {
+  const safe = params.map((param) => param.replace(/[^A-Za-z0-9.-]/g, '-'));
+  const names = [];
+  for (let n = safe.length; n > 0; n--) {
+    names.push([endpoint, ...safe.slice(0, n)].join('_'));
+  }
+  names.push(endpoint);
+  return names;
+}
+
+function findFixture(operatorId, endpoint, params) {
+  const operator = OPERATORS[operatorId];
+  for (const name of fixtureNames(endpoint, params)) {
+    for (const extension of operator.extensions) {
+      const file = path.join(FIXTURES_DIR, operatorId, name + extension);
+      if (fs.existsSync(file)) return file;
+    }
+  }
+  return null;
+}
+
+function readFixture(operatorId, endpoint, params) {
+  const file = findFixture(operatorId, endpoint, params);
+  return file ? { file, text: fs.readFileSync(file, 'utf8') } : null;
+}
+
+function saveFixture(operatorId, endpoint, params, text) {
+  const extension = text.trim().startsWith('[{') || text.trim().startsWith('{') ? '.json' : '.txt';
+  const name = fixtureNames(endpoint, params)[0] + (operatorId === 'oasa' ? '.json' : extension);
+  const file = path.join(FIXTURES_DIR, operatorId, name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+// =============================================================================
+// Scenarios
+// =============================================================================
+
+const startedAt = Date.now();
+const TICK_MS = 10000; // Buses advance one geometry point per tick
+const HEADWAY_MINUTES = 15; // Gap to the next bus once one has arrived
+
+function elapsedMinutes() {
+  return Math.floor((Date.now() - startedAt) / 60000);
+}
+
+// Route geometry as [{lat, lng}] from the operator's route details fixture
+function routeGeometry(operatorId, routeCode) {
+  const operator = OPERATORS[operatorId];
+  const fixture = readFixture(operatorId, operator.routeDetailsEndpoint, [routeCode]);
+  if (!fixture) return [];
+
+  if (operatorId === 'oasa') {
+    return JSON.parse(fixture.text).map((point) => ({
+      lat: Number(point.routed_y),
+      lng: Number(point.routed_x),
+    }));
+  }
+  // OASTH tuples are (longitude, latitude)
+  const points = [];
+  const pattern = /\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)/g;
+  let match;
+  while ((match = pattern.exec(fixture.text)) !== null) {
+    points.push({ lat: Number(match[2]), lng: Number(match[1]) });
+  }
+  return points;
+}
+
+function nearestIndex(points, lat, lng) {
+  let best = 0;
+  let bestDistance = Infinity;
+  points.forEach((point, index) => {
+    const distance = (point.lat - lat) ** 2 + (point.lng - lng) ** 2;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function advance(points, lat, lng) {
+  if (points.length === 0) return { lat, lng };
+  const ticks = Math.floor((Date.now() - startedAt) / TICK_MS);
+  return points[(nearestIndex(points, lat, lng) + ticks) % points.length];
+}
+
+function countDown(minutes) {
+  const remaining = Number(minutes) - elapsedMinutes();
+  // Once a bus has arrived the next one is a headway behind
+  return remaining >= 0 ? remaining : ((remaining % HEADWAY_MINUTES) + HEADWAY_MINUTES) % HEADWAY_MINUTES;
+}
+
+function formatOasaDate(date) {
+  const month = date.toLocaleString('en-US', { month: 'short' });
+  const hours = date.getHours() % 12 || 12;
+  const pad = (value) => String(value).padStart(2, '0');
+  const suffix = date.getHours() < 12 ? 'AM' : 'PM';
+  return `${month} ${pad(date.getDate())} ${date.getFullYear()} ${pad(hours)}:${pad(date.getMinutes())}:${pad(date.getSeconds())}:000${suffix}`;
+}
+
+function formatOasthDate(date) {
+  const pad = (value) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+const SCENARIOS = {
+  static: {},
+  live: {
+    oasa: {
+      getBusLocation(text, params) {
+        const points = routeGeometry('oasa', params[0]);
+        const now = new Date();
+        const buses = JSON.parse(text).map((bus) => {
+          const position = advance(points, Number(bus.CS_LAT), Number(bus.CS_LNG));
+          return {
+            ...bus,
+            CS_LAT: position.lat.toFixed(6),
+            CS_LNG: position.lng.toFixed(6),
+            CS_DATE: formatOasaDate(now),
+          };
+        });
+        return JSON.stringify(buses);
+      },
+      getStopArrivals(text) {
+        const arrivals = JSON.parse(text).map((arrival) => ({
+          ...arrival,
+          btime2: String(countDown(arrival.btime2)),
+        }));
+        return JSON.stringify(arrivals);
+      },
+    },
+    oasth: {
+      getBusLocation(text, params) {
+        const points = routeGeometry('oasth', params[0]);
+        const now = formatOasthDate(new Date());
+        // Rows are ("vehicle", "date" | None, latitude, longitude)
+        return text.replace(
+          /\(\s*("[^"]*")\s*,\s*("[^"]*"|None)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)/g,
+          (_, vehicle, __, lat, lng) => {
+            const position = advance(points, Number(lat), Number(lng));
+            return `(${vehicle}, "${now}", ${position.lat.toFixed(6)}, ${position.lng.toFixed(6)})`;
+          }
+        );
+      },
+      getStopArrivals(text) {
+        const arrivals = JSON.parse(text).map((arrival) => ({
+          ...arrival,
+          btime2: String(countDown(arrival.btime2)),
+        }));
+        return JSON.stringify(arrivals);
+      },
+    },
+  },
+};
+
+// =============================================================================
+// Server
+// =============================================================================
+
+function fetchUpstream(target, method) {
+  const client = target.startsWith('https:') ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(target, {
+      method,
+      headers: { 'Accept': '*/*', 'Accept-Encoding': 'gzip' },
+      timeout: 30000,
+    }, (res) => {
+      const chunks = [];
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () => {
+        const body = Buffer.concat(chunks);
+        const gzipped = body[0] === 0x1f && body[1] === 0x8b;
+        resolve({ status: res.statusCode, text: (gzipped ? zlib.gunzipSync(body) : body).toString('utf8') });
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error('upstream timeout')));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+function send(res, status, body, gzip) {
+  const payload = gzip ? zlib.gzipSync(body) : Buffer.from(body, 'utf8');
+  res.writeHead(status, {
+    'Content-Type': gzip ? 'application/octet-stream' : 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(payload);
+}
+
+async function handle(req, res, options) {
+  const url = new URL(req.url, 'http://localhost');
+  const [, operatorId] = url.pathname.split('/');
+  const operator = OPERATORS[operatorId];
+  if (!operator) {
+    send(res, 404, JSON.stringify({ error: 'Expected /oasa/... or /oasth/...' }), false);
+    return;
+  }
+
+  // Upstream path and query, e.g. /api/?act=webGetLines
+  url.pathname = url.pathname.slice(operatorId.length + 1);
+  const { endpoint, params } = operator.parse(url);
+  if (!endpoint) {
+    send(res, 400, JSON.stringify({ error: 'Missing endpoint' }), false);
+    return;
+  }
+
+  if (options.record) {
+    const target = operator.upstream + url.pathname + url.search;
+    const upstream = await fetchUpstream(target, req.method);
+    if (upstream.status >= 200 && upstream.status < 300) {
+      const file = saveFixture(operatorId, endpoint, params, upstream.text);
+      console.log(`recorded ${operatorId} ${endpoint} -> ${path.relative(process.cwd(), file)}`);
+    }
+    send(res, upstream.status, upstream.text, operator.gzip);
+    return;
+  }
+
+  const fixture = readFixture(operatorId, endpoint, params);
+  if (!fixture) {
+    console.warn(`no fixture for ${operatorId} ${endpoint} ${params.join('/')}`);
+    // Both servers answer "no data" with an empty body
+    send(res, 200, operatorId === 'oasa' ? 'null' : '', operator.gzip);
+    return;
+  }
+
+  const transform = SCENARIOS[options.scenario][operatorId]?.[endpoint];
+  const body = transform ? transform(fixture.text, params) : fixture.text;
+  console.log(`${operatorId} ${endpoint} ${params.join('/')} <- ${path.basename(fixture.file)}`);
+  send(res, 200, body, operator.gzip);
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const server = http.createServer((req, res) => {
+    handle(req, res, options).catch((error) => {
+      console.error(error);
+      send(res, 502, JSON.stringify({ error: String(error.message || error) }), false);
+    });
+  });
+
+  server.listen(options.port, () => {
+    const mode = options.record ? 'recording' : `replaying (${options.scenario})`;
+    console.log(`Mock telematics server ${mode} on http://localhost:${options.port}`);
+  });
+}
+
+main();